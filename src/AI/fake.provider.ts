@@ -0,0 +1,98 @@
+import { hiringRecommendation, nextQuestionAction, questionDifficulty } from '../Utils/types.js';
+import {
+    IAIProvider,
+    IEvaluationRequest,
+    IGeneratedQuestion,
+    IInterviewSummary,
+    INextQuestionRequest,
+    IQuestionsRequest,
+    ISummaryRequest
+} from '../Schemas/ai.schema.js';
+
+const difficulties: questionDifficulty[] = [questionDifficulty.EASY, questionDifficulty.MEDIUM, questionDifficulty.HARD];
+
+/*
+@class FakeProvider
+Description: A deterministic provider that needs no network or model, for local development and end-to-end runs.
+The same request always gets the same result:
+    - Questions are numbered templates about the domain. The difficulty minimums are met first, then difficulties rotate Easy, Medium, Hard.
+    - Questions come with a rubric whose key points are the domain and "trade-offs".
+    - Every criterion of an answer scores the same share of its max score: nothing when empty, and otherwise 20% plus 10% for every 10 words, up to 100%.
+      A key point is covered when the answer contains every word of it, ignoring case.
+    - The summary recommends from the average score: Strong Hire from 8.5, Hire from 7, Review from 5, No Hire below.
+    - In an adaptive interview, an answer that scored below 5 gets an Easy follow-up when one is allowed, one that scored 8 or more
+      moves to a new topic one difficulty harder than the planned question, and otherwise the planned question is asked.
+*/
+export class FakeProvider implements IAIProvider {
+    public readonly name: string = 'fake';
+
+    public async generateQuestions(request: IQuestionsRequest): Promise<IGeneratedQuestion[]> {
+        const required: questionDifficulty[] = difficulties.flatMap((difficulty) => Array(request.minimums[difficulty] || 0).fill(difficulty));
+        return Array.from({ length: request.num_questions }, (_, index) => {
+            const difficulty: questionDifficulty = required[index] || difficulties[index % difficulties.length];
+            return {
+                question_text: `Question ${index + 1} on ${request.domain} (${difficulty}): describe a problem you solved with ${request.domain} and the trade-offs you made.`,
+                difficulty,
+                rubric: {
+                    key_points: [request.domain, 'trade-offs'],
+                    criteria: [
+                        { name: 'Correctness', description: 'The solution described is technically sound.', weight: 2, max_score: 10 },
+                        { name: 'Trade-offs', description: 'The trade-offs are named and weighed.', weight: 1, max_score: 5 },
+                    ],
+                },
+            };
+        });
+    }
+
+    public async evaluateAnswer(request: IEvaluationRequest): Promise<unknown> {
+        const words: string[] = request.answer.toLowerCase().split(/\W+/).filter(Boolean);
+        const share: number = words.length === 0 ? 0 : Math.min(1, 0.2 + Math.floor(words.length / 10) / 10);
+        const covers = (point: string) => point.toLowerCase().split(/\W+/).filter(Boolean).every((word) => words.includes(word));
+        return {
+            criteria: request.rubric.criteria.map((criterion) => ({
+                name: criterion.name,
+                score: Math.round(share * criterion.max_score * 10) / 10,
+                comment: `Offline score based on the length of the answer (${words.length} words).`,
+            })),
+            key_points_covered: request.rubric.key_points.filter(covers),
+            key_points_missed: request.rubric.key_points.filter((point) => !covers(point)),
+            feedback: `Offline evaluation based on the length of the answer (${words.length} words).`,
+        };
+    }
+
+    public async generateNextQuestion(request: INextQuestionRequest): Promise<unknown> {
+        const last = request.transcripts[request.transcripts.length - 1];
+        const score: number = last ? last.score || 0 : 0;
+        if (last && score < 5 && request.follow_up_allowed) {
+            return {
+                action: nextQuestionAction.FOLLOW_UP,
+                reason: `The answer to question ${request.transcripts.length} scored ${score}/10.`,
+                question_text: `Follow-up on question ${request.transcripts.length}: walk through your previous answer again step by step, with a concrete example from ${request.domain}.`,
+                difficulty: questionDifficulty.EASY,
+            };
+        }
+        if (last && score >= 8) {
+            const difficulty: questionDifficulty = difficulties[Math.min(difficulties.length - 1, difficulties.indexOf(request.planned.difficulty) + 1)];
+            return {
+                action: nextQuestionAction.NEW_TOPIC,
+                reason: `The answer to question ${request.transcripts.length} scored ${score}/10.`,
+                question_text: `Question ${request.transcripts.length + 1} on ${request.domain} (${difficulty}): how would you design a system with ${request.domain} that has to scale ten times, and what would break first?`,
+                difficulty,
+            };
+        }
+        return { action: nextQuestionAction.PLANNED, reason: `The answer to question ${request.transcripts.length} scored ${score}/10.` };
+    }
+
+    public async generateSummary(request: ISummaryRequest): Promise<IInterviewSummary> {
+        const scores: number[] = request.transcripts.map((t) => t.score || 0);
+        const average: number = scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 0;
+        const recommendation: hiringRecommendation = average >= 8.5 ? hiringRecommendation.STRONG_HIRE
+            : average >= 7 ? hiringRecommendation.HIRE
+            : average >= 5 ? hiringRecommendation.REVIEW
+            : hiringRecommendation.NO_HIRE;
+        return {
+            summary_text: `Offline summary for ${request.domain}: ${scores.length} questions with an average score of ${average.toFixed(1)}/10.`,
+            recommendation,
+        };
+    }
+}
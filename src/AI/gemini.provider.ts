@@ -0,0 +1,71 @@
+import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
+import { PromptTemplate } from '@langchain/core/prompts';
+import { JsonOutputParser } from '@langchain/core/output_parsers';
+import {
+    AI_PROMPTS,
+    IAIProvider,
+    IEvaluationRequest,
+    IEvaluationResult,
+    IGeneratedQuestion,
+    IInterviewSummary,
+    INextQuestion,
+    INextQuestionRequest,
+    IQuestionsRequest,
+    ISummaryRequest
+} from '../Schemas/ai.schema.js';
+import { toEvaluationVariables, toNextQuestionVariables, toQuestionsVariables, toSummaryVariables } from './prompts.js';
+
+/*
+@class GeminiProvider
+Description: Runs the AI tasks on Google Gemini through langchain. Configured with GEMINI_API_KEY (required)
+and GEMINI_MODEL (default gemini-2.5-flash). Each task is a chain of its prompt, the model and a JSON parser.
+*/
+export class GeminiProvider implements IAIProvider {
+    public readonly name: string;
+    private generationChain;
+    private evaluationChain;
+    private summaryChain;
+    private nextQuestionChain;
+
+    constructor() {
+        const apiKey = process.env.GEMINI_API_KEY;
+        if (!apiKey) throw new Error("GEMINI_API_KEY is not set");
+
+        const modelName: string = process.env.GEMINI_MODEL || 'gemini-2.5-flash';
+        this.name = `gemini (${modelName})`;
+        const model = new ChatGoogleGenerativeAI({
+            apiKey: apiKey,
+            model: modelName,
+            temperature: 0.3,
+        });
+
+        this.generationChain = PromptTemplate.fromTemplate(AI_PROMPTS.GENERATE_QUESTIONS_TEMPLATE)
+            .pipe(model)
+            .pipe(new JsonOutputParser<IGeneratedQuestion[]>());
+        this.evaluationChain = PromptTemplate.fromTemplate(AI_PROMPTS.EVALUATE_ANSWER_TEMPLATE)
+            .pipe(model)
+            .pipe(new JsonOutputParser<IEvaluationResult>());
+        this.summaryChain = PromptTemplate.fromTemplate(AI_PROMPTS.GENERATE_SUMMARY_TEMPLATE)
+            .pipe(model)
+            .pipe(new JsonOutputParser<IInterviewSummary>());
+        this.nextQuestionChain = PromptTemplate.fromTemplate(AI_PROMPTS.GENERATE_NEXT_QUESTION_TEMPLATE)
+            .pipe(model)
+            .pipe(new JsonOutputParser<INextQuestion>());
+    }
+
+    public async generateQuestions(request: IQuestionsRequest): Promise<unknown> {
+        return await this.generationChain.invoke(toQuestionsVariables(request));
+    }
+
+    public async evaluateAnswer(request: IEvaluationRequest): Promise<unknown> {
+        return await this.evaluationChain.invoke(toEvaluationVariables(request));
+    }
+
+    public async generateSummary(request: ISummaryRequest): Promise<unknown> {
+        return await this.summaryChain.invoke(toSummaryVariables(request));
+    }
+
+    public async generateNextQuestion(request: INextQuestionRequest): Promise<unknown> {
+        return await this.nextQuestionChain.invoke(toNextQuestionVariables(request));
+    }
+}
@@ -0,0 +1,78 @@
+import { PromptTemplate } from '@langchain/core/prompts';
+import { JsonOutputParser } from '@langchain/core/output_parsers';
+import {
+    AI_PROMPTS,
+    IAIProvider,
+    IEvaluationRequest,
+    INextQuestionRequest,
+    IQuestionsRequest,
+    ISummaryRequest
+} from '../Schemas/ai.schema.js';
+import { toEvaluationVariables, toNextQuestionVariables, toQuestionsVariables, toSummaryVariables } from './prompts.js';
+
+/*
+@class OpenAICompatibleProvider
+Description: Runs the AI tasks on any server with an OpenAI compatible chat completions API, e.g. a local Ollama, vLLM or LM Studio.
+Configured with OPENAI_BASE_URL (required, e.g. http://localhost:11434/v1), OPENAI_MODEL (required), OPENAI_API_KEY (only if the server
+needs one) and OPENAI_TIMEOUT_MS (default 60000). The prompts and JSON parsing are the same as for Gemini.
+*/
+export class OpenAICompatibleProvider implements IAIProvider {
+    public readonly name: string;
+    private readonly baseUrl: string;
+    private readonly model: string;
+    private readonly apiKey: string = process.env.OPENAI_API_KEY || '';
+    private readonly timeoutMs: number = parseInt(process.env.OPENAI_TIMEOUT_MS || '60000');
+
+    constructor() {
+        const baseUrl = process.env.OPENAI_BASE_URL;
+        const model = process.env.OPENAI_MODEL;
+        if (!baseUrl || !model) throw new Error("OPENAI_BASE_URL and OPENAI_MODEL must be set");
+
+        this.baseUrl = baseUrl.replace(/\/$/, '');
+        this.model = model;
+        this.name = `openai (${model} at ${this.baseUrl})`;
+    }
+
+    public async generateQuestions(request: IQuestionsRequest): Promise<unknown> {
+        return await this.run(AI_PROMPTS.GENERATE_QUESTIONS_TEMPLATE, toQuestionsVariables(request));
+    }
+
+    public async evaluateAnswer(request: IEvaluationRequest): Promise<unknown> {
+        return await this.run(AI_PROMPTS.EVALUATE_ANSWER_TEMPLATE, toEvaluationVariables(request));
+    }
+
+    public async generateSummary(request: ISummaryRequest): Promise<unknown> {
+        return await this.run(AI_PROMPTS.GENERATE_SUMMARY_TEMPLATE, toSummaryVariables(request));
+    }
+
+    public async generateNextQuestion(request: INextQuestionRequest): Promise<unknown> {
+        return await this.run(AI_PROMPTS.GENERATE_NEXT_QUESTION_TEMPLATE, toNextQuestionVariables(request));
+    }
+
+    // Fills in the prompt, sends it as a single user message and parses the JSON in the reply
+    private async run(template: string, variables: Record<string, unknown>): Promise<unknown> {
+        const prompt: string = await PromptTemplate.fromTemplate(template).format(variables);
+
+        const response = await fetch(`${this.baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+                model: this.model,
+                temperature: 0.3,
+                messages: [{ role: 'user', content: prompt }],
+            }),
+            signal: AbortSignal.timeout(this.timeoutMs),
+        });
+        if (!response.ok) {
+            throw new Error(`Chat completions request failed with ${response.status}: ${(await response.text()).slice(0, 200)}`);
+        }
+
+        const body = await response.json() as { choices?: { message?: { content?: string } }[] };
+        const content: string | undefined = body.choices?.[0]?.message?.content;
+        if (!content) throw new Error("Chat completions response has no message content");
+        return await new JsonOutputParser().parse(content);
+    }
+}
@@ -0,0 +1,44 @@
+import { questionDifficulty } from '../Utils/types.js';
+import { formatRubric } from '../Utils/rubricUtils.js';
+import { IEvaluationRequest, INextQuestionRequest, IQuestionsRequest, ISummaryRequest } from '../Schemas/ai.schema.js';
+
+// Turn the requests of the LLM providers into the input variables of AI_PROMPTS, so every LLM provider gets the same prompts
+
+export const toQuestionsVariables = (request: IQuestionsRequest) => {
+    const required: string[] = Object.values(questionDifficulty)
+        .filter((difficulty) => (request.minimums[difficulty] || 0) > 0)
+        .map((difficulty) => `at least ${request.minimums[difficulty]} must be ${difficulty}`);
+    return {
+        domain: request.domain,
+        num_questions: request.num_questions,
+        difficulty_requirements: required.length > 0 ? `Of these questions, ${required.join(', ')}.` : '',
+        retry_feedback: request.retry_feedback || '',
+    };
+};
+
+export const toEvaluationVariables = (request: IEvaluationRequest) => ({
+    domain: request.domain,
+    question: request.question,
+    answer: request.answer,
+    rubric: formatRubric(request.rubric),
+    retry_feedback: request.retry_feedback || '',
+});
+
+export const toSummaryVariables = (request: ISummaryRequest) => ({
+    domain: request.domain,
+    qa_history: request.transcripts
+        .map((t, i) => `Q${i+1}: ${t.question_text} Answer: ${t.answer_text || "(No answer provided)"} Score: ${t.score}/10`)
+        .join('\n'),
+    retry_feedback: request.retry_feedback || '',
+});
+
+export const toNextQuestionVariables = (request: INextQuestionRequest) => ({
+    domain: request.domain,
+    qa_history: request.transcripts
+        .map((t, i) => `Q${i+1} (${t.difficulty || 'Unknown difficulty'}): ${t.question_text} Answer: ${t.answer_text || "(No answer provided)"} Score: ${t.score}/10${t.feedback ? ` Feedback: ${t.feedback}` : ''}`)
+        .join('\n'),
+    planned_question: request.planned.question_text,
+    planned_difficulty: request.planned.difficulty,
+    follow_up_rule: request.follow_up_allowed ? '' : 'The candidate has had all the follow-ups allowed, so "Follow-up" is not an option now.',
+    retry_feedback: request.retry_feedback || '',
+});
@@ -0,0 +1,42 @@
+import logger from '../Config/logger.config.js';
+import { IAIProvider } from '../Schemas/ai.schema.js';
+import { GeminiProvider } from './gemini.provider.js';
+import { OpenAICompatibleProvider } from './openai.provider.js';
+import { FakeProvider } from './fake.provider.js';
+
+// Providers that can be selected with AI_PROVIDER. Add a new provider here.
+const providers: Record<string, () => IAIProvider> = {
+    gemini: () => new GeminiProvider(),
+    openai: () => new OpenAICompatibleProvider(),
+    fake: () => new FakeProvider(),
+};
+
+let provider: IAIProvider | null | undefined;
+
+/*
+@method getAIProvider
+@description: Returns the AI provider selected by AI_PROVIDER (gemini, openai or fake, default gemini), created on first use.
+Returns null if the provider is unknown or not configured, e.g. gemini without GEMINI_API_KEY. The server then runs without AI
+instead of crashing. Unlike the mail transport there is no fallback, so real candidates are never scored by the fake provider by mistake.
+
+@returns: IAIProvider | null
+*/
+export const getAIProvider = (): IAIProvider | null => {
+    if (provider === undefined) {
+        const name: string = process.env.AI_PROVIDER || 'gemini';
+        try {
+            if (!providers[name]) throw new Error(`Unknown AI_PROVIDER "${name}"`);
+            provider = providers[name]();
+            logger.info(`AI provider: ${provider.name}`);
+        } catch (error: unknown) {
+            provider = null;
+            logger.error(`AI provider "${name}" is not available, AI features are disabled: ${(error as Error).message}`);
+        }
+    }
+    return provider;
+};
+
+// Replaces the provider, e.g. with a fake one in tests
+export const setAIProvider = (aiProvider: IAIProvider | null): void => {
+    provider = aiProvider;
+};
@@ -0,0 +1,65 @@
+import { Request, Response, NextFunction } from 'express';
+import accessLinkService from '../Services/accessLink.service.js';
+import { IAccessLink } from '../../Schemas/accessLink.schema.js';
+
+/*
+@class AccessLinkController
+Descripton: The class provides endpoints for interviewers to revoke, regenerate and rotate the access links of their candidates.
+New link tokens are only in the response of the request that issued them.
+
+Dependencies:
+    - accessLinkService: The service responsible for candidate access links.
+
+Methods:
+    - revoke(req: Request, res: Response, next: NextFunction): Promise<void>
+    - regenerate(req: Request, res: Response, next: NextFunction): Promise<void>
+    - rotate(req: Request, res: Response, next: NextFunction): Promise<void>
+*/
+class AccessLinkController {
+    public async revoke(req: Request, res: Response, next: NextFunction) {
+        try {
+            const interviewId: String = req.params.InterviewId;
+            const candidateId: String = req.params.CandidateId;
+            const interviewerId: String = req.interviewer._id.toString();
+            await accessLinkService.revokeAccessLink(interviewId, candidateId, interviewerId);
+            res.status(200).json({ message: 'Access link revoked successfully' });
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+
+    public async regenerate(req: Request, res: Response, next: NextFunction) {
+        try {
+            const interviewId: String = req.params.InterviewId;
+            const candidateId: String = req.params.CandidateId;
+            const interviewerId: String = req.interviewer._id.toString();
+            const link: IAccessLink = await accessLinkService.regenerateAccessLink(interviewId, candidateId, interviewerId);
+            res.status(200).json(link);
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+
+    // Responds with an excel file of the new links when format=xlsx, JSON otherwise
+    public async rotate(req: Request, res: Response, next: NextFunction) {
+        try {
+            const interviewId: String = req.params.InterviewId;
+            const interviewerId: String = req.interviewer._id.toString();
+            const links: IAccessLink[] = await accessLinkService.rotateAccessLinks(interviewId, interviewerId);
+
+            if (req.query.format === 'xlsx') {
+                const result: Buffer = await accessLinkService.generateAccessLinkExcel(links);
+                res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+                res.setHeader('Content-Disposition', 'attachment; filename=candidate_links.xlsx');
+                res.status(200).send(result);
+                return;
+            }
+            res.status(200).json(links);
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+}
+
+const accessLinkController = new AccessLinkController();
+export default accessLinkController;
@@ -0,0 +1,99 @@
+import { Request, Response, NextFunction } from 'express';
+import candidateService from '../Services/candidate.service.js';
+import { CandidateAuthRequest } from '../../Utils/types.js';
+import {
+    ICandidateQuestion,
+    ICandidateResumeState,
+    ICandidateSessionState,
+    ISaveDraft,
+    ISaveDraftResult,
+    ISubmitAnswer,
+    ISubmitAnswerResult
+} from '../../Schemas/candidate.schema.js';
+
+/*
+@class CandidateController
+Descripton: The class provides the endpoints used by a candidate to take an interview. All the routes are authenticated by authenticateCandidate middleware,
+which attaches the candidate and interview documents to the request.
+
+Dependencies:
+    - candidateService: The service responsible for session state, starting the interview and handling answers.
+    - CandidateAuthRequest: Request type with candidate and interview attached.
+
+Methods:
+    - getSession(req: Request, res: Response, next: NextFunction): Promise<void>
+    - start(req: Request, res: Response, next: NextFunction): Promise<void>
+    - getCurrentQuestion(req: Request, res: Response, next: NextFunction): Promise<void>
+    - submitAnswer(req: Request, res: Response, next: NextFunction): Promise<void>
+    - saveDraft(req: Request, res: Response, next: NextFunction): Promise<void>
+    - resume(req: Request, res: Response, next: NextFunction): Promise<void>
+*/
+class CandidateController {
+    public async getSession(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { candidate, interview } = req as CandidateAuthRequest;
+            const session: ICandidateSessionState = await candidateService.getSessionState(candidate, interview);
+            res.status(200).json(session);
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+
+    public async start(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { candidate, interview } = req as CandidateAuthRequest;
+            const question: ICandidateQuestion = await candidateService.startInterview(candidate, interview);
+            res.status(201).json(question);
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+
+    public async getCurrentQuestion(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { candidate, interview } = req as CandidateAuthRequest;
+            const question: ICandidateQuestion = await candidateService.getCurrentQuestion(candidate, interview);
+            res.status(200).json(question);
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+
+    public async submitAnswer(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { candidate, interview } = req as CandidateAuthRequest;
+            const payload: ISubmitAnswer = req.body;
+            const result: ISubmitAnswerResult = await candidateService.submitAnswer(candidate, interview, payload);
+            res.status(200).json(result);
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+
+    public async saveDraft(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { candidate, interview } = req as CandidateAuthRequest;
+            const payload: ISaveDraft = req.body;
+            const result: ISaveDraftResult = await candidateService.saveDraft(candidate, interview, payload);
+            res.status(200).json(result);
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+
+    public async resume(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { candidate, interview } = req as CandidateAuthRequest;
+            const result: ICandidateResumeState = await candidateService.resumeSession(candidate, interview, 'rest', {
+                ip: req.ip,
+                user_agent: req.get('user-agent'),
+            });
+            res.status(200).json(result);
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+}
+
+const candidateController = new CandidateController();
+export default candidateController;
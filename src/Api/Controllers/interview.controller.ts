@@ -1,7 +1,7 @@
 import mongoose, { Schema, Types } from "mongoose";
 import interviewService from "../Services/interview.service.js";
 import { Request, Response, NextFunction } from "express";
-import { IGetCandidateTranscript } from "../../Schemas/interview.schema.js";
+import { ICreateInterviewResult, IGetCandidateTranscript, IUpdateInterview, IListInterviews, IListInterviewsQuery, listInterviewsSchema, IGetInterviewQuery, getInterviewSchema, ICloneInterview, ICancelInterview, IDeleteInterviewResult } from "../../Schemas/interview.schema.js";
 
 
 class InterviewController{
@@ -9,8 +9,8 @@ class InterviewController{
         try{
             const payload = req.body;
             const interviewerId: Schema.Types.ObjectId = req.interviewer._id;
-            const interview = await interviewService.createInterviewService(payload, interviewerId);
-            res.status(201).json(interview);
+            const result: ICreateInterviewResult = await interviewService.createInterviewService(payload, interviewerId);
+            res.status(201).json(result);
         }catch( error: unknown ) {
             next(error);
         }
@@ -19,7 +19,9 @@ class InterviewController{
     public async getAll(req: Request, res: Response, next: NextFunction) {
         try{
             const interviewerId: Schema.Types.ObjectId = req.interviewer._id;
-            const interviews = await interviewService.getAllInterviwsService(interviewerId);
+            // validateRequest only checks the query, parse it again here for the defaults and coerced values
+            const query: IListInterviewsQuery = listInterviewsSchema.shape.query.parse(req.query);
+            const interviews: IListInterviews = await interviewService.getAllInterviwsService(interviewerId, query);
             res.status(200).json(interviews);
         }catch( error: unknown ) {
             next(error);
@@ -29,7 +31,8 @@ class InterviewController{
     public async get(req: Request, res: Response, next: NextFunction) {
         try{
             const InterviewId: mongoose.Types.ObjectId = new Types.ObjectId(req.params.InterviewId);
-            const interview = await interviewService.getInterviewService(InterviewId);
+            const query: IGetInterviewQuery = getInterviewSchema.shape.query.parse(req.query);
+            const interview = await interviewService.getInterviewService(InterviewId, query);
             res.status(200).json(interview);
         }catch( error: unknown ) {
             next(error);
@@ -48,12 +51,70 @@ class InterviewController{
         }
     }
 
+    public async update(req: Request, res: Response, next: NextFunction) {
+        try{
+            const InterviewId: String = req.params.InterviewId;
+            const interviewerId: String = req.interviewer._id.toString();
+            const payload: IUpdateInterview = req.body;
+            const interview = await interviewService.updateInterviewService(InterviewId, payload, interviewerId);
+            res.status(200).json(interview);
+        }catch( error: unknown ) {
+            next(error);
+        }
+    }
+
+    public async clone(req: Request, res: Response, next: NextFunction) {
+        try{
+            const InterviewId: String = req.params.InterviewId;
+            const interviewerId: String = req.interviewer._id.toString();
+            const payload: ICloneInterview = req.body;
+            const result: ICreateInterviewResult = await interviewService.cloneInterview(InterviewId, payload, interviewerId);
+            res.status(201).json(result);
+        }catch( error: unknown ) {
+            next(error);
+        }
+    }
+
+    public async cancel(req: Request, res: Response, next: NextFunction) {
+        try{
+            const InterviewId: String = req.params.InterviewId;
+            const interviewerId: String = req.interviewer._id.toString();
+            const payload: ICancelInterview = req.body;
+            const interview = await interviewService.cancelInterview(InterviewId, payload, interviewerId);
+            res.status(200).json(interview);
+        }catch( error: unknown ) {
+            next(error);
+        }
+    }
+
     public async delete(req: Request, res: Response, next: NextFunction) {
         try{
             const InterviewId: String = req.params.InterviewId;
             const interviewerId: String = req.interviewer._id.toString();
-            await interviewService.deleteInterview(InterviewId, interviewerId);
-            res.status(200).json({ message: 'Interview deleted successfully' });
+            const result: IDeleteInterviewResult = await interviewService.deleteInterview(InterviewId, interviewerId);
+            res.status(200).json({ message: 'Interview deleted successfully. It can be restored until it is purged.', purge_at: result.purge_at });
+        }catch( error: unknown ) {
+            next(error);
+        }
+    }
+
+    public async archive(req: Request, res: Response, next: NextFunction) {
+        try{
+            const InterviewId: String = req.params.InterviewId;
+            const interviewerId: String = req.interviewer._id.toString();
+            const interview = await interviewService.archiveInterview(InterviewId, interviewerId);
+            res.status(200).json(interview);
+        }catch( error: unknown ) {
+            next(error);
+        }
+    }
+
+    public async restore(req: Request, res: Response, next: NextFunction) {
+        try{
+            const InterviewId: String = req.params.InterviewId;
+            const interviewerId: String = req.interviewer._id.toString();
+            const interview = await interviewService.restoreInterview(InterviewId, interviewerId);
+            res.status(200).json(interview);
         }catch( error: unknown ) {
             next(error);
         }
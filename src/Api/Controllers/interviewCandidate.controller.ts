@@ -0,0 +1,79 @@
+import { Request, Response, NextFunction } from 'express';
+import interviewCandidateService from '../Services/interviewCandidate.service.js';
+import { Candidate } from '../../Models/Candidate.model.js';
+import { addCandidatesSchema, IAddCandidates, IAddCandidatesResult, IImportCandidatesResult, IUpdateCandidate, updateCandidateSchema } from '../../Schemas/interviewCandidate.schema.js';
+import { getSpreadsheetFormat } from '../../Utils/spreadsheetUtils.js';
+import { BadRequestError } from '../../Utils/ErrorClass.js';
+
+/*
+@class InterviewCandidateController
+Descripton: The class provides endpoints for interviewers to add, import, update and remove the candidates of an existing interview.
+The import endpoint receives the raw .xlsx or .csv file as the request body (parsed by express.raw in the route).
+JSON bodies are parsed again with their schema, since validateRequest only validates them, so slot_start_time reaches the service as a Date.
+
+Dependencies:
+    - interviewCandidateService: The service responsible for managing the candidates of an interview.
+
+Methods:
+    - add(req: Request, res: Response, next: NextFunction): Promise<void>
+    - import(req: Request, res: Response, next: NextFunction): Promise<void>
+    - update(req: Request, res: Response, next: NextFunction): Promise<void>
+    - remove(req: Request, res: Response, next: NextFunction): Promise<void>
+*/
+class InterviewCandidateController {
+    public async add(req: Request, res: Response, next: NextFunction) {
+        try {
+            const interviewId: String = req.params.InterviewId;
+            const interviewerId: String = req.interviewer._id.toString();
+            const payload: IAddCandidates = addCandidatesSchema.shape.body.parse(req.body);
+            const result: IAddCandidatesResult = await interviewCandidateService.addCandidates(interviewId, payload, interviewerId);
+            res.status(201).json(result);
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+
+    public async import(req: Request, res: Response, next: NextFunction) {
+        try {
+            const interviewId: String = req.params.InterviewId;
+            const interviewerId: String = req.interviewer._id.toString();
+            const format = getSpreadsheetFormat(req.headers['content-type']);
+            if (!format) throw new BadRequestError("Upload an .xlsx or .csv file with a matching Content-Type");
+            if (!Buffer.isBuffer(req.body) || req.body.length === 0) throw new BadRequestError("The uploaded file is empty");
+
+            const dryRun: boolean = req.query.dry_run === 'true';
+            const result: IImportCandidatesResult = await interviewCandidateService.importCandidates(interviewId, req.body, format, dryRun, interviewerId);
+            res.status(dryRun ? 200 : 201).json(result);
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+
+    public async update(req: Request, res: Response, next: NextFunction) {
+        try {
+            const interviewId: String = req.params.InterviewId;
+            const candidateId: String = req.params.CandidateId;
+            const interviewerId: String = req.interviewer._id.toString();
+            const payload: IUpdateCandidate = updateCandidateSchema.shape.body.parse(req.body);
+            const candidate: Candidate = await interviewCandidateService.updateCandidate(interviewId, candidateId, payload, interviewerId);
+            res.status(200).json(candidate);
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+
+    public async remove(req: Request, res: Response, next: NextFunction) {
+        try {
+            const interviewId: String = req.params.InterviewId;
+            const candidateId: String = req.params.CandidateId;
+            const interviewerId: String = req.interviewer._id.toString();
+            await interviewCandidateService.removeCandidate(interviewId, candidateId, interviewerId);
+            res.status(200).json({ message: 'Candidate removed successfully' });
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+}
+
+const interviewCandidateController = new InterviewCandidateController();
+export default interviewCandidateController;
@@ -0,0 +1,93 @@
+import { Request, Response, NextFunction } from 'express';
+import interviewTemplateService from '../Services/interviewTemplate.service.js';
+import { InterviewTemplate } from '../../Models/InterviewTemplate.model.js';
+import { createTemplateSchema, ICreateTemplate, IUpdateTemplate, ICreateFromTemplate } from '../../Schemas/template.schema.js';
+import { ICreateInterviewResult } from '../../Schemas/interview.schema.js';
+
+/*
+@class InterviewTemplateController
+Descripton: The class provides endpoints for interviewers to manage their interview templates, and to create an interview from one.
+
+Dependencies:
+    - interviewTemplateService: The service responsible for interview templates.
+
+Methods:
+    - create(req: Request, res: Response, next: NextFunction): Promise<void>
+    - list(req: Request, res: Response, next: NextFunction): Promise<void>
+    - get(req: Request, res: Response, next: NextFunction): Promise<void>
+    - update(req: Request, res: Response, next: NextFunction): Promise<void>
+    - delete(req: Request, res: Response, next: NextFunction): Promise<void>
+    - createInterview(req: Request, res: Response, next: NextFunction): Promise<void>
+*/
+class InterviewTemplateController {
+    public async create(req: Request, res: Response, next: NextFunction) {
+        try {
+            const interviewerId: String = req.interviewer._id.toString();
+            // Parsed again, since validateRequest doesn't strip unknown fields
+            const payload: ICreateTemplate = createTemplateSchema.shape.body.parse(req.body);
+            const template: InterviewTemplate = await interviewTemplateService.createTemplate(payload, interviewerId);
+            res.status(201).json(template);
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+
+    public async list(req: Request, res: Response, next: NextFunction) {
+        try {
+            const interviewerId: String = req.interviewer._id.toString();
+            const templates: InterviewTemplate[] = await interviewTemplateService.listTemplates(interviewerId);
+            res.status(200).json(templates);
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+
+    public async get(req: Request, res: Response, next: NextFunction) {
+        try {
+            const templateId: String = req.params.TemplateId;
+            const interviewerId: String = req.interviewer._id.toString();
+            const template: InterviewTemplate = await interviewTemplateService.getTemplate(templateId, interviewerId);
+            res.status(200).json(template);
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+
+    public async update(req: Request, res: Response, next: NextFunction) {
+        try {
+            const templateId: String = req.params.TemplateId;
+            const interviewerId: String = req.interviewer._id.toString();
+            const payload: IUpdateTemplate = req.body;
+            const template: InterviewTemplate = await interviewTemplateService.updateTemplate(templateId, payload, interviewerId);
+            res.status(200).json(template);
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+
+    public async delete(req: Request, res: Response, next: NextFunction) {
+        try {
+            const templateId: String = req.params.TemplateId;
+            const interviewerId: String = req.interviewer._id.toString();
+            await interviewTemplateService.deleteTemplate(templateId, interviewerId);
+            res.status(200).json({ message: 'Template deleted successfully' });
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+
+    public async createInterview(req: Request, res: Response, next: NextFunction) {
+        try {
+            const templateId: String = req.params.TemplateId;
+            const interviewerId: String = req.interviewer._id.toString();
+            const payload: ICreateFromTemplate = req.body;
+            const result: ICreateInterviewResult = await interviewTemplateService.createInterviewFromTemplate(templateId, payload, interviewerId);
+            res.status(201).json(result);
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+}
+
+const interviewTemplateController = new InterviewTemplateController();
+export default interviewTemplateController;
@@ -0,0 +1,56 @@
+import { Request, Response, NextFunction } from 'express';
+import jobService from '../Services/job.service.js';
+import { Job } from '../../Models/Job.model.js';
+import { jobStatus } from '../../Utils/types.js';
+
+/*
+@class JobController
+Descripton: The class provides endpoints for interviewers to inspect and retry the background scoring jobs of their interviews.
+
+Dependencies:
+    - jobService: The service responsible for listing and retrying scoring jobs.
+
+Methods:
+    - listScoringJobs(req: Request, res: Response, next: NextFunction): Promise<void>
+    - retryScoringJob(req: Request, res: Response, next: NextFunction): Promise<void>
+    - retryAllScoringJobs(req: Request, res: Response, next: NextFunction): Promise<void>
+*/
+class JobController {
+    public async listScoringJobs(req: Request, res: Response, next: NextFunction) {
+        try {
+            const interviewId: String = req.params.InterviewId;
+            const interviewerId: String = req.interviewer._id.toString();
+            const status = req.query.status as jobStatus | undefined;
+            const jobs: Job[] = await jobService.listScoringJobs(interviewId, interviewerId, status);
+            res.status(200).json(jobs);
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+
+    public async retryScoringJob(req: Request, res: Response, next: NextFunction) {
+        try {
+            const interviewId: String = req.params.InterviewId;
+            const jobId: String = req.params.JobId;
+            const interviewerId: String = req.interviewer._id.toString();
+            const job: Job = await jobService.retryScoringJob(interviewId, jobId, interviewerId);
+            res.status(200).json(job);
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+
+    public async retryAllScoringJobs(req: Request, res: Response, next: NextFunction) {
+        try {
+            const interviewId: String = req.params.InterviewId;
+            const interviewerId: String = req.interviewer._id.toString();
+            const retried: number = await jobService.retryAllScoringJobs(interviewId, interviewerId);
+            res.status(200).json({ retried, message: `${retried} scoring job(s) queued for retry` });
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+}
+
+const jobController = new JobController();
+export default jobController;
@@ -0,0 +1,43 @@
+import { Request, Response, NextFunction } from 'express';
+import notificationService from '../Services/notification.service.js';
+import { INotificationSummary } from '../../Schemas/notification.schema.js';
+
+/*
+@class NotificationController
+Descripton: The class provides endpoints for interviewers to send invitations to the candidates of an interview.
+Each invitation carries a new access link, delivered by a background job.
+
+Dependencies:
+    - notificationService: The service responsible for queueing notifications.
+
+Methods:
+    - sendInvitations(req: Request, res: Response, next: NextFunction): Promise<void>
+    - sendCandidateInvitation(req: Request, res: Response, next: NextFunction): Promise<void>
+*/
+class NotificationController {
+    public async sendInvitations(req: Request, res: Response, next: NextFunction) {
+        try {
+            const interviewId: String = req.params.InterviewId;
+            const interviewerId: String = req.interviewer._id.toString();
+            const queued: number = await notificationService.sendInvitations(interviewId, interviewerId);
+            res.status(202).json({ queued, message: `${queued} invitation(s) queued` });
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+
+    public async sendCandidateInvitation(req: Request, res: Response, next: NextFunction) {
+        try {
+            const interviewId: String = req.params.InterviewId;
+            const candidateId: String = req.params.CandidateId;
+            const interviewerId: String = req.interviewer._id.toString();
+            const invitation: INotificationSummary = await notificationService.sendCandidateInvitation(interviewId, candidateId, interviewerId);
+            res.status(202).json(invitation);
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+}
+
+const notificationController = new NotificationController();
+export default notificationController;
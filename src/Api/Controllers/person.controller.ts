@@ -0,0 +1,41 @@
+import { Request, Response, NextFunction } from 'express';
+import personService from '../Services/person.service.js';
+import { IPersonDetails, IPersonSummary } from '../../Schemas/person.schema.js';
+
+/*
+@class PersonController
+Descripton: The class provides endpoints for interviewers to see the persons invited to their interviews, and all the interviews of a person.
+
+Dependencies:
+    - personService: The service responsible for person records.
+
+Methods:
+    - list(req: Request, res: Response, next: NextFunction): Promise<void>
+    - get(req: Request, res: Response, next: NextFunction): Promise<void>
+*/
+class PersonController {
+    public async list(req: Request, res: Response, next: NextFunction) {
+        try {
+            const interviewerId: String = req.interviewer._id.toString();
+            const email = req.query.email as string | undefined;
+            const persons: IPersonSummary[] = await personService.listPersons(interviewerId, email);
+            res.status(200).json(persons);
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+
+    public async get(req: Request, res: Response, next: NextFunction) {
+        try {
+            const personId: String = req.params.PersonId;
+            const interviewerId: String = req.interviewer._id.toString();
+            const person: IPersonDetails = await personService.getPerson(personId, interviewerId);
+            res.status(200).json(person);
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+}
+
+const personController = new PersonController();
+export default personController;
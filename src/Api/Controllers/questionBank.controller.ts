@@ -0,0 +1,88 @@
+import { Request, Response, NextFunction } from 'express';
+import questionBankService from '../Services/questionBank.service.js';
+import { BankQuestion } from '../../Models/BankQuestion.model.js';
+import {
+    createBankQuestionSchema,
+    ICreateBankQuestion,
+    IListBankQuestions,
+    IListBankQuestionsQuery,
+    IUpdateBankQuestion,
+    listBankQuestionsSchema
+} from '../../Schemas/questionBank.schema.js';
+
+/*
+@class QuestionBankController
+Descripton: The class provides endpoints for interviewers to manage and search their question bank.
+
+Dependencies:
+    - questionBankService: The service responsible for the question bank.
+
+Methods:
+    - create(req: Request, res: Response, next: NextFunction): Promise<void>
+    - list(req: Request, res: Response, next: NextFunction): Promise<void>
+    - get(req: Request, res: Response, next: NextFunction): Promise<void>
+    - update(req: Request, res: Response, next: NextFunction): Promise<void>
+    - delete(req: Request, res: Response, next: NextFunction): Promise<void>
+*/
+class QuestionBankController {
+    public async create(req: Request, res: Response, next: NextFunction) {
+        try {
+            const interviewerId: String = req.interviewer._id.toString();
+            // Parsed again, since validateRequest doesn't strip unknown fields
+            const payload: ICreateBankQuestion = createBankQuestionSchema.shape.body.parse(req.body);
+            const question: BankQuestion = await questionBankService.createQuestion(payload, interviewerId);
+            res.status(201).json(question);
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+
+    public async list(req: Request, res: Response, next: NextFunction) {
+        try {
+            const interviewerId: String = req.interviewer._id.toString();
+            // validateRequest only checks the query, parse it again here for the defaults and coerced values
+            const query: IListBankQuestionsQuery = listBankQuestionsSchema.shape.query.parse(req.query);
+            const questions: IListBankQuestions = await questionBankService.listQuestions(interviewerId, query);
+            res.status(200).json(questions);
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+
+    public async get(req: Request, res: Response, next: NextFunction) {
+        try {
+            const questionId: String = req.params.QuestionId;
+            const interviewerId: String = req.interviewer._id.toString();
+            const question: BankQuestion = await questionBankService.getQuestion(questionId, interviewerId);
+            res.status(200).json(question);
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+
+    public async update(req: Request, res: Response, next: NextFunction) {
+        try {
+            const questionId: String = req.params.QuestionId;
+            const interviewerId: String = req.interviewer._id.toString();
+            const payload: IUpdateBankQuestion = req.body;
+            const question: BankQuestion = await questionBankService.updateQuestion(questionId, payload, interviewerId);
+            res.status(200).json(question);
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+
+    public async delete(req: Request, res: Response, next: NextFunction) {
+        try {
+            const questionId: String = req.params.QuestionId;
+            const interviewerId: String = req.interviewer._id.toString();
+            await questionBankService.deleteQuestion(questionId, interviewerId);
+            res.status(200).json({ message: 'Question deleted successfully' });
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+}
+
+const questionBankController = new QuestionBankController();
+export default questionBankController;
@@ -0,0 +1,68 @@
+import { Request, Response, NextFunction } from 'express';
+import questionSetService from '../Services/questionSet.service.js';
+import { IQuestionSet, IUpdateQuestionSet } from '../../Schemas/questionSet.schema.js';
+
+/*
+@class QuestionSetController
+Descripton: The class provides endpoints for interviewers to review the shared question set of an interview:
+see it, edit or reorder it, regenerate single questions and approve it.
+
+Dependencies:
+    - questionSetService: The service responsible for shared question sets.
+
+Methods:
+    - get(req: Request, res: Response, next: NextFunction): Promise<void>
+    - update(req: Request, res: Response, next: NextFunction): Promise<void>
+    - regenerate(req: Request, res: Response, next: NextFunction): Promise<void>
+    - approve(req: Request, res: Response, next: NextFunction): Promise<void>
+*/
+class QuestionSetController {
+    public async get(req: Request, res: Response, next: NextFunction) {
+        try {
+            const interviewId: String = req.params.InterviewId;
+            const interviewerId: String = req.interviewer._id.toString();
+            const questionSet: IQuestionSet = await questionSetService.getQuestionSet(interviewId, interviewerId);
+            res.status(200).json(questionSet);
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+
+    public async update(req: Request, res: Response, next: NextFunction) {
+        try {
+            const interviewId: String = req.params.InterviewId;
+            const interviewerId: String = req.interviewer._id.toString();
+            const payload: IUpdateQuestionSet = req.body;
+            const questionSet: IQuestionSet = await questionSetService.updateQuestionSet(interviewId, payload, interviewerId);
+            res.status(200).json(questionSet);
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+
+    public async regenerate(req: Request, res: Response, next: NextFunction) {
+        try {
+            const interviewId: String = req.params.InterviewId;
+            const questionOrder: number = Number(req.params.QuestionOrder);
+            const interviewerId: String = req.interviewer._id.toString();
+            const questionSet: IQuestionSet = await questionSetService.regenerateQuestion(interviewId, questionOrder, interviewerId);
+            res.status(200).json(questionSet);
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+
+    public async approve(req: Request, res: Response, next: NextFunction) {
+        try {
+            const interviewId: String = req.params.InterviewId;
+            const interviewerId: String = req.interviewer._id.toString();
+            const questionSet: IQuestionSet = await questionSetService.approveQuestionSet(interviewId, interviewerId);
+            res.status(200).json(questionSet);
+        } catch (error: unknown) {
+            next(error);
+        }
+    }
+}
+
+const questionSetController = new QuestionSetController();
+export default questionSetController;
@@ -0,0 +1,17 @@
+import express from 'express';
+import { AnyZodObject } from 'zod/v3';
+import candidateController from '../Controllers/candidate.controller.js';
+import { validateRequest } from '../../Middlewares/auth.middleware.js';
+import { authenticateCandidate } from '../../Middlewares/candidate.middleware.js';
+import { saveDraftSchema, submitAnswerSchema } from '../../Schemas/candidate.schema.js';
+
+const router = express.Router();
+
+router.get('/:access_link_token', authenticateCandidate, candidateController.getSession);
+router.post('/:access_link_token/start', authenticateCandidate, candidateController.start);
+router.get('/:access_link_token/question', authenticateCandidate, candidateController.getCurrentQuestion);
+router.post('/:access_link_token/resume', authenticateCandidate, candidateController.resume);
+router.put('/:access_link_token/draft', validateRequest(saveDraftSchema as unknown as AnyZodObject), authenticateCandidate, candidateController.saveDraft);
+router.post('/:access_link_token/answer', validateRequest(submitAnswerSchema as unknown as AnyZodObject), authenticateCandidate, candidateController.submitAnswer);
+
+export default router;
@@ -1,18 +1,56 @@
 import express from 'express';
 import { AnyZodObject } from 'zod/v3';
 import interviewController from '../Controllers/interview.controller.js';
+import jobController from '../Controllers/job.controller.js';
+import interviewCandidateController from '../Controllers/interviewCandidate.controller.js';
+import accessLinkController from '../Controllers/accessLink.controller.js';
+import notificationController from '../Controllers/notification.controller.js';
+import interviewTemplateController from '../Controllers/interviewTemplate.controller.js';
+import questionSetController from '../Controllers/questionSet.controller.js';
 import { validateRequest } from '../../Middlewares/auth.middleware.js';
-import { createInterviewSchema } from '../../Schemas/interview.schema.js';
+import { createInterviewSchema, updateInterviewSchema, listInterviewsSchema, getInterviewSchema, cloneInterviewSchema, cancelInterviewSchema } from '../../Schemas/interview.schema.js';
+import { createFromTemplateSchema } from '../../Schemas/template.schema.js';
+import { questionSetSchema, updateQuestionSetSchema, regenerateQuestionSchema } from '../../Schemas/questionSet.schema.js';
+import { addCandidatesSchema, updateCandidateSchema, removeCandidateSchema, importCandidatesSchema } from '../../Schemas/interviewCandidate.schema.js';
+import { candidateAccessLinkSchema, rotateAccessLinksSchema } from '../../Schemas/accessLink.schema.js';
+import { sendInvitationsSchema, sendCandidateInvitationSchema } from '../../Schemas/notification.schema.js';
+import { spreadsheetContentTypes } from '../../Utils/spreadsheetUtils.js';
+import { listScoringJobsSchema, retryScoringJobSchema } from '../../Schemas/job.schema.js';
 import { authenticate } from '../../Middlewares/auth.middleware.js';
 
 const router = express.Router();
 
+// Candidate sheets are uploaded as the raw request body
+const spreadsheetUpload = express.raw({ type: spreadsheetContentTypes, limit: process.env.IMPORT_MAX_FILE_SIZE || '5mb' });
+
 router.post('/', authenticate, validateRequest(createInterviewSchema as unknown as AnyZodObject), interviewController.create);
-router.get("/", authenticate, interviewController.getAll);
-router.get("/:InterviewId", authenticate, interviewController.get);
+router.get("/", authenticate, validateRequest(listInterviewsSchema as unknown as AnyZodObject), interviewController.getAll);
+router.post("/from-template/:TemplateId", authenticate, validateRequest(createFromTemplateSchema as unknown as AnyZodObject), interviewTemplateController.createInterview);
+router.get("/:InterviewId", authenticate, validateRequest(getInterviewSchema as unknown as AnyZodObject), interviewController.get);
+router.patch("/:InterviewId", authenticate, validateRequest(updateInterviewSchema as unknown as AnyZodObject), interviewController.update);
 router.delete("/:InterviewId", authenticate, interviewController.delete);
+router.post("/:InterviewId/cancel", authenticate, validateRequest(cancelInterviewSchema as unknown as AnyZodObject), interviewController.cancel);
+router.post("/:InterviewId/archive", authenticate, interviewController.archive);
+router.post("/:InterviewId/restore", authenticate, interviewController.restore);
+router.post("/:InterviewId/clone", authenticate, validateRequest(cloneInterviewSchema as unknown as AnyZodObject), interviewController.clone);
+router.get("/:InterviewId/questions", authenticate, validateRequest(questionSetSchema as unknown as AnyZodObject), questionSetController.get);
+router.put("/:InterviewId/questions", authenticate, validateRequest(updateQuestionSetSchema as unknown as AnyZodObject), questionSetController.update);
+router.post("/:InterviewId/questions/approve", authenticate, validateRequest(questionSetSchema as unknown as AnyZodObject), questionSetController.approve);
+router.post("/:InterviewId/questions/:QuestionOrder/regenerate", authenticate, validateRequest(regenerateQuestionSchema as unknown as AnyZodObject), questionSetController.regenerate);
 router.get("/:InterviewId/tokenExcel", authenticate, interviewController.candidateTokenExcelDownload);
 router.get("/:InterviewId/resultExcel", authenticate, interviewController.interviewResultExcelDownload);
+router.get("/:InterviewId/scoring-jobs", authenticate, validateRequest(listScoringJobsSchema as unknown as AnyZodObject), jobController.listScoringJobs);
+router.post("/:InterviewId/scoring-jobs/retry", authenticate, jobController.retryAllScoringJobs);
+router.post("/:InterviewId/scoring-jobs/:JobId/retry", authenticate, validateRequest(retryScoringJobSchema as unknown as AnyZodObject), jobController.retryScoringJob);
+router.post("/:InterviewId/candidates", authenticate, validateRequest(addCandidatesSchema as unknown as AnyZodObject), interviewCandidateController.add);
+router.post("/:InterviewId/candidates/import", authenticate, spreadsheetUpload, validateRequest(importCandidatesSchema as unknown as AnyZodObject), interviewCandidateController.import);
+router.patch("/:InterviewId/candidates/:CandidateId", authenticate, validateRequest(updateCandidateSchema as unknown as AnyZodObject), interviewCandidateController.update);
+router.delete("/:InterviewId/candidates/:CandidateId", authenticate, validateRequest(removeCandidateSchema as unknown as AnyZodObject), interviewCandidateController.remove);
+router.post("/:InterviewId/candidates/:CandidateId/access-link/revoke", authenticate, validateRequest(candidateAccessLinkSchema as unknown as AnyZodObject), accessLinkController.revoke);
+router.post("/:InterviewId/candidates/:CandidateId/access-link/regenerate", authenticate, validateRequest(candidateAccessLinkSchema as unknown as AnyZodObject), accessLinkController.regenerate);
+router.post("/:InterviewId/access-links/rotate", authenticate, validateRequest(rotateAccessLinksSchema as unknown as AnyZodObject), accessLinkController.rotate);
+router.post("/:InterviewId/invitations", authenticate, validateRequest(sendInvitationsSchema as unknown as AnyZodObject), notificationController.sendInvitations);
+router.post("/:InterviewId/candidates/:CandidateId/invitation", authenticate, validateRequest(sendCandidateInvitationSchema as unknown as AnyZodObject), notificationController.sendCandidateInvitation);
 router.get("/:InterviewId/:CandidateId", authenticate, interviewController.getCandidateTranscript);
 
 
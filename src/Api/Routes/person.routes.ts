@@ -0,0 +1,12 @@
+import express from 'express';
+import { AnyZodObject } from 'zod/v3';
+import personController from '../Controllers/person.controller.js';
+import { authenticate, validateRequest } from '../../Middlewares/auth.middleware.js';
+import { listPersonsSchema, getPersonSchema } from '../../Schemas/person.schema.js';
+
+const router = express.Router();
+
+router.get("/", authenticate, validateRequest(listPersonsSchema as unknown as AnyZodObject), personController.list);
+router.get("/:PersonId", authenticate, validateRequest(getPersonSchema as unknown as AnyZodObject), personController.get);
+
+export default router;
@@ -0,0 +1,20 @@
+import express from 'express';
+import { AnyZodObject } from 'zod/v3';
+import questionBankController from '../Controllers/questionBank.controller.js';
+import { authenticate, validateRequest } from '../../Middlewares/auth.middleware.js';
+import {
+    createBankQuestionSchema,
+    updateBankQuestionSchema,
+    bankQuestionIdSchema,
+    listBankQuestionsSchema
+} from '../../Schemas/questionBank.schema.js';
+
+const router = express.Router();
+
+router.post("/", authenticate, validateRequest(createBankQuestionSchema as unknown as AnyZodObject), questionBankController.create);
+router.get("/", authenticate, validateRequest(listBankQuestionsSchema as unknown as AnyZodObject), questionBankController.list);
+router.get("/:QuestionId", authenticate, validateRequest(bankQuestionIdSchema as unknown as AnyZodObject), questionBankController.get);
+router.patch("/:QuestionId", authenticate, validateRequest(updateBankQuestionSchema as unknown as AnyZodObject), questionBankController.update);
+router.delete("/:QuestionId", authenticate, validateRequest(bankQuestionIdSchema as unknown as AnyZodObject), questionBankController.delete);
+
+export default router;
@@ -0,0 +1,15 @@
+import express from 'express';
+import { AnyZodObject } from 'zod/v3';
+import interviewTemplateController from '../Controllers/interviewTemplate.controller.js';
+import { authenticate, validateRequest } from '../../Middlewares/auth.middleware.js';
+import { createTemplateSchema, updateTemplateSchema, templateIdSchema } from '../../Schemas/template.schema.js';
+
+const router = express.Router();
+
+router.post("/", authenticate, validateRequest(createTemplateSchema as unknown as AnyZodObject), interviewTemplateController.create);
+router.get("/", authenticate, interviewTemplateController.list);
+router.get("/:TemplateId", authenticate, validateRequest(templateIdSchema as unknown as AnyZodObject), interviewTemplateController.get);
+router.patch("/:TemplateId", authenticate, validateRequest(updateTemplateSchema as unknown as AnyZodObject), interviewTemplateController.update);
+router.delete("/:TemplateId", authenticate, validateRequest(templateIdSchema as unknown as AnyZodObject), interviewTemplateController.delete);
+
+export default router;
@@ -0,0 +1,204 @@
+import mongoose, { Types } from 'mongoose';
+import ExcelJS from 'exceljs';
+import { InterviewModel, Interview } from '../../Models/Interview.model.js';
+import { CandidateModel, Candidate } from '../../Models/Candidate.model.js';
+import { interviewStatus } from '../../Utils/types.js';
+import { generateAccessLink, getAccessLinkExpiry } from '../../Utils/accessLinkUtils.js';
+import { IAccessLink } from '../../Schemas/accessLink.schema.js';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../../Utils/ErrorClass.js';
+import eventBus from '../../Events/eventBus.js';
+import interviewLifecycleService from './interviewLifecycle.service.js';
+
+/*
+@class AccessLinkService
+Description: This class lets an interviewer manage the access links of the candidates of an interview. Links are stored as hashes,
+so a lost link can't be looked up again, it can only be replaced by a new one:
+    - revoke: the link stops working, with a distinct "revoked" error for the candidate.
+    - regenerate: the candidate gets a new link and the old one stops working.
+    - rotate: every candidate who can still take the interview gets a new link.
+Revoked and replaced links are published as 'candidate:access_revoked', which disconnects the candidate's open WebSocket connections.
+
+Dependencies:
+    - DB models: Mongoose models for interviews and candidates.
+    - accessLinkUtils: Token generation, hashing and expiry.
+    - exceljs: To export issued links.
+    - eventBus: To publish 'candidate:access_revoked'.
+
+Methods:
+    - revokeAccessLink(interviewId: String, candidateId: String, interviewerId: String): Promise<void>
+    - regenerateAccessLink(interviewId: String, candidateId: String, interviewerId: String): Promise<IAccessLink>
+    - rotateAccessLinks(interviewId: String, interviewerId: String): Promise<IAccessLink[]>
+    - refreshAccessLinkExpiry(interview: Interview): Promise<void>
+    - generateAccessLinkExcel(links: IAccessLink[]): Promise<Buffer>
+*/
+class AccessLinkService {
+
+    /*
+    @method revokeAccessLink
+    @description: Revokes the access link of a candidate. Revoking an already revoked link does nothing.
+    The candidate can be given access again with regenerateAccessLink.
+
+    @params: interviewId: String, candidateId: String, interviewerId: String
+    @returns: Promise<void>
+    */
+    public async revokeAccessLink(interviewId: String, candidateId: String, interviewerId: String): Promise<void> {
+        await this.getOwnedInterview(interviewId, interviewerId);
+        const candidate: Candidate = await this.getCandidate(interviewId, candidateId);
+
+        const result = await CandidateModel.updateOne(
+            { _id: candidate._id, access_link_revoked_at: null },
+            { $set: { access_link_revoked_at: new Date() } }
+        );
+        if (result.modifiedCount > 0) {
+            eventBus.publish('candidate:access_revoked', { interviewId: interviewId.toString(), candidateId: candidateId.toString() });
+        }
+    }
+
+    /*
+    @method regenerateAccessLink
+    @description: Issues a new access link for a candidate who can still take the interview, e.g. when the link was lost or leaked.
+    This also lifts a revocation. The old link stops working immediately.
+
+    @params: interviewId: String, candidateId: String, interviewerId: String
+    @returns: Promise<IAccessLink> - The new link. This is the only time its token is available.
+    */
+    public async regenerateAccessLink(interviewId: String, candidateId: String, interviewerId: String): Promise<IAccessLink> {
+        const interview: Interview = await this.getOwnedInterview(interviewId, interviewerId);
+        this.assertCanIssueLinks(interview);
+
+        const candidate: Candidate = await this.getCandidate(interviewId, candidateId);
+        if (!this.canTakeInterview(candidate)) {
+            throw new BadRequestError(`Cannot issue an access link to a candidate who has already finished the interview`);
+        }
+
+        const { token, fields } = generateAccessLink(interview, candidate);
+        await CandidateModel.updateOne({ _id: candidate._id }, { $set: fields });
+        eventBus.publish('candidate:access_revoked', { interviewId: interviewId.toString(), candidateId: candidateId.toString() });
+
+        return {
+            candidate_id: candidateId.toString(),
+            email: candidate.email,
+            access_link_token: token,
+            expires_at: fields.access_link_expires_at,
+        };
+    }
+
+    /*
+    @method rotateAccessLinks
+    @description: Issues new access links to every candidate of the interview who can still take it (not finished, completed or cancelled),
+    revoked ones included. All old links of those candidates stop working. The links are replaced in one transaction.
+
+    @params: interviewId: String, interviewerId: String
+    @returns: Promise<IAccessLink[]> - The new links. This is the only time their tokens are available.
+    */
+    public async rotateAccessLinks(interviewId: String, interviewerId: String): Promise<IAccessLink[]> {
+        const interview: Interview = await this.getOwnedInterview(interviewId, interviewerId);
+        this.assertCanIssueLinks(interview);
+
+        const candidates: Candidate[] = await CandidateModel.find({
+            interview_id: interview._id,
+            status: { $in: [interviewStatus.SCHEDULED, interviewStatus.INPROGRESS] },
+            finished_at: null
+        });
+        if (candidates.length === 0) throw new NotFoundError("No candidates who can still take this interview");
+
+        const issued = candidates.map((candidate) => ({ candidate, ...generateAccessLink(interview, candidate) }));
+
+        const session = await mongoose.startSession();
+        try {
+            session.startTransaction();
+            await CandidateModel.bulkWrite(issued.map(({ candidate, fields }) => ({
+                updateOne: { filter: { _id: candidate._id }, update: { $set: fields } }
+            })), { session });
+            await session.commitTransaction();
+        } catch (error: unknown) {
+            await session.abortTransaction();
+            throw error;
+        } finally {
+            await session.endSession();
+        }
+
+        return issued.map(({ candidate, token, fields }) => {
+            const candidateId: string = (candidate._id as Types.ObjectId).toString();
+            eventBus.publish('candidate:access_revoked', { interviewId: interviewId.toString(), candidateId });
+            return { candidate_id: candidateId, email: candidate.email, access_link_token: token, expires_at: fields.access_link_expires_at };
+        });
+    }
+
+    /*
+    @method refreshAccessLinkExpiry
+    @description: Moves the expiry of every access link of the interview to match its current schedule. Called when the schedule is edited.
+    Candidates with their own time slot get the expiry of their slot, the others the expiry of the interview's start window.
+
+    @params: interview: Interview
+    @returns: Promise<void>
+    */
+    public async refreshAccessLinkExpiry(interview: Interview): Promise<void> {
+        await CandidateModel.updateMany(
+            { interview_id: interview._id, slot_start_time: null },
+            { $set: { access_link_expires_at: getAccessLinkExpiry(interview) } }
+        );
+
+        const slotted: Candidate[] = await CandidateModel.find({ interview_id: interview._id, slot_start_time: { $ne: null } })
+            .select('slot_start_time slot_window_minutes');
+        if (slotted.length === 0) return;
+        await CandidateModel.bulkWrite(slotted.map((candidate) => ({
+            updateOne: { filter: { _id: candidate._id }, update: { $set: { access_link_expires_at: getAccessLinkExpiry(interview, candidate) } } }
+        })));
+    }
+
+    /*
+    @method generateAccessLinkExcel
+    @description: Exports freshly issued access links to an excel file, so they can be sent to the candidates.
+
+    @params: links: IAccessLink[]
+    @returns: Promise<Buffer>
+    */
+    public async generateAccessLinkExcel(links: IAccessLink[]): Promise<Buffer> {
+        const workbook = new ExcelJS.Workbook();
+        const workSheet = workbook.addWorksheet('Candidate Links');
+
+        workSheet.columns = [
+            { header: 'Candidate Email', key: 'email', width: 50 },
+            { header: 'Access Link Token', key: 'access_link_token', width: 70 },
+            { header: 'Expires At', key: 'expires_at', width: 30 },
+        ]
+        links.forEach((link) => workSheet.addRow(link));
+
+        const arrayBuffer: ArrayBuffer = await workbook.xlsx.writeBuffer();
+        return Buffer.from(arrayBuffer);
+    }
+
+    private assertCanIssueLinks(interview: Interview): void {
+        if (interview.status === interviewStatus.COMPLETED || interview.status === interviewStatus.CANCELLED) {
+            throw new BadRequestError(`Cannot issue access links for an interview that is ${interview.status}`);
+        }
+    }
+
+    private canTakeInterview(candidate: Candidate): boolean {
+        return (candidate.status === interviewStatus.SCHEDULED || candidate.status === interviewStatus.INPROGRESS) && !candidate.finished_at;
+    }
+
+    private async getCandidate(interviewId: String, candidateId: String): Promise<Candidate> {
+        if (!Types.ObjectId.isValid(candidateId.toString())) throw new BadRequestError("Invalid candidate ID");
+
+        const candidate: Candidate | null = await CandidateModel.findOne({ _id: candidateId, interview_id: interviewId });
+        if (!candidate) throw new NotFoundError(`Candidate with ID ${candidateId} not found in this interview.`);
+        return candidate;
+    }
+
+    private async getOwnedInterview(interviewId: String, interviewerId: String): Promise<Interview> {
+        if (!Types.ObjectId.isValid(interviewId.toString())) throw new BadRequestError("Invalid interview ID");
+
+        const interview: Interview | null = await InterviewModel.findById(interviewId);
+        if (!interview) throw new NotFoundError(`Interview with ID ${interviewId} not found.`);
+        if (interview.interviewerId.toString() !== interviewerId.toString()) {
+            throw new ForbiddenError('You are not authorized to manage the access links of this interview.');
+        }
+        interviewLifecycleService.assertWritable(interview);
+        return interview;
+    }
+}
+
+const accessLinkService = new AccessLinkService();
+export default accessLinkService;
@@ -0,0 +1,117 @@
+import mongoose from 'mongoose';
+import logger from '../../Config/logger.config.js';
+import { Interview } from '../../Models/Interview.model.js';
+import { Candidate } from '../../Models/Candidate.model.js';
+import { TranscriptModel, Transcript } from '../../Models/Transcripts.model.js';
+import { nextQuestionAction, questionDifficulty } from '../../Utils/types.js';
+import { getRubric } from '../../Utils/rubricUtils.js';
+import { INextQuestion } from '../../Schemas/ai.schema.js';
+import { scoreTranscript } from '../../Jobs/scoring.job.js';
+import aiService from './ai.service.js';
+
+// The fields of the next transcript that change when its question is adapted
+type IAdaptedQuestion = Pick<Transcript, 'question_text' | 'difficulty' | 'rubric' | 'adapted' | 'follow_up_of'>;
+
+/*
+@class AdaptiveQuestionService
+Description: This class adapts the questions of an interview with adaptive_questions to the candidate's answers. When the candidate submits
+an answer, it is scored right away, and AI chooses the next question from the Q&A so far: a follow-up that digs deeper into the answer,
+a new topic at a difficulty that fits, or the planned question as it is. The chosen question replaces the planned one on the next transcript.
+
+Questions fixed by the interviewer are never replaced. A candidate gets at most max_follow_ups follow-ups, and at most max_follow_ups_per_question
+follow-ups in a row on the same question. Answers auto-submitted when time runs out are not adapted to, the planned question follows them.
+Choosing the next question is bounded by ADAPTIVE_QUESTION_TIMEOUT_MS (default 20000). If it fails or takes longer, the planned question is asked.
+The timer of the next question starts once it is chosen, but the candidate's overall time keeps running while they wait.
+The answer is scored here only once: its scoring job is delayed until after the timeout, and skips the answer when it finds it scored.
+
+Dependencies:
+    - scoreTranscript: Scores the submitted answer, so the next question can be chosen from the scores.
+    - aiService: Chooses the next question.
+
+Methods:
+    - adapts(interview: Interview, next: Transcript | null, auto_submitted: boolean): boolean
+    - adaptNextQuestion(candidate: Candidate, interview: Interview, answered: Transcript, next: Transcript): Promise<Transcript>
+*/
+class AdaptiveQuestionService {
+    public readonly timeoutMs: number = parseInt(process.env.ADAPTIVE_QUESTION_TIMEOUT_MS || '20000');
+
+    // Whether the question after an answer is adapted: in an adaptive interview, unless the answer was auto-submitted or the question is fixed
+    public adapts(interview: Interview, next: Transcript | null, auto_submitted: boolean): boolean {
+        return interview.adaptive_questions && !auto_submitted && !!next && !next.fixed;
+    }
+
+    /*
+    @method adaptNextQuestion
+    @description: Replaces the question of the next transcript with one chosen from the candidate's answers so far, and restarts its timer.
+    The transcript is only changed while the candidate hasn't answered it or saved a draft for it, otherwise it is returned as it is.
+
+    @params: candidate: Candidate, interview: Interview, answered: Transcript, next: Transcript
+    @returns: Promise<Transcript> - The next transcript, adapted or as planned.
+    */
+    public async adaptNextQuestion(candidate: Candidate, interview: Interview, answered: Transcript, next: Transcript): Promise<Transcript> {
+        if (!this.adapts(interview, next, false)) return next;
+
+        let adapted: IAdaptedQuestion | null = null;
+        try {
+            adapted = await this.withTimeout(this.chooseNextQuestion(candidate, interview, answered, next));
+        } catch (error: unknown) {
+            logger.warn(`Adaptive question skipped for candidate ${candidate._id}, asking the planned question ${next.question_order}: ${(error as Error).message}`);
+        }
+
+        const updated: Transcript | null = await TranscriptModel.findOneAndUpdate(
+            { _id: next._id, submitted_at: null, draft_saved_at: null },
+            { $set: { ...(adapted || {}), presented_at: new Date() } },
+            { new: true }
+        );
+        return updated || await TranscriptModel.findById(next._id) || next;
+    }
+
+    // Scores the answer and asks AI for the next question. Returns null when the planned question is asked.
+    private async chooseNextQuestion(candidate: Candidate, interview: Interview, answered: Transcript, next: Transcript): Promise<IAdaptedQuestion | null> {
+        await scoreTranscript((answered._id as mongoose.Types.ObjectId).toString());
+
+        const history: Transcript[] = await TranscriptModel.find({ candidate_id: candidate._id, submitted_at: { $ne: null } }).sort({ question_order: 1 });
+        const planned = { question_text: next.question_text, difficulty: next.difficulty || questionDifficulty.MEDIUM, rubric: next.rubric };
+        const chosen: INextQuestion = await aiService.generateNextQuestion(interview.domain, history, planned, this.canFollowUp(interview, history, answered));
+        if (chosen.action === nextQuestionAction.PLANNED) return null;
+
+        return {
+            question_text: chosen.question_text,
+            difficulty: chosen.difficulty,
+            rubric: getRubric(chosen.rubric),
+            adapted: true,
+            follow_up_of: chosen.action === nextQuestionAction.FOLLOW_UP ? answered._id as mongoose.Schema.Types.ObjectId : null,
+        };
+    }
+
+    // Whether one more follow-up on the answered question stays within both limits of the interview
+    private canFollowUp(interview: Interview, history: Transcript[], answered: Transcript): boolean {
+        const followUps: number = history.filter((transcript) => transcript.follow_up_of).length;
+        if (followUps >= interview.max_follow_ups) return false;
+
+        // The follow-ups in a row that led to the answered question
+        const byId: Map<string, Transcript> = new Map(history.map((transcript) => [(transcript._id as mongoose.Types.ObjectId).toString(), transcript]));
+        let inARow: number = 0;
+        let current: Transcript | undefined = answered;
+        while (current?.follow_up_of) {
+            inARow++;
+            current = byId.get(current.follow_up_of.toString());
+        }
+        return inARow < interview.max_follow_ups_per_question;
+    }
+
+    private async withTimeout<T>(promise: Promise<T>): Promise<T> {
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new Error(`no next question within ${this.timeoutMs} ms`)), this.timeoutMs);
+        });
+        try {
+            return await Promise.race([promise, timeout]);
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+}
+
+const adaptiveQuestionService = new AdaptiveQuestionService();
+export default adaptiveQuestionService;
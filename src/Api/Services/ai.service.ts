@@ -1,113 +1,153 @@
-import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
-import { PromptTemplate } from "@langchain/core/prompts";
-import { JsonOutputParser } from "@langchain/core/output_parsers";
-import { InternalServerError } from "../../Utils/ErrorClass.js";
+import { z } from "zod";
+import { OutputParserException } from "@langchain/core/output_parsers";
+import { AIOutputError, InternalServerError, ServiceUnavailableError } from "../../Utils/ErrorClass.js";
+import { questionDifficulty } from "../../Utils/types.js";
 import { Transcript } from "../../Models/Transcripts.model.js";
+import { IRubric } from "../../Models/Interview.model.js";
+import { getRubric } from "../../Utils/rubricUtils.js";
 import logger from "../../Config/logger.config.js";
+import { getAIProvider } from "../../AI/providers.js";
 import {
-    AI_PROMPTS,
+    IAIProvider,
     IGeneratedQuestion,
     IEvaluationResult,
     IInterviewSummary,
-    IGenerateQuestionsInput
+    INextQuestion,
+    generatedQuestionsSchema,
+    evaluationResultSchema,
+    interviewSummarySchema,
+    nextQuestionSchema
 } from "../../Schemas/ai.schema.js";
 
 
+/*
+@class AIService
+Description: This class runs the AI tasks of the application (generating questions, evaluating answers, summarizing interviews
+and choosing the next question of an adaptive interview) on the provider selected by AI_PROVIDER, see AI/providers.ts.
+If no provider is configured the service is degraded: the server still starts, and every AI task fails with a ServiceUnavailableError.
+Background jobs check isAvailable first and defer themselves by AI_UNAVAILABLE_RETRY_MS (default 60000) instead, until a provider is configured.
 
+Every output is validated against its zod schema in ai.schema.ts, which also repairs small slips. An output that is still invalid
+(or not JSON at all) is asked for again, telling the model which field was wrong, up to AI_OUTPUT_MAX_ATTEMPTS attempts (default 3).
+Each invalid attempt is logged with the field, and when the attempts run out an AIOutputError says which field was invalid.
 
+Dependencies:
+    - getAIProvider: The configured AI provider.
+
+Methods:
+    - isAvailable(): boolean
+    - generateQuestions(domain: string, num_questions: number, minimums?: Partial<Record<questionDifficulty, number>>): Promise<IGeneratedQuestion[]>
+    - evaluateAnswer(domain: string, question: string, answer: string, rubric?: IRubric | null): Promise<IEvaluationResult>
+    - generateSummary(domain: string, transcripts: Transcript[]): Promise<IInterviewSummary>
+    - generateNextQuestion(domain: string, transcripts: Transcript[], planned: IGeneratedQuestion, follow_up_allowed: boolean): Promise<INextQuestion>
+*/
 class AIService {
-    private model: ChatGoogleGenerativeAI;
-    private generationChain;
-    private evaluationChain;
-    private summaryChain;
+    private readonly maxAttempts: number = Math.max(1, parseInt(process.env.AI_OUTPUT_MAX_ATTEMPTS || '3'));
+    // How long background jobs wait before trying an AI task again while no provider is configured
+    public readonly unavailableRetryMs: number = parseInt(process.env.AI_UNAVAILABLE_RETRY_MS || '60000');
+
     constructor() {
-        const apiKey = process.env.GEMINI_API_KEY; 
+        // Resolve the provider right away, so a missing configuration shows up in the startup logs
+        getAIProvider();
+    }
 
-        if (!apiKey) {
-            logger.error("GEMINI_API_KEY is not set in .env. AI Service will not function.");
-            throw new InternalServerError("AI Service is not configured. Missing API key.");
-        }
+    // Whether an AI provider is configured. Without one, every AI task fails.
+    public isAvailable(): boolean {
+        return getAIProvider() !== null;
+    }
 
-        this.model = new ChatGoogleGenerativeAI({
-            apiKey: apiKey,
-            model: "gemini-2.5-flash",
-            temperature: 0.3, 
-        });
-        logger.info("AI Service initialized successfully with gemini-2.5-flash");
-
-         // 1. Question Generation Chain
-         const generationPrompt = PromptTemplate.fromTemplate(AI_PROMPTS.GENERATE_QUESTIONS_TEMPLATE);
-         const generationParser = new JsonOutputParser<IGeneratedQuestion[]>();
-         this.generationChain = generationPrompt.pipe(this.model).pipe(generationParser);
- 
-         // 2. Answer Evaluation Chain
-         const evaluationPrompt = PromptTemplate.fromTemplate(AI_PROMPTS.EVALUATE_ANSWER_TEMPLATE);
-         const evaluationParser = new JsonOutputParser<IEvaluationResult>();
-         this.evaluationChain = evaluationPrompt.pipe(this.model).pipe(evaluationParser);
- 
-         // 3. Interview Summary Chain
-         const summaryPrompt = PromptTemplate.fromTemplate(AI_PROMPTS.GENERATE_SUMMARY_TEMPLATE);
-         const summaryParser = new JsonOutputParser<IInterviewSummary>();
-         this.summaryChain = summaryPrompt.pipe(this.model).pipe(summaryParser);
 
+    public async generateQuestions(domain: string, num_questions: number, minimums: Partial<Record<questionDifficulty, number>> = {}): Promise<IGeneratedQuestion[]> {
+        logger.debug(`Invoking question generation for ${domain}`);
+        const questions = await this.runTask('question set', "Failed to generate questions from AI.", generatedQuestionsSchema(num_questions),
+            (provider, retry_feedback) => provider.generateQuestions({ domain, num_questions, minimums, retry_feedback }));
+        logger.info(`Successfully generated ${questions.length} questions for ${domain}.`);
+        return questions;
     }
 
 
-    public async generateQuestions(domain: string, num_questions: number): Promise<IGeneratedQuestion[]> {
-        logger.debug(`Invoking question generation chain for ${domain}`);
-        try {
-            const input = { domain, num_questions };
-            const questions = await this.generationChain.invoke(input);
-            logger.info(`Successfully generated ${questions.length} questions for ${domain}.`);
-            return questions;
-        } catch (error) {
-            logger.error('Error in generateQuestions chain:', error);
-            throw new InternalServerError("Failed to generate questions from AI.");
-        }
+    // Without a rubric the answer is evaluated on the default rubric
+    public async evaluateAnswer(domain: string, question: string, answer: string, rubric?: IRubric | null): Promise<IEvaluationResult> {
+        logger.debug(`Invoking evaluation for question: ${question.substring(0, 20)}...`);
+        const evaluationRubric: IRubric = getRubric(rubric);
+        const result = await this.runTask('evaluation', "Failed to evaluate answer from AI.", evaluationResultSchema(evaluationRubric),
+            (provider, retry_feedback) => provider.evaluateAnswer({ domain, question, answer, rubric: evaluationRubric, retry_feedback }));
+        logger.info(`Successfully evaluated answer. Score: ${result.score}`);
+        return result;
     }
 
 
-    public async evaluateAnswer(domain: string, question: string, answer: string): Promise<IEvaluationResult> {
-        logger.debug(`Invoking evaluation chain for question: ${question.substring(0, 20)}...`);
-        try {
-            const input = { 
-                domain: domain, 
-                question: question, 
-                answer: answer 
-            };
-            const result = await this.evaluationChain.invoke(input);
-            logger.info(`Successfully evaluated answer. Score: ${result.score}`);
-            return result;
-        } catch (error) {
-            logger.error('Error in evaluateAnswer chain:', error);
-            throw new InternalServerError("Failed to evaluate answer from AI.");
-        }
+    public async generateSummary(domain: string, transcripts: Transcript[]): Promise<IInterviewSummary> {
+        logger.debug(`Invoking summary for ${transcripts.length} transcripts`);
+        const summary = await this.runTask('summary', "Failed to generate summary from AI.", interviewSummarySchema,
+            (provider, retry_feedback) => provider.generateSummary({ domain, transcripts, retry_feedback }));
+        logger.info(`Successfully generated summary. Recommendation: ${summary.recommendation}`);
+        return summary;
     }
 
+    // Chooses the next question of an adaptive interview from the answers so far. The planned question is returned when it fits best.
+    public async generateNextQuestion(domain: string, transcripts: Transcript[], planned: IGeneratedQuestion, follow_up_allowed: boolean): Promise<INextQuestion> {
+        logger.debug(`Invoking next question for ${domain} after ${transcripts.length} answers`);
+        const next = await this.runTask('next question', "Failed to generate the next question from AI.", nextQuestionSchema(planned, follow_up_allowed),
+            (provider, retry_feedback) => provider.generateNextQuestion({ domain, transcripts, planned, follow_up_allowed, retry_feedback }));
+        logger.info(`Successfully chose the next question. Action: ${next.action}`);
+        return next;
+    }
 
-    public async generateSummary(domain: string, transcripts: Transcript[]): Promise<IInterviewSummary> {
-        logger.debug(`Invoking summary chain for ${transcripts.length} transcripts`);
-        try {
-            // 1. Construct the history string from the transcripts
-            const qa_history = transcripts.map((t, i) => `Q${i+1}: ${t.question_text} Answer: ${t.answer_text || "(No answer provided)"} Score: ${t.score}/10`).join('\n');
-
-            const input = { 
-                domain: domain, 
-                qa_history: qa_history 
-            };
-
-            const summary = await this.summaryChain.invoke(input);
-            logger.info(`Successfully generated summary. Recommendation: ${summary.recommendation}`);
-            return summary;
-            
-        } catch (error) {
-            logger.error('Error in generateSummary chain:', error);
-            throw new InternalServerError("Failed to generate summary from AI.");
+    // Runs a task on the provider until its output passes the schema, or the attempts run out.
+    // Errors other than an unparsable output (network, quota, ...) are not retried here, the callers and the job queue retry those.
+    private async runTask<T>(
+        task: string,
+        failureMessage: string,
+        schema: z.ZodType<T>,
+        call: (provider: IAIProvider, retry_feedback?: string) => Promise<unknown>
+    ): Promise<T> {
+        const provider: IAIProvider = this.getProvider();
+        let invalid: { field: string, issue: string } | null = null;
+
+        for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+            const retry_feedback: string | undefined = invalid
+                ? `Your previous response was rejected because ${invalid.field} ${invalid.issue}. Return only the JSON in the format above.`
+                : undefined;
+
+            let output: unknown;
+            try {
+                output = await call(provider, retry_feedback);
+            } catch (error) {
+                if (!(error instanceof OutputParserException)) {
+                    logger.error(`Error in ${task} on ${provider.name}:`, error);
+                    throw new InternalServerError(failureMessage);
+                }
+                invalid = { field: 'response', issue: 'is not valid JSON' };
+                logger.warn(`Invalid AI ${task} from ${provider.name} (attempt ${attempt}/${this.maxAttempts}): response is not valid JSON`);
+                continue;
+            }
+
+            const parsed = schema.safeParse(output);
+            if (parsed.success) return parsed.data;
+
+            const issue = parsed.error.issues[0];
+            invalid = { field: this.formatPath(issue.path), issue: issue.message };
+            logger.warn(`Invalid AI ${task} from ${provider.name} (attempt ${attempt}/${this.maxAttempts}): ${invalid.field} ${invalid.issue}`);
         }
+
+        throw new AIOutputError(task, invalid!.field, invalid!.issue, this.maxAttempts);
+    }
+
+    // Formats a zod issue path like "[2].difficulty". An empty path means the output as a whole.
+    private formatPath(path: PropertyKey[]): string {
+        if (path.length === 0) return 'response';
+        return path.map((key, index) => typeof key === 'number' ? `[${key}]` : `${index > 0 ? '.' : ''}${String(key)}`).join('');
+    }
+
+    private getProvider(): IAIProvider {
+        const provider: IAIProvider | null = getAIProvider();
+        if (!provider) throw new ServiceUnavailableError("AI Service is not configured. Please try again later.");
+        return provider;
     }
 
 }
 
 // Export a single instance of the service for the rest of the application to use
 const aiService = new AIService();
-export default aiService;
\ No newline at end of file
+export default aiService;
@@ -0,0 +1,474 @@
+import mongoose from 'mongoose';
+import logger from '../../Config/logger.config.js';
+import { Candidate, CandidateModel, CandidateReconnect, MAX_STORED_RECONNECTS } from '../../Models/Candidate.model.js';
+import { Interview } from '../../Models/Interview.model.js';
+import { TranscriptModel, Transcript } from '../../Models/Transcripts.model.js';
+import { interviewStatus, questionSetStatus } from '../../Utils/types.js';
+import { calculateTimeRemainingMs, getStartWindow } from '../../Utils/timeUtils.js';
+import { shuffleQuestions } from '../../Utils/questionMixUtils.js';
+import { getRubric } from '../../Utils/rubricUtils.js';
+import { BadRequestError, ConflictError, GoneError, InternalServerError } from '../../Utils/ErrorClass.js';
+import { IGeneratedQuestion } from '../../Schemas/ai.schema.js';
+import {
+    ICandidateQuestion,
+    ICandidateResumeState,
+    ICandidateSessionState,
+    IReconnectMeta,
+    ISaveDraft,
+    ISaveDraftResult,
+    ISubmitAnswer,
+    ISubmitAnswerResult
+} from '../../Schemas/candidate.schema.js';
+import questionSetService from './questionSet.service.js';
+import adaptiveQuestionService from './adaptiveQuestion.service.js';
+import interviewLifecycleService from './interviewLifecycle.service.js';
+import eventBus from '../../Events/eventBus.js';
+import { enqueueScoringJob } from '../../Jobs/scoring.job.js';
+import { enqueueFinalizationJob } from '../../Jobs/finalization.job.js';
+
+/*
+@class CandidateService
+Description: This class gives us all the services used by a candidate while taking an interview. The candidate is identified by the access link token,
+so every method receives the candidate and interview documents already resolved by the authenticateCandidate middleware, which also enforces the timing rules.
+
+Dependencies:
+    - mongoose: The Mongoose library for MongoDB interaction.
+    - DB models: Mongoose models for candidates and transcripts.
+    - questionSetService: Used to build the questions when candidate starts the interview.
+    - adaptiveQuestionService: Adapts the next question to the answers so far, in adaptive interviews.
+    - interviewLifecycleService: Moves the interview to In Progress when the first candidate starts.
+    - enqueueScoringJob: Queues the AI scoring of each submitted answer.
+    - enqueueFinalizationJob: Queues the finalization of the candidate after the last answer.
+    - timeUtils: Used to calculate the remaining time and start window.
+    - eventBus: To publish candidate started and answer submitted events for the dashboards.
+
+Methods:
+    - getSessionState(candidate: Candidate, interview: Interview): Promise<ICandidateSessionState>
+    - startInterview(candidate: Candidate, interview: Interview): Promise<ICandidateQuestion>
+    - getCurrentQuestion(candidate: Candidate, interview: Interview): Promise<ICandidateQuestion>
+    - submitAnswer(candidate: Candidate, interview: Interview, payload: ISubmitAnswer): Promise<ISubmitAnswerResult>
+    - saveDraft(candidate: Candidate, interview: Interview, payload: ISaveDraft): Promise<ISaveDraftResult>
+    - resumeSession(candidate: Candidate, interview: Interview, channel: 'rest' | 'websocket', meta: IReconnectMeta): Promise<ICandidateResumeState>
+    - recordReconnect(candidate: Candidate, channel: 'rest' | 'websocket', meta: IReconnectMeta): Promise<number>
+    - expireOverdueQuestions(candidate: Candidate, interview: Interview): Promise<number>
+    - getQuestionDeadline(transcript: Transcript, candidate: Candidate, interview: Interview): Date
+*/
+class CandidateService {
+    // Extra time allowed after a question's deadline, to account for network latency
+    public readonly questionGraceMs: number = parseInt(process.env.QUESTION_GRACE_MS || '2000');
+
+    /*
+    @method getSessionState
+    @description: This method returns the current state of the candidate's interview session. It contains basic candidate and interview details,
+    the number of questions answered so far and the remaining time in seconds if the interview is in progress.
+
+    @params: candidate: Candidate, interview: Interview
+    @returns: Promise<ICandidateSessionState>
+    */
+    public async getSessionState(candidate: Candidate, interview: Interview): Promise<ICandidateSessionState> {
+        const answered_questions: number = await TranscriptModel.countDocuments({
+            candidate_id: candidate._id,
+            submitted_at: { $ne: null }
+        });
+
+        let time_remaining_seconds: number | null = null;
+        if (candidate.status === interviewStatus.INPROGRESS && candidate.started_at) {
+            const remainingMs = calculateTimeRemainingMs(candidate.started_at, interview.num_questions, interview.minutes_per_question);
+            time_remaining_seconds = Math.max(0, Math.floor(remainingMs / 1000));
+        }
+
+        const startWindow = getStartWindow(interview, candidate);
+        return {
+            candidate: {
+                full_name: candidate.full_name,
+                email: candidate.email,
+                status: candidate.status,
+                started_at: candidate.started_at,
+                completed_at: candidate.completed_at,
+            },
+            interview: {
+                title: interview.title,
+                domain: interview.domain,
+                num_questions: interview.num_questions,
+                minutes_per_question: interview.minutes_per_question,
+                scheduled_start_time: interview.scheduled_start_time,
+                start_window_opens_at: startWindow.opens_at,
+                start_window_closes_at: startWindow.closes_at,
+            },
+            answered_questions,
+            time_remaining_seconds,
+        };
+    }
+
+    /*
+    @method startInterview
+    @description: This method starts the interview for the candidate. First the questions are generated using AI, so that the candidate's time doesn't start while we wait for AI.
+    The interview's fixed questions are asked first, and AI only generates the rest, meeting whatever difficulty minimums the fixed ones don't cover.
+    With a shared question set, the transcripts are copies of the approved set instead, and candidates can't start before it is approved.
+    With randomize_question_order, the candidate gets the questions in their own random order.
+    The difficulty of every question is stored on its transcript, and so is the rubric its answer will be evaluated on (the default rubric if it has none).
+    Then in a single transaction we move the candidate from Scheduled to In Progress, set started_at and store each question as a transcript row.
+    The candidate update is conditional on the status still being Scheduled, so two parallel start requests cannot create two sets of questions.
+
+    @params: candidate: Candidate, interview: Interview
+    @returns: Promise<ICandidateQuestion> - The first question of the interview.
+    */
+    public async startInterview(candidate: Candidate, interview: Interview): Promise<ICandidateQuestion> {
+        if (candidate.status === interviewStatus.INPROGRESS) throw new ConflictError("Interview already started");
+        if (candidate.status !== interviewStatus.SCHEDULED) throw new BadRequestError(`Interview cannot be started. Current status: ${candidate.status}`);
+
+        // A shared set is asked as approved. Otherwise the fixed questions come first, and AI generates the rest for this candidate.
+        // The questions the interviewer set are marked fixed, so an adaptive interview never replaces them.
+        let questions: (IGeneratedQuestion & { fixed: boolean })[];
+        if (interview.shared_question_set) {
+            if (interview.question_set_status !== questionSetStatus.APPROVED) {
+                throw new BadRequestError("The questions of this interview are not ready yet. Please try again later.");
+            }
+            questions = interview.questions.map((question) => this.toPlannedQuestion(question, true));
+        } else {
+            const fixedCount: number = (interview.questions || []).length;
+            const planned: IGeneratedQuestion[] = await questionSetService.generateQuestionSet(interview.domain, interview.num_questions, interview.questions || [], interview.min_per_difficulty || {});
+            questions = planned.map((question, index) => this.toPlannedQuestion(question, index < fixedCount));
+        }
+        if (interview.randomize_question_order) questions = shuffleQuestions(questions);
+
+        let updatedCandidate: Candidate | null;
+        let firstTranscript: Transcript;
+        const session = await mongoose.startSession();
+        try {
+            session.startTransaction();
+
+            const started_at = new Date();
+            updatedCandidate = await CandidateModel.findOneAndUpdate(
+                { _id: candidate._id, status: interviewStatus.SCHEDULED },
+                { $set: { status: interviewStatus.INPROGRESS, started_at, current_question_order: 1 } },
+                { new: true, session }
+            );
+            if (!updatedCandidate) throw new ConflictError("Interview already started");
+
+            const transcriptsToCreate = questions.map((question, index) => ({
+                candidate_id: candidate._id,
+                question_order: index + 1,
+                question_text: question.question_text,
+                difficulty: question.difficulty,
+                rubric: getRubric(question.rubric),
+                fixed: question.fixed,
+                presented_at: index === 0 ? started_at : null,
+            }));
+            const transcripts = await TranscriptModel.insertMany(transcriptsToCreate, { session });
+            firstTranscript = transcripts[0];
+
+            await session.commitTransaction();
+        } catch (error: unknown) {
+            await session.abortTransaction();
+            throw error;
+        } finally {
+            await session.endSession();
+        }
+
+        // The candidate has started once the transaction is committed, so a failure from here on must not fail the request.
+        // Don't wait for the lifecycle scheduler's next tick to show the interview as started, the scheduler catches up if this fails.
+        try {
+            await interviewLifecycleService.startIfScheduled(interview._id as mongoose.Types.ObjectId);
+        } catch (error: unknown) {
+            logger.error(`Failed to start interview ${interview._id} after candidate ${candidate._id} started:`, (error as Error).message);
+        }
+        eventBus.publish('candidate:started', {
+            interviewId: (interview._id as mongoose.Types.ObjectId).toString(),
+            candidateId: (candidate._id as mongoose.Types.ObjectId).toString(),
+            status: interviewStatus.INPROGRESS,
+        });
+        return this.toCandidateQuestion(firstTranscript, updatedCandidate, interview);
+    }
+
+    /*
+    @method getCurrentQuestion
+    @description: This method returns the question the candidate has to answer now, which is the unanswered transcript with the lowest question order.
+    Questions whose time ran out are auto-submitted first, so the candidate always gets a question they can still answer, along with its server side deadline.
+    If every question is answered, the interview is over for this candidate and we respond with 410 Gone, same as the middleware does for completed candidates.
+
+    @params: candidate: Candidate, interview: Interview
+    @returns: Promise<ICandidateQuestion>
+    */
+    public async getCurrentQuestion(candidate: Candidate, interview: Interview): Promise<ICandidateQuestion> {
+        if (candidate.status === interviewStatus.SCHEDULED) throw new BadRequestError("Interview not started yet");
+
+        await this.expireOverdueQuestions(candidate, interview);
+
+        const current: Transcript | null = await this.findCurrentTranscript(candidate);
+        if (!current) throw new GoneError("Interview already completed");
+
+        return this.toCandidateQuestion(current, candidate, interview);
+    }
+
+    /*
+    @method submitAnswer
+    @description: This method stores the candidate's answer for the current question. The client sends the question order it is answering,
+    and we reject the request if it doesn't match the current question, so a retried or stale request can't overwrite another answer.
+    Questions whose time already ran out are auto-submitted before that check, so a late answer for an expired question is rejected.
+    If this was the last question, the candidate is marked finished and the finalization job (scores, AI summary, Completed status) is queued.
+    In an adaptive interview the next question is chosen from the answers so far before it is returned, see recordAnswer.
+
+    @params: candidate: Candidate, interview: Interview, payload: ISubmitAnswer
+    @returns: Promise<ISubmitAnswerResult>
+    */
+    public async submitAnswer(candidate: Candidate, interview: Interview, payload: ISubmitAnswer): Promise<ISubmitAnswerResult> {
+        const { question_order, answer_text } = payload;
+
+        if (candidate.status === interviewStatus.SCHEDULED) throw new BadRequestError("Interview not started yet");
+
+        await this.expireOverdueQuestions(candidate, interview);
+
+        const current: Transcript | null = await this.findCurrentTranscript(candidate);
+        if (!current) throw new GoneError("Interview already completed");
+
+        if (current.question_order !== question_order) {
+            const expired = await TranscriptModel.exists({ candidate_id: candidate._id, question_order, auto_submitted: true });
+            if (expired) throw new ConflictError(`Time for question ${question_order} is over. The answer was submitted automatically.`);
+            throw new ConflictError(`Expected answer for question ${current.question_order}, received question ${question_order}`);
+        }
+
+        const { submitted_at, next } = await this.recordAnswer(candidate, interview, current, answer_text, false);
+
+        return {
+            question_order,
+            submitted_at,
+            is_completed: !next,
+            next_question: next ? this.toCandidateQuestion(next, candidate, interview) : null,
+        };
+    }
+
+    /*
+    @method saveDraft
+    @description: Autosaves the text the candidate is typing for the current question, so it can be restored after a crash or refresh
+    and is submitted automatically if the question's time runs out. Drafts for any other question are rejected.
+
+    @params: candidate: Candidate, interview: Interview, payload: ISaveDraft
+    @returns: Promise<ISaveDraftResult>
+    */
+    public async saveDraft(candidate: Candidate, interview: Interview, payload: ISaveDraft): Promise<ISaveDraftResult> {
+        const { question_order, draft_text } = payload;
+
+        if (candidate.status === interviewStatus.SCHEDULED) throw new BadRequestError("Interview not started yet");
+
+        await this.expireOverdueQuestions(candidate, interview);
+
+        const current: Transcript | null = await this.findCurrentTranscript(candidate);
+        if (!current || current.question_order !== question_order) {
+            throw new ConflictError(`Question ${question_order} is not the current question`);
+        }
+
+        const draft_saved_at = new Date();
+        const updated = await TranscriptModel.findOneAndUpdate(
+            { _id: current._id, submitted_at: null },
+            { $set: { draft_text, draft_saved_at } },
+            { new: true }
+        );
+        if (!updated) throw new ConflictError(`Question ${question_order} is not the current question`);
+
+        return { question_order, draft_saved_at };
+    }
+
+    /*
+    @method resumeSession
+    @description: Returns everything a client needs to continue after a crash, refresh or dropped connection: the session state
+    (with remaining time computed from started_at), the exact current question with its saved draft, and how many times the candidate reconnected.
+    Resuming a started session is recorded as a reconnect.
+
+    @params: candidate: Candidate, interview: Interview, channel: 'rest' | 'websocket', meta: IReconnectMeta
+    @returns: Promise<ICandidateResumeState>
+    */
+    public async resumeSession(candidate: Candidate, interview: Interview, channel: CandidateReconnect['channel'], meta: IReconnectMeta = {}): Promise<ICandidateResumeState> {
+        let reconnect_count: number = candidate.reconnect_count || 0;
+        let current_question: ICandidateQuestion | null = null;
+
+        if (candidate.status === interviewStatus.INPROGRESS) {
+            reconnect_count = await this.recordReconnect(candidate, channel, meta);
+            try {
+                current_question = await this.getCurrentQuestion(candidate, interview);
+            } catch (error: unknown) {
+                // Expiring overdue questions may have finished the interview
+                if (!(error instanceof GoneError)) throw error;
+            }
+        }
+
+        const session: ICandidateSessionState = await this.getSessionState(candidate, interview);
+        return { session, current_question, reconnect_count };
+    }
+
+    /*
+    @method recordReconnect
+    @description: Records that the candidate came back to a started session. Only the latest reconnects are kept on the candidate,
+    while reconnect_count keeps the total.
+
+    @params: candidate: Candidate, channel: 'rest' | 'websocket', meta: IReconnectMeta
+    @returns: Promise<number> - The total number of reconnects.
+    */
+    public async recordReconnect(candidate: Candidate, channel: CandidateReconnect['channel'], meta: IReconnectMeta = {}): Promise<number> {
+        const reconnect: CandidateReconnect = {
+            channel,
+            at: new Date(),
+            ip: meta.ip || '',
+            user_agent: meta.user_agent || '',
+        };
+        const updated = await CandidateModel.findOneAndUpdate(
+            { _id: candidate._id },
+            {
+                $push: { reconnects: { $each: [reconnect], $slice: -MAX_STORED_RECONNECTS } },
+                $inc: { reconnect_count: 1 },
+            },
+            { new: true }
+        );
+        return updated ? updated.reconnect_count : 0;
+    }
+
+    /*
+    @method expireOverdueQuestions
+    @description: Auto-submits every question whose deadline (plus a small grace period for network latency) has passed, in order.
+    The last autosaved draft of the question is submitted as the answer.
+    This is what makes the server clock authoritative: whatever the client shows, an expired question can't be answered anymore.
+    Called before serving or accepting answers, and by the candidate WebSocket channel when a question timer fires.
+
+    @params: candidate: Candidate, interview: Interview
+    @returns: Promise<number> - The number of questions auto-submitted.
+    */
+    public async expireOverdueQuestions(candidate: Candidate, interview: Interview): Promise<number> {
+        if (candidate.status !== interviewStatus.INPROGRESS) return 0;
+
+        let expired = 0;
+        let current: Transcript | null = await this.findCurrentTranscript(candidate);
+        while (current && Date.now() > this.getQuestionDeadline(current, candidate, interview).getTime() + this.questionGraceMs) {
+            try {
+                const { next } = await this.recordAnswer(candidate, interview, current, current.draft_text || '', true);
+                expired++;
+                current = next;
+            } catch (error: unknown) {
+                // Someone else submitted or expired this question in the meantime
+                if (error instanceof ConflictError) break;
+                throw error;
+            }
+        }
+        return expired;
+    }
+
+    /*
+    @method getQuestionDeadline
+    @description: Returns the time until which the given question can be answered: minutes_per_question after it was presented,
+    but never later than the end of the candidate's overall time budget.
+
+    @params: transcript: Transcript, candidate: Candidate, interview: Interview
+    @returns: Date
+    */
+    public getQuestionDeadline(transcript: Transcript, candidate: Candidate, interview: Interview): Date {
+        const presentedAt: Date = transcript.presented_at || candidate.started_at;
+        const questionDeadlineMs = presentedAt.getTime() + interview.minutes_per_question * 60000;
+        const overallDeadlineMs = Date.now() + calculateTimeRemainingMs(candidate.started_at, interview.num_questions, interview.minutes_per_question);
+        return new Date(Math.min(questionDeadlineMs, overallDeadlineMs));
+    }
+
+    /*
+    @method recordAnswer
+    @description: Stores an answer (typed by the candidate, or the saved draft when auto-submitted) and moves the candidate to the next question.
+    The answer and its scoring job are written together, so a saved answer is never left without a score.
+    The next question's presented_at is set in the same transaction, which starts its timer.
+    On the last answer the candidate is marked finished and its finalization is queued in the same transaction.
+    The update is conditional on submitted_at still being null, so a question can't be answered twice.
+    In an adaptive interview the next question is then adapted to the answer (see adaptiveQuestionService) before 'answer:submitted' is published,
+    so the WebSocket channel pushes the adapted question and its timer.
+    */
+    private async recordAnswer(candidate: Candidate, interview: Interview, current: Transcript, answer_text: string, auto_submitted: boolean): Promise<{ submitted_at: Date, next: Transcript | null }> {
+        const submitted_at = new Date();
+        let next: Transcript | null = null;
+        const session = await mongoose.startSession();
+        try {
+            session.startTransaction();
+
+            const updatedTranscript = await TranscriptModel.findOneAndUpdate(
+                { _id: current._id, submitted_at: null },
+                { $set: { answer_text, submitted_at, auto_submitted } },
+                { new: true, session }
+            );
+            if (!updatedTranscript) throw new ConflictError("Answer already submitted for this question");
+
+            next = await this.findCurrentTranscript(candidate, session);
+
+            // When the next question is adapted, the answer is scored right away, so its job waits until that is done
+            const scoreAt: Date | undefined = adaptiveQuestionService.adapts(interview, next, auto_submitted)
+                ? new Date(submitted_at.getTime() + adaptiveQuestionService.timeoutMs)
+                : undefined;
+            await enqueueScoringJob((current._id as mongoose.Types.ObjectId).toString(), interview._id, session, scoreAt);
+
+            if (next) {
+                next = await TranscriptModel.findOneAndUpdate(
+                    { _id: next._id },
+                    { $set: { presented_at: submitted_at } },
+                    { new: true, session }
+                );
+                await CandidateModel.updateOne(
+                    { _id: candidate._id },
+                    { $set: { current_question_order: next!.question_order } },
+                    { session }
+                );
+            } else {
+                await CandidateModel.updateOne(
+                    { _id: candidate._id, status: interviewStatus.INPROGRESS },
+                    { $set: { finished_at: submitted_at, current_question_order: null } },
+                    { session }
+                );
+                await enqueueFinalizationJob((candidate._id as mongoose.Types.ObjectId).toString(), interview._id, session);
+            }
+
+            await session.commitTransaction();
+        } catch (error: unknown) {
+            await session.abortTransaction();
+            throw error;
+        } finally {
+            await session.endSession();
+        }
+
+        // Adapt before publishing, so the candidate's other connections are pushed the question they will actually answer
+        if (next && adaptiveQuestionService.adapts(interview, next, auto_submitted)) {
+            next = await adaptiveQuestionService.adaptNextQuestion(candidate, interview, current, next);
+        }
+
+        const answered_count: number = await TranscriptModel.countDocuments({ candidate_id: candidate._id, submitted_at: { $ne: null } });
+        eventBus.publish('answer:submitted', {
+            interviewId: (interview._id as mongoose.Types.ObjectId).toString(),
+            candidateId: (candidate._id as mongoose.Types.ObjectId).toString(),
+            transcriptId: (current._id as mongoose.Types.ObjectId).toString(),
+            question_order: current.question_order,
+            answered_count,
+            total_questions: interview.num_questions,
+        });
+
+        return { submitted_at, next };
+    }
+
+    // Copies a question to store as a transcript. Questions of the interview are subdocuments, so their fields are copied one by one.
+    private toPlannedQuestion(question: IGeneratedQuestion, fixed: boolean): IGeneratedQuestion & { fixed: boolean } {
+        return { question_text: question.question_text, difficulty: question.difficulty, rubric: question.rubric, fixed };
+    }
+
+    // Returns the first unanswered transcript of the candidate, or null if all are answered
+    private async findCurrentTranscript(candidate: Candidate, session?: mongoose.ClientSession): Promise<Transcript | null> {
+        return await TranscriptModel.findOne({ candidate_id: candidate._id, submitted_at: null }).sort({ question_order: 1 }).session(session || null);
+    }
+
+    // Maps a transcript to the question shown to candidate. Score and answers are never exposed here.
+    private toCandidateQuestion(transcript: Transcript, candidate: Candidate, interview: Interview): ICandidateQuestion {
+        const deadline: Date = this.getQuestionDeadline(transcript, candidate, interview);
+        return {
+            transcript_id: (transcript._id as mongoose.Types.ObjectId).toString(),
+            question_order: transcript.question_order,
+            question_text: transcript.question_text,
+            total_questions: interview.num_questions,
+            presented_at: transcript.presented_at || candidate.started_at,
+            deadline,
+            time_remaining_seconds: Math.max(0, Math.floor((deadline.getTime() - Date.now()) / 1000)),
+            draft_text: transcript.draft_text || '',
+        };
+    }
+}
+
+const candidateService = new CandidateService();
+export default candidateService;
@@ -1,12 +1,30 @@
 import mongoose, { Schema, Types } from 'mongoose';
-import crypto from 'crypto';
 import ExcelJS from 'exceljs';
-import { InterviewModel, Interview } from '../../Models/Interview.model.js';
+import { InterviewModel, Interview, IInterviewQuestion } from '../../Models/Interview.model.js';
 import { CandidateModel, Candidate } from "../../Models/Candidate.model.js";
 import { TranscriptModel, Transcript } from '../../Models/Transcripts.model.js';
-import { interviewStatus } from '../../Utils/types.js';
-import { ICreateInterview, IGetInterview, IGetCandidateTranscript } from '../../Schemas/interview.schema.js';
-import { BadRequestError, NotFoundError, UnauthorizedError, ForbiddenError } from '../../Utils/ErrorClass.js';
+import { NotificationModel } from '../../Models/Notification.model.js';
+import { JobModel } from '../../Models/Job.model.js';
+import { interviewStatus, questionSetStatus } from '../../Utils/types.js';
+import { ICreateInterview, ICreateInterviewResult, IGetInterview, IGetInterviewQuery, IGetCandidateTranscript, IUpdateInterview, IListInterviewsQuery, IListInterviews, IInterviewListItem, ICloneInterview, IInterviewSource, ICancelInterview, IDeleteInterviewResult } from '../../Schemas/interview.schema.js';
+import { AccessLinkState, IAccessLink } from '../../Schemas/accessLink.schema.js';
+import { generateAccessLink } from '../../Utils/accessLinkUtils.js';
+import { getStartWindow } from '../../Utils/timeUtils.js';
+import { BadRequestError, NotFoundError, UnauthorizedError, ForbiddenError, ConflictError } from '../../Utils/ErrorClass.js';
+import eventBus from '../../Events/eventBus.js';
+import personService from './person.service.js';
+import accessLinkService from './accessLink.service.js';
+import notificationService from './notification.service.js';
+import questionBankService from './questionBank.service.js';
+import questionSetService from './questionSet.service.js';
+import interviewLifecycleService from './interviewLifecycle.service.js';
+import { getQuestionMixError } from '../../Utils/questionMixUtils.js';
+
+// Fields that can still be edited once the interview has started. Everything else is only editable while it is Scheduled.
+const fieldsEditableAfterStart: (keyof IUpdateInterview)[] = ['title'];
+
+// Fields that move the end of the interview, and with it the expiry of the access links
+const scheduleFields: (keyof IUpdateInterview)[] = ['scheduled_start_time', 'buffer_time_minutes', 'num_questions', 'minutes_per_question'];
 
 /*
 @class InterviewService
@@ -15,34 +33,64 @@ This class also gives methods to download the excel file of summary of interview
 
 Dependencies:
     - mongoose: The Mongoose library for MongoDB interaction.
-    - crypto: Utility for generating random bytes.
+    - accessLinkUtils: Utility for generating the candidates' access links.
     - DB models: Mongoose models for interviews and candidates.
 
 Methods:
-    - createInterviewService(payload: ICreateInterview, interviewerId: Types.ObjectId | String): Promise<Interview>
-    - getAllInterviwsService(interviewerId: Types.ObjectId | String): Promise<Interview[]>
-    - getInterviewService(InterviewId: Types.ObjectId | String): Promise<IGetInterview>
-    - updateInterviewService(InterviewId: Types.ObjectId | String, payload: IUpdateInterview): Promise<Interview>
-    - deleteInterview(InterviewId: String, interviewerId: String): Promise<void>
+    - createInterviewService(payload: ICreateInterview, interviewerId: Types.ObjectId | String, source?: IInterviewSource): Promise<ICreateInterviewResult>
+    - cloneInterview(InterviewId: String, payload: ICloneInterview, interviewerId: String): Promise<ICreateInterviewResult>
+    - getAllInterviwsService(interviewerId: Types.ObjectId | String, query: IListInterviewsQuery): Promise<IListInterviews>
+    - getInterviewService(InterviewId: Types.ObjectId | String, query?: IGetInterviewQuery): Promise<IGetInterview>
+    - updateInterviewService(InterviewId: Types.ObjectId | String, payload: IUpdateInterview, interviewerId: String): Promise<Interview>
+    - cancelInterview(InterviewId: String, payload: ICancelInterview, interviewerId: String): Promise<Interview>
+    - archiveInterview(InterviewId: String, interviewerId: String): Promise<Interview>
+    - deleteInterview(InterviewId: String, interviewerId: String): Promise<IDeleteInterviewResult>
+    - restoreInterview(InterviewId: String, interviewerId: String): Promise<Interview>
+    - purgeInterview(InterviewId: Types.ObjectId | String, cutoff: Date): Promise<boolean>
+    - getPurgeTime(deletedAt: Date): Date
     - getCandidateTranscript(InterviewId: String, CandidateId: String, interviewerId: String): Promise<IGetCandidateTranscript>
     - generateInterviewSummaryExcel(InterviewId: String, interviewerId: String): Promise<Buffer>
     - generateCandidateLinkExcel(InterviewId: String, interviewerId: String): Promise<Buffer>
 */
 
 class InterviewService {
+    // How long a deleted interview can still be restored before it is purged
+    public readonly purgeAfterDays: number = parseInt(process.env.INTERVIEW_PURGE_DAYS || '30');
 
     /*
     @method createInterviewService
     @description: This method creates a new interview. This method is the one that creates an interview, and also creates candidates for the interview. This method accepts the data to be stored about interview, and a list of candidate emails. It also needs interviewer id.
 
     First it saves the interview details in the interviews collection. Then using its id, creates an array using map() function to map interviewId with the candidate email and setting initial type.
-    Then it stores all the candidates using insertMany() method.
-
-    @params: payload: ICreateInterview, interviewerId: Types.ObjectId | String
-    @returns: Promise<Interview>
+    Each email is linked to the interviewer's person record for it (created if it is new), and then it stores all the candidates using insertMany() method.
+    Every candidate gets an access link. Only the hash of its token is stored, so the tokens are returned here and can't be read back later.
+    With send_invitations, every candidate is emailed an invitation with their link instead.
+
+    The fixed questions are the ones of the source followed by the picked bank questions, and AI generates the rest up to num_questions.
+    A mix that can't meet num_questions or the difficulty minimums is rejected with a BadRequestError.
+    With shared_question_set the whole set is generated here, and stays a Draft until the interviewer approves it.
+    With adaptive_questions the questions are still planned when each candidate starts, and adapted to their answers as they go.
+    Interviews created from a template or cloned from another interview pass the fixed question set and template id as the source.
+
+    @params: payload: ICreateInterview, interviewerId: Types.ObjectId | String, source: IInterviewSource
+    @returns: Promise<ICreateInterviewResult> - The interview and the access links of its candidates.
     */
-    public async createInterviewService(payload: ICreateInterview, interviewerId: Schema.Types.ObjectId | String): Promise<Interview> {
-        const { title, domain, status, scheduled_start_time, buffer_time_minutes, num_questions, candidate_emails } = payload;
+    public async createInterviewService(payload: ICreateInterview, interviewerId: Schema.Types.ObjectId | String, source: IInterviewSource = {}): Promise<ICreateInterviewResult> {
+        const { title, domain, scheduled_start_time, buffer_time_minutes, num_questions, minutes_per_question, candidate_emails, send_invitations } = payload;
+
+        let questions: IInterviewQuestion[] = [
+            ...(source.questions || []),
+            ...await questionBankService.toInterviewQuestions(payload.bank_question_ids || [], interviewerId),
+        ];
+        const min_per_difficulty = payload.min_per_difficulty || source.min_per_difficulty || {};
+        const mixError: string | null = getQuestionMixError(num_questions, questions, min_per_difficulty);
+        if (mixError) throw new BadRequestError(mixError);
+
+        // A shared set is generated now, before the transaction, so it isn't held open while we wait for AI
+        const shared_question_set: boolean = payload.shared_question_set ?? source.shared_question_set ?? false;
+        if (shared_question_set) {
+            questions = await questionSetService.generateQuestionSet(domain, num_questions, questions, min_per_difficulty);
+        }
 
         const session = await mongoose.startSession();
         try {
@@ -50,26 +98,55 @@ class InterviewService {
             const newInterviews: Interview[] = await InterviewModel.create([{
                 title,
                 domain,
-                status,
+                status: interviewStatus.SCHEDULED,
                 scheduled_start_time,
                 buffer_time_minutes,
                 num_questions,
+                minutes_per_question,
+                questions,
+                min_per_difficulty,
+                shared_question_set,
+                question_set_status: shared_question_set ? questionSetStatus.DRAFT : null,
+                randomize_question_order: payload.randomize_question_order ?? source.randomize_question_order ?? false,
+                adaptive_questions: payload.adaptive_questions ?? source.adaptive_questions ?? false,
+                max_follow_ups: payload.max_follow_ups ?? source.max_follow_ups,
+                max_follow_ups_per_question: payload.max_follow_ups_per_question ?? source.max_follow_ups_per_question,
+                template_id: source.template_id || null,
                 interviewerId: interviewerId
             }], { session });
 
             if (!newInterviews) throw new Error("Interview not created");
 
-            const candidatesToCreate = candidate_emails.map((email: string) => ({
+            // Candidates are unique per interview, so the same email listed twice is invited once
+            const emails: string[] = [...new Set(candidate_emails.map((email: string) => email.trim().toLowerCase()))];
+            const personIds = await personService.linkCandidates(interviewerId, emails.map((email) => ({ email })), session);
+
+            const accessLinks = emails.map(() => generateAccessLink(newInterviews[0]));
+            const candidatesToCreate = emails.map((email: string, index: number) => ({
                 interview_id: newInterviews[0]._id,
+                person_id: personIds.get(email),
                 email,
-                access_link_token: crypto.randomBytes(20).toString('hex'),
+                ...accessLinks[index].fields,
                 status: interviewStatus.SCHEDULED
             }))
 
-            await CandidateModel.insertMany(candidatesToCreate, { session });
+            const candidates = await CandidateModel.insertMany(candidatesToCreate, { session });
 
             await session.commitTransaction();
-            return newInterviews[0];
+
+            // Each invitation issues a new link, so the ones created above are not returned
+            if (send_invitations) {
+                await notificationService.queueInvitations(candidates);
+                return { interview: newInterviews[0], access_links: [] };
+            }
+
+            const access_links: IAccessLink[] = candidates.map((candidate, index) => ({
+                candidate_id: (candidate._id as Types.ObjectId).toString(),
+                email: candidate.email,
+                access_link_token: accessLinks[index].token,
+                expires_at: accessLinks[index].fields.access_link_expires_at,
+            }));
+            return { interview: newInterviews[0], access_links };
         } catch (error: unknown) {
             await session.abortTransaction();
             throw error;
@@ -78,19 +155,136 @@ class InterviewService {
         }
     }
 
+    /*
+    @method cloneInterview
+    @description: Creates a new interview with the same settings and question set as an existing one, at a new start time.
+    The title and candidate emails default to the ones of the cloned interview, so a recurring interview can be rerun with only a start time,
+    which must be in the future.
+    The interview can be cloned in any status, and the new one starts as Scheduled with fresh candidates.
+    A shared question set is copied as it is, but has to be approved again for the new interview.
+
+    @params: InterviewId: String, payload: ICloneInterview, interviewerId: String
+    @returns: Promise<ICreateInterviewResult> - The new interview and the access links of its candidates.
+    */
+    public async cloneInterview(InterviewId: String, payload: ICloneInterview, interviewerId: String): Promise<ICreateInterviewResult> {
+        if (!Types.ObjectId.isValid(InterviewId.toString())) throw new BadRequestError("Invalid interview ID");
+
+        const interview: Interview | null = await InterviewModel.findById(InterviewId);
+        if (!interview) throw new NotFoundError(`Interview with ID ${InterviewId} not found.`);
+        if (interview.interviewerId.toString() !== interviewerId.toString()) {
+            throw new ForbiddenError('You are not authorized to clone this interview.');
+        }
+        if (new Date(payload.scheduled_start_time).getTime() <= Date.now()) {
+            throw new BadRequestError("Scheduled start time must be in the future");
+        }
+
+        let candidate_emails: string[] | undefined = payload.candidate_emails;
+        if (!candidate_emails) {
+            const candidates: Candidate[] = await CandidateModel.find({ interview_id: interview._id }).select('email');
+            candidate_emails = candidates.map((candidate) => candidate.email);
+        }
+        if (candidate_emails.length === 0) throw new BadRequestError("The interview has no candidates to copy, pass candidate_emails");
+
+        return await this.createInterviewService({
+            title: payload.title || interview.title,
+            domain: interview.domain,
+            scheduled_start_time: payload.scheduled_start_time,
+            buffer_time_minutes: interview.buffer_time_minutes,
+            num_questions: interview.num_questions,
+            minutes_per_question: interview.minutes_per_question,
+            candidate_emails: candidate_emails as [string, ...string[]],
+            send_invitations: payload.send_invitations,
+        }, interview.interviewerId, {
+            questions: interview.questions,
+            min_per_difficulty: interview.min_per_difficulty,
+            shared_question_set: interview.shared_question_set,
+            randomize_question_order: interview.randomize_question_order,
+            adaptive_questions: interview.adaptive_questions,
+            max_follow_ups: interview.max_follow_ups,
+            max_follow_ups_per_question: interview.max_follow_ups_per_question,
+            template_id: interview.template_id,
+        });
+    }
+
     /*
     @method getAllInterviwsService
-    @description: This method retrieves all interviews that belong to a particular interviewer. It takes the interviewer’s ID and fetches all the interviews associated with that ID from the database.
+    @description: This method retrieves one page of the interviews that belong to a particular interviewer.
 
-    It queries the `InterviewModel` collection using the interviewer’s ID and returns the list of interviews as an array. If no interviews exist for the given ID, it simply returns an empty array.
+    The interviews can be filtered by status (any of a list), domain (exact, case-insensitive), a range of scheduled_start_time
+    and a part of the title, and sorted by scheduled_start_time, created_at or title. Ties are broken by id, so pages stay stable.
+    Archived and deleted interviews are left out, unless the view asks for exactly those.
+    Each interview in the page comes with the number of its candidates and how many of them have completed.
+    It runs as a single aggregation, which returns the page and the total count of matching interviews together.
 
-    @params: interviewerId: Types.ObjectId | String
-    @returns: Promise<Interview[]> - Returns an array of Interview objects belonging to the interviewer.
+    @params: interviewerId: Types.ObjectId | String, query: IListInterviewsQuery
+    @returns: Promise<IListInterviews> - Returns the page of interviews along with the page number, page size, total count and total pages.
     */
-    public async getAllInterviwsService(interviewerId: Schema.Types.ObjectId | String): Promise<Interview[]> {
+    public async getAllInterviwsService(interviewerId: Schema.Types.ObjectId | String, query: IListInterviewsQuery): Promise<IListInterviews> {
         try {
-            const interviews: Interview[] = await InterviewModel.find({ interviewerId: interviewerId });
-            return interviews;
+            const { page, limit, status, domain, from, to, search, sort, order, view } = query;
+            const escape = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+            const filter: Record<string, unknown> = { interviewerId: new Types.ObjectId(interviewerId.toString()) };
+            if (view === 'deleted') {
+                filter.deleted_at = { $ne: null };
+            } else {
+                filter.deleted_at = null;
+                filter.archived_at = view === 'archived' ? { $ne: null } : null;
+            }
+            if (status) filter.status = { $in: status };
+            if (domain) filter.domain = { $regex: `^${escape(domain)}$`, $options: 'i' };
+            if (search) filter.title = { $regex: escape(search), $options: 'i' };
+            if (from || to) {
+                const range: Record<string, Date> = {};
+                if (from) range.$gte = from;
+                if (to) range.$lte = to;
+                filter.scheduled_start_time = range;
+            }
+
+            const direction = order === 'asc' ? 1 : -1;
+            const [result] = await InterviewModel.aggregate<{ interviews: IInterviewListItem[], total: { count: number }[] }>([
+                { $match: filter },
+                { $facet: {
+                    interviews: [
+                        { $sort: { [sort]: direction, _id: direction } },
+                        { $skip: (page - 1) * limit },
+                        { $limit: limit },
+                        { $lookup: {
+                            from: CandidateModel.collection.name,
+                            localField: '_id',
+                            foreignField: 'interview_id',
+                            pipeline: [{ $project: { status: 1 } }],
+                            as: 'candidates'
+                        } },
+                        { $project: {
+                            title: 1,
+                            domain: 1,
+                            status: 1,
+                            scheduled_start_time: 1,
+                            buffer_time_minutes: 1,
+                            num_questions: 1,
+                            minutes_per_question: 1,
+                            created_at: 1,
+                            archived_at: 1,
+                            deleted_at: 1,
+                            candidates_total: { $size: '$candidates' },
+                            candidates_completed: {
+                                $size: { $filter: { input: '$candidates', cond: { $eq: ['$$this.status', interviewStatus.COMPLETED] } } }
+                            },
+                        } },
+                    ],
+                    total: [{ $count: 'count' }],
+                } },
+            ]);
+
+            const total: number = result.total[0]?.count ?? 0;
+            return {
+                interviews: result.interviews,
+                page,
+                limit,
+                total,
+                total_pages: Math.ceil(total / limit),
+            };
         } catch (error: unknown) {
             throw error;
         }
@@ -101,25 +295,100 @@ class InterviewService {
     @description: This method retrieves the details of a specific interview using its unique Interview ID.
 
     It performs a database lookup using `InterviewModel.findById()` to find the interview document. If no interview is found with the provided ID, it throws a `NotFoundError` with an appropriate message.
-    Otherwise, it returns the interview object.
+    Otherwise, it returns the interview object with its candidates and the delivery status of the notifications sent to them.
+    With query.recommendation only the candidates with one of those hiring recommendations are returned.
 
-    @params: InterviewId: Types.ObjectId | String
+    @params: InterviewId: Types.ObjectId | String, query: IGetInterviewQuery
     @returns: Promise<IGetInterview> - Returns the interview document if found, otherwise throws an error.
     */
-    public async getInterviewService(InterviewId: mongoose.Types.ObjectId | String): Promise<IGetInterview> {
+    public async getInterviewService(InterviewId: mongoose.Types.ObjectId | String, query: IGetInterviewQuery = {}): Promise<IGetInterview> {
         try {
             const interview: Interview | null = await InterviewModel.findById(InterviewId);
             if (!interview) throw new NotFoundError("Interview not found");
 
             const interviewId: Schema.Types.ObjectId = interview._id as Schema.Types.ObjectId;
-            const candidates: Candidate[] = await CandidateModel.find({ interview_id: interviewId });
-            return { interview, candidates };
+            const candidates: Candidate[] = await CandidateModel.find({
+                interview_id: interviewId,
+                ...(query.recommendation ? { recommendation: { $in: query.recommendation } } : {}),
+            });
+            const notifications = await notificationService.getDeliveryStatus(InterviewId);
+            return { interview, candidates, notifications };
 
         } catch (error: unknown) {
             throw error;
         }
     }
 
+    /*
+    @method updateInterviewService
+    @description: This service is used to update an interview. First we check if the interview exists and belongs to the interviewer, and that it is not archived or deleted.
+    While the interview is Scheduled, every field of IUpdateInterview can be changed, but the new start time must be in the future,
+    and not after the time slot of any candidate.
+    Once it has started (or is completed or cancelled), only the fields in fieldsEditableAfterStart can be changed, as the schedule and the
+    number of questions are already in use by the candidates' timers and transcripts.
+    A new num_questions must still fit the fixed questions and the difficulty minimums.
+
+    The update is conditional on the status we checked, so a lifecycle transition in between results in a ConflictError instead of
+    a schedule change on a started interview. A schedule change also moves the expiry of the candidates' access links.
+    On success 'interview:updated' is published, which is broadcast to connected dashboards.
+
+    @params: InterviewId: Types.ObjectId | String, payload: IUpdateInterview, interviewerId: String
+    @returns: Promise<Interview> - The updated interview.
+    */
+    public async updateInterviewService(InterviewId: Types.ObjectId | String, payload: IUpdateInterview, interviewerId: String): Promise<Interview> {
+        const interview: Interview | null = await InterviewModel.findById(InterviewId);
+        if (!interview) {
+            throw new NotFoundError(`Interview with ID ${InterviewId} not found.`);
+        }
+        if (interview.interviewerId.toString() !== interviewerId.toString()) {
+            throw new ForbiddenError('You are not authorized to update this interview.');
+        }
+        interviewLifecycleService.assertWritable(interview);
+
+        const fields = Object.keys(payload) as (keyof IUpdateInterview)[];
+        if (interview.status !== interviewStatus.SCHEDULED) {
+            const lockedFields = fields.filter((field) => !fieldsEditableAfterStart.includes(field));
+            if (lockedFields.length > 0) {
+                throw new BadRequestError(`Cannot update ${lockedFields.join(', ')} of an interview that is ${interview.status}`);
+            }
+        }
+        if (payload.scheduled_start_time && new Date(payload.scheduled_start_time).getTime() <= Date.now()) {
+            throw new BadRequestError("Scheduled start time must be in the future");
+        }
+        if (payload.scheduled_start_time && await CandidateModel.exists({ interview_id: interview._id, slot_start_time: { $lt: payload.scheduled_start_time } })) {
+            throw new BadRequestError("Some candidates have a time slot before the new start time, move their slots first");
+        }
+        if (payload.num_questions && interview.shared_question_set && payload.num_questions !== interview.num_questions) {
+            throw new BadRequestError("The interview has a shared question set, edit the question set to change the number of questions");
+        }
+        if (payload.adaptive_questions && interview.shared_question_set) {
+            throw new BadRequestError("A shared question set is asked as approved, it cannot have adaptive questions");
+        }
+        if (payload.num_questions) {
+            const mixError: string | null = getQuestionMixError(payload.num_questions, interview.questions, interview.min_per_difficulty);
+            if (mixError) throw new BadRequestError(mixError);
+        }
+
+        const updated: Interview | null = await InterviewModel.findOneAndUpdate(
+            { _id: interview._id, status: interview.status },
+            { $set: payload },
+            { new: true, runValidators: true }
+        );
+        if (!updated) throw new ConflictError("Interview status was changed by another request. Please try again.");
+
+        // Access links expire with the interview, so they follow its schedule
+        if (fields.some((field) => scheduleFields.includes(field))) {
+            await accessLinkService.refreshAccessLinkExpiry(updated);
+        }
+
+        eventBus.publish('interview:updated', {
+            interviewId: (updated._id as Types.ObjectId).toString(),
+            changes: payload,
+            updated_at: new Date(),
+        });
+        return updated;
+    }
+
     /*
     @method geenrateCandidateLinkExcel
     @Description: This service is used to fetch candidates list of an interview and convert it to excel file. We do that using the library exceljs. 
@@ -128,6 +397,9 @@ class InterviewService {
     Once its fetched, we use ExcelJS to create a new workbook and add a worksheet to it. Then we add columns to the worksheet. Then we loop through the candidates and add each candidate to the worksheet.
     Finally we return the buffer of the workbook.
 
+    Access link tokens are only stored as hashes, so the file shows the state of each link (Active, Revoked or Expired) and not the token.
+    New links to send out are issued with accessLinkService.rotateAccessLinks or regenerateAccessLink.
+
     @params: interviewId: Types.ObjectId | String, interviewerId: Types.ObjectId | String
     @returns: Promise<Buffer>
 
@@ -140,7 +412,7 @@ class InterviewService {
             const interview: Interview | null = await InterviewModel.findById(interviewId);
             if (!interview) throw new NotFoundError("Interview not found");
 
-            if (interview.interviewerId.toString() !== interviewerId.toString()) throw new Error("Unauthorized access");
+            if (interview.interviewerId.toString() !== interviewerId.toString()) throw new ForbiddenError("Unauthorized access");
 
             const candidates = await CandidateModel.find({ interview_id: interviewId });
             if (candidates.length == 0) throw new NotFoundError("Candidates not found");
@@ -149,14 +421,32 @@ class InterviewService {
             const workSheet = workbook.addWorksheet('Candidate Links');
 
             workSheet.columns = [
-                { header: 'Candidate Email', key: 'emial', width: 50 },
-                { header: 'Access Link Token', key: 'access_link_token', width: 50 },
+                { header: 'Candidate Email', key: 'email', width: 50 },
+                { header: 'Candidate Status', key: 'status', width: 20 },
+                { header: 'Start Window Opens At', key: 'start_window_opens_at', width: 30 },
+                { header: 'Start Window Closes At', key: 'start_window_closes_at', width: 30 },
+                { header: 'Own Slot', key: 'own_slot', width: 12 },
+                { header: 'Access Link', key: 'access_link_state', width: 20 },
+                { header: 'Issued At', key: 'access_link_issued_at', width: 30 },
+                { header: 'Expires At', key: 'access_link_expires_at', width: 30 },
             ]
 
+            const now = new Date();
             candidates.forEach((candidate) => {
+                const state: AccessLinkState = candidate.access_link_revoked_at
+                    ? 'Revoked'
+                    : candidate.status === interviewStatus.CANCELLED ? 'Cancelled'
+                    : candidate.access_link_expires_at <= now ? 'Expired' : 'Active';
+                const { opens_at, closes_at } = getStartWindow(interview, candidate);
                 workSheet.addRow({
-                    emial: candidate.email,
-                    access_link_token: candidate.access_link_token
+                    email: candidate.email,
+                    status: candidate.status,
+                    start_window_opens_at: opens_at,
+                    start_window_closes_at: closes_at,
+                    own_slot: candidate.slot_start_time ? 'Yes' : 'No',
+                    access_link_state: state,
+                    access_link_issued_at: candidate.access_link_issued_at,
+                    access_link_expires_at: candidate.access_link_expires_at
                 });
             });
 
@@ -174,7 +464,8 @@ class InterviewService {
     @method generateInterviewSummaryExcel
     @description: This service is used to generate interview summary excel file. We do that using the library exceljs.
 
-    First we check if interviewId is valid and it belongs to current interivewer. If true, then we fetch the details of the candidates of that interivew. Once its fetched, we use ExcelJS to create a new workbook and add a worksheet to it. Then we add columns to the worksheet. Then we loop through the candidates and add each candidate to the worksheet. Finally we return the buffer of the workbook.
+    First we check if interviewId is valid and it belongs to current interivewer. If true, then we fetch the details of the candidates of that interivew. Once its fetched, we use ExcelJS to create a new workbook and add a worksheet to it. Then we add columns to the worksheet. Then we loop through the candidates and add each candidate, with their final score, AI summary and hiring recommendation, to the worksheet.
+    A second worksheet lists every answer of every candidate, with its score and AI feedback. Finally we return the buffer of the workbook.
 
     @params: interviewId: Types.ObjectId | String, interviewerId: Types.ObjectId | String
     @returns: Promise<Buffer>
@@ -203,6 +494,7 @@ class InterviewService {
                 { header: 'Phone number', key: 'phone_number', width: 50 },
                 { header: "Final Score", key: "final_score", width: 50 },
                 { header: "AI Summary", key: "ai_summary", width: 50 },
+                { header: "Recommendation", key: "recommendation", width: 20 },
                 { header: "Completed At", key: "completed_at", width: 50 },
             ]
 
@@ -213,10 +505,35 @@ class InterviewService {
                     phone_number: candidate.phone_number,
                     final_score: candidate.final_score,
                     ai_summary: candidate.ai_summary,
+                    recommendation: candidate.recommendation,
                     completed_at: candidate.completed_at
                 });
             })
 
+            const answersSheet = workbook.addWorksheet('Answers');
+            answersSheet.columns = [
+                { header: "Candidate Email", key: "email", width: 50 },
+                { header: "Question #", key: "question_order", width: 12 },
+                { header: "Question", key: "question_text", width: 60 },
+                { header: "Answer", key: "answer_text", width: 60 },
+                { header: "Score", key: "score", width: 10 },
+                { header: "AI Feedback", key: "feedback", width: 60 },
+            ]
+
+            const emails: Map<string, string> = new Map(candidates.map((candidate) => [(candidate._id as Types.ObjectId).toString(), candidate.email]));
+            const transcripts: Transcript[] = await TranscriptModel.find({ candidate_id: { $in: candidates.map((candidate) => candidate._id) } })
+                .sort({ candidate_id: 1, question_order: 1 });
+            transcripts.forEach((transcript) => {
+                answersSheet.addRow({
+                    email: emails.get(transcript.candidate_id.toString()),
+                    question_order: transcript.question_order,
+                    question_text: transcript.question_text,
+                    answer_text: transcript.answer_text,
+                    score: transcript.score,
+                    feedback: transcript.feedback,
+                });
+            })
+
             const arrayBuffer : ArrayBuffer = await workbook.xlsx.writeBuffer();
             const buffer : Buffer = Buffer.from(arrayBuffer);
             return buffer;
@@ -230,7 +547,7 @@ class InterviewService {
     /*
     @method getCandidateTranscript
     @description: This service is used to get the initial transcript of the candidate.
-    First we check if interviewId is valid and belongs to the interviewer. If its ture, then we check if interview is scheduled or cancelled. If any one is true, then we throw error. Otherwise, we fetch the candidate and transcripts of that candidate. Then we return the candidate and transcripts. 
+    First we check if interviewId is valid and belongs to the interviewer. If its ture, then we check if interview is scheduled or cancelled. If any one is true, then we throw error. Otherwise, we fetch the candidate and transcripts of that candidate. Then we return the candidate, with their AI summary and hiring recommendation, and the transcripts, with the score, criteria scores and AI feedback of each answer. 
 
     @params: interviewId: string, candidateId: string, interviewerId: string
     @returns: Promise<IGetCandidateTranscript>
@@ -257,25 +574,119 @@ class InterviewService {
     }
 
 
+    /*
+    @method cancelInterview
+    @description: Cancels a Scheduled or In Progress interview, with an optional reason. The interview and every candidate who has not
+    finished it are marked Cancelled, their access links stop working, and connected dashboards and candidates are notified.
+    All the data is kept for auditing.
+
+    @params: InterviewId: String, payload: ICancelInterview, interviewerId: String
+    @returns: Promise<Interview> - The cancelled interview.
+    */
+    public async cancelInterview(InterviewId: String, payload: ICancelInterview, interviewerId: String): Promise<Interview> {
+        if (!Types.ObjectId.isValid(InterviewId.toString())) throw new BadRequestError("Invalid interview ID");
+
+        const interview: Interview | null = await InterviewModel.findById(InterviewId);
+        if (!interview) throw new NotFoundError(`Interview with ID ${InterviewId} not found.`);
+        if (interview.interviewerId.toString() !== interviewerId.toString()) {
+            throw new ForbiddenError('You are not authorized to cancel this interview.');
+        }
+        interviewLifecycleService.assertWritable(interview);
+
+        return await interviewLifecycleService.cancel(interview, payload?.reason || '');
+    }
+
+    /*
+    @method archiveInterview
+    @description: Archives a Completed or Cancelled interview. It is hidden from the interviews list and becomes read-only,
+    but its results can still be viewed and downloaded, and it can be cloned. restoreInterview brings it back.
+
+    @params: InterviewId: String, interviewerId: String
+    @returns: Promise<Interview> - The archived interview.
+    */
+    public async archiveInterview(InterviewId: String, interviewerId: String): Promise<Interview> {
+        const interview: Interview = await this.getOwnedInterview(InterviewId, interviewerId);
+        if (interview.deleted_at) throw new BadRequestError("The interview is deleted, restore it first");
+        if (interview.archived_at) throw new BadRequestError("The interview is already archived");
+        if (interview.status !== interviewStatus.COMPLETED && interview.status !== interviewStatus.CANCELLED) {
+            throw new BadRequestError(`Only Completed or Cancelled interviews can be archived, this one is ${interview.status}`);
+        }
+
+        const updated: Interview | null = await InterviewModel.findOneAndUpdate(
+            { _id: interview._id, archived_at: null, deleted_at: null },
+            { $set: { archived_at: new Date() } },
+            { new: true }
+        );
+        if (!updated) throw new ConflictError("The interview was changed by another request. Please try again.");
+        return updated;
+    }
+
     /*
     @method deleteInterview
-    @description: This service is used to delete the interview. First we check if the interviewer is authorized to delete the interview. If its true, then we delete the interview.
+    @description: Deletes an interview softly. It is hidden from the interviews list and becomes read-only, and after purgeAfterDays
+    the purge task deletes it for good, with its candidates, transcripts and notifications. Until then restoreInterview brings it back.
+    A Scheduled or In Progress interview has to be cancelled first, so no candidate is left in an interview that is going away.
 
-    @params: interviewId: string, interviewerId: string
-    @returns: Promise<void>
+    @params: interviewId: String, interviewerId: String
+    @returns: Promise<IDeleteInterviewResult> - The deleted interview and when it will be purged.
     */
+    public async deleteInterview(interviewId: String, interviewerId: String): Promise<IDeleteInterviewResult> {
+        const interview: Interview = await this.getOwnedInterview(interviewId, interviewerId);
+        if (interview.deleted_at) throw new BadRequestError("The interview is already deleted");
+        if (interview.status === interviewStatus.SCHEDULED || interview.status === interviewStatus.INPROGRESS) {
+            throw new BadRequestError("Cancel the interview before deleting it");
+        }
 
-    public async deleteInterview(interviewId: String, interviewerId: String): Promise<void> {
+        const updated: Interview | null = await InterviewModel.findOneAndUpdate(
+            { _id: interview._id, deleted_at: null },
+            { $set: { deleted_at: new Date() } },
+            { new: true }
+        );
+        if (!updated) throw new ConflictError("The interview was changed by another request. Please try again.");
+        return { interview: updated, purge_at: this.getPurgeTime(updated.deleted_at as Date) };
+    }
+
+    /*
+    @method restoreInterview
+    @description: Brings back an archived or deleted interview that has not been purged yet. It shows in the interviews list again
+    and can be changed as before.
+
+    @params: InterviewId: String, interviewerId: String
+    @returns: Promise<Interview> - The restored interview.
+    */
+    public async restoreInterview(InterviewId: String, interviewerId: String): Promise<Interview> {
+        const interview: Interview = await this.getOwnedInterview(InterviewId, interviewerId);
+        if (!interview.archived_at && !interview.deleted_at) {
+            throw new BadRequestError("The interview is neither archived nor deleted");
+        }
+
+        const updated: Interview | null = await InterviewModel.findOneAndUpdate(
+            { _id: interview._id, $or: [{ archived_at: { $ne: null } }, { deleted_at: { $ne: null } }] },
+            { $set: { archived_at: null, deleted_at: null } },
+            { new: true }
+        );
+        if (!updated) throw new NotFoundError(`Interview with ID ${InterviewId} not found.`);
+        return updated;
+    }
+
+    /*
+    @method purgeInterview
+    @description: Deletes a soft deleted interview for good, with its candidates, their transcripts, notifications and scoring jobs, in one transaction.
+    Nothing is deleted unless the interview is still deleted since cutoff or earlier, so an interview restored (or restored and deleted again)
+    in the meantime keeps its restore window. Used by the purge task once the purge window has passed.
+
+    @params: interviewId: Types.ObjectId | String, cutoff: Date
+    @returns: Promise<boolean> - Whether the interview was purged.
+    */
+    public async purgeInterview(interviewId: Types.ObjectId | String, cutoff: Date): Promise<boolean> {
         const session = await mongoose.startSession();
         try {
             session.startTransaction();
 
-            const interview = await InterviewModel.findById(interviewId).session(session);
+            const interview = await InterviewModel.findOneAndDelete({ _id: interviewId, deleted_at: { $ne: null, $lte: cutoff } }).session(session);
             if (!interview) {
-                throw new NotFoundError(`Interview with ID ${interviewId} not found.`);
-            }
-            if (interview.interviewerId.toString() !== interviewerId.toString()) {
-                throw new ForbiddenError('You are not authorized to delete this interview.');
+                await session.abortTransaction();
+                return false;
             }
 
             // Find all candidates associated with the interview
@@ -285,15 +696,17 @@ class InterviewService {
             if (candidateIds.length > 0) {
                 // Delete all transcripts for those candidates
                 await TranscriptModel.deleteMany({ candidate_id: { $in: candidateIds } }).session(session);
-                
+
                 // Delete all the candidates
                 await CandidateModel.deleteMany({ _id: { $in: candidateIds } }).session(session);
             }
 
-            // Finally, delete the interview itself
-            await InterviewModel.findByIdAndDelete(interviewId).session(session);
+            // And the notifications and scoring jobs of the interview
+            await NotificationModel.deleteMany({ interview_id: interviewId }).session(session);
+            await JobModel.deleteMany({ interview_id: interviewId }).session(session);
 
             await session.commitTransaction();
+            return true;
         } catch (error) {
             await session.abortTransaction();
             throw error;
@@ -301,6 +714,28 @@ class InterviewService {
             await session.endSession();
         }
     }
+
+    /*
+    @method getPurgeTime
+    @description: Returns when an interview deleted at the given time is purged.
+
+    @params: deletedAt: Date
+    @returns: Date
+    */
+    public getPurgeTime(deletedAt: Date): Date {
+        return new Date(deletedAt.getTime() + this.purgeAfterDays * 24 * 60 * 60 * 1000);
+    }
+
+    private async getOwnedInterview(InterviewId: String, interviewerId: String): Promise<Interview> {
+        if (!Types.ObjectId.isValid(InterviewId.toString())) throw new BadRequestError("Invalid interview ID");
+
+        const interview: Interview | null = await InterviewModel.findById(InterviewId);
+        if (!interview) throw new NotFoundError(`Interview with ID ${InterviewId} not found.`);
+        if (interview.interviewerId.toString() !== interviewerId.toString()) {
+            throw new ForbiddenError('You are not authorized to access this interview.');
+        }
+        return interview;
+    }
 }
 
 const interviewService = new InterviewService();
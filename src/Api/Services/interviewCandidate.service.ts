@@ -0,0 +1,367 @@
+import mongoose, { Schema, Types } from 'mongoose';
+import { InterviewModel, Interview } from '../../Models/Interview.model.js';
+import { CandidateModel, Candidate } from '../../Models/Candidate.model.js';
+import { JobModel } from '../../Models/Job.model.js';
+import { PersonModel } from '../../Models/Person.model.js';
+import { interviewStatus, jobStatus, jobType } from '../../Utils/types.js';
+import { getCandidateStartWindow, getStartWindow, ICandidateSlot } from '../../Utils/timeUtils.js';
+import { generateAccessLink, getAccessLinkExpiry } from '../../Utils/accessLinkUtils.js';
+import { IAccessLink } from '../../Schemas/accessLink.schema.js';
+import { parseCandidateSheet, SpreadsheetFormat } from '../../Utils/spreadsheetUtils.js';
+import {
+    candidateRowSchema,
+    IAddCandidates,
+    IAddCandidatesResult,
+    ICandidateRow,
+    IImportCandidatesResult,
+    IImportRowReport,
+    IUpdateCandidate
+} from '../../Schemas/interviewCandidate.schema.js';
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from '../../Utils/ErrorClass.js';
+import eventBus from '../../Events/eventBus.js';
+import interviewLifecycleService from './interviewLifecycle.service.js';
+import personService from './person.service.js';
+import notificationService from './notification.service.js';
+
+/*
+@class InterviewCandidateService
+Description: This class lets an interviewer manage the candidates of an interview after it was created. It allows adding candidates,
+updating their name, phone number and time slot, and removing candidates who have not started yet. Candidates can also be imported in bulk
+from an .xlsx or .csv file, with a dry run that only returns the per-row report.
+Added and removed candidates are published on the event bus, so connected dashboards update without a reload.
+
+Dependencies:
+    - accessLinkUtils: Utility for generating the access links of new candidates.
+    - parseCandidateSheet: Reads the rows of an uploaded spreadsheet.
+    - DB models: Mongoose models for interviews, candidates and jobs.
+    - eventBus: To publish 'candidates:added' and 'candidate:removed'.
+    - notificationService: To queue the invitations of added candidates.
+
+Methods:
+    - addCandidates(interviewId: String, payload: IAddCandidates, interviewerId: String): Promise<IAddCandidatesResult>
+    - importCandidates(interviewId: String, file: Buffer, format: SpreadsheetFormat, dryRun: boolean, interviewerId: String): Promise<IImportCandidatesResult>
+    - updateCandidate(interviewId: String, candidateId: String, payload: IUpdateCandidate, interviewerId: String): Promise<Candidate>
+    - removeCandidate(interviewId: String, candidateId: String, interviewerId: String): Promise<void>
+*/
+class InterviewCandidateService {
+    private readonly maxImportRows: number = parseInt(process.env.IMPORT_MAX_ROWS || '1000');
+
+    /*
+    @method addCandidates
+    @description: Adds candidates to an existing interview. Each new candidate gets a fresh access link token and starts as Scheduled.
+    Candidates can only be added while they can still start the interview, so the interview must not be completed or cancelled
+    and the start window of each candidate must still be open. That is the candidate's own time slot if they have one, otherwise the interview's.
+    The request is rejected as a whole if an email appears twice in it (BadRequestError) or is already a candidate of the interview (ConflictError).
+    With send_invitations, every new candidate is emailed an invitation with their link instead.
+
+    @params: interviewId: String, payload: IAddCandidates, interviewerId: String
+    @returns: Promise<IAddCandidatesResult> - The created candidates and their access links. This is the only time the link tokens are available.
+    */
+    public async addCandidates(interviewId: String, payload: IAddCandidates, interviewerId: String): Promise<IAddCandidatesResult> {
+        const interview: Interview = await this.getOwnedInterview(interviewId, interviewerId);
+        this.assertCanAddCandidates(interview);
+
+        const slotErrors: string[] = payload.candidates
+            .map((candidate) => this.getSlotError(interview, candidate))
+            .filter((error, index, errors): error is string => error !== null && errors.indexOf(error) === index);
+        if (slotErrors.length > 0) throw new BadRequestError(slotErrors.join('. '));
+
+        const candidates = payload.candidates.map((candidate) => ({ ...candidate, email: candidate.email.trim().toLowerCase() }));
+        const emails: string[] = candidates.map((candidate) => candidate.email);
+        const repeated: string[] = emails.filter((email, index) => emails.indexOf(email) !== index);
+        if (repeated.length > 0) {
+            throw new BadRequestError(`Duplicate emails in request: ${[...new Set(repeated)].join(', ')}`);
+        }
+
+        const existing: Candidate[] = await CandidateModel.find({ interview_id: interview._id, email: { $in: emails } });
+        if (existing.length > 0) {
+            throw new ConflictError(`Already candidates of this interview: ${existing.map((c) => c.email).join(', ')}`);
+        }
+
+        const result: IAddCandidatesResult = await this.insertCandidates(interview, candidates);
+
+        // Each invitation issues a new link, so the ones created above are not returned
+        if (payload.send_invitations) {
+            await notificationService.queueInvitations(result.candidates);
+            return { candidates: result.candidates, access_links: [] };
+        }
+        return result;
+    }
+
+    /*
+    @method importCandidates
+    @description: Imports candidates from an uploaded .xlsx or .csv file. Every row is checked and reported on its own:
+        - invalid: the email is missing or malformed, or the name or phone is too long.
+        - duplicate: the email is repeated earlier in the file, or is already a candidate of the interview.
+        - valid: the row can be imported.
+    With dryRun the report is returned without creating anything, so the recruiter can fix the file first.
+    Otherwise all valid rows are created in one transaction, the same way addCandidates does, and reported as created,
+    and the access links of the created candidates are returned.
+    The same rules as addCandidates apply to the interview (not completed or cancelled, start window open).
+    Imported candidates have no time slot of their own, so the interview's start window must be open.
+
+    @params: interviewId: String, file: Buffer, format: SpreadsheetFormat, dryRun: boolean, interviewerId: String
+    @returns: Promise<IImportCandidatesResult> - The per-row report and totals.
+    */
+    public async importCandidates(interviewId: String, file: Buffer, format: SpreadsheetFormat, dryRun: boolean, interviewerId: String): Promise<IImportCandidatesResult> {
+        const interview: Interview = await this.getOwnedInterview(interviewId, interviewerId);
+        this.assertCanAddCandidates(interview);
+        const windowError: string | null = this.getSlotError(interview, null);
+        if (windowError) throw new BadRequestError(windowError);
+
+        const sheetRows = await parseCandidateSheet(file, format);
+        if (sheetRows.length === 0) throw new BadRequestError("The uploaded file has no candidate rows");
+        if (sheetRows.length > this.maxImportRows) {
+            throw new BadRequestError(`The uploaded file has ${sheetRows.length} rows, the maximum is ${this.maxImportRows}`);
+        }
+
+        const rows: IImportRowReport[] = sheetRows.map((sheetRow) => ({ ...sheetRow, email: sheetRow.email.toLowerCase(), status: 'valid', errors: [] }));
+
+        const existing: Candidate[] = await CandidateModel.find({
+            interview_id: interview._id,
+            email: { $in: rows.map((row) => row.email).filter(Boolean) }
+        });
+        const existingEmails = new Set<string>(existing.map((c) => c.email));
+        const firstRowOf = new Map<string, number>();
+
+        const toCreate: ICandidateRow[] = [];
+        rows.forEach((row) => {
+            const parsed = candidateRowSchema.safeParse({
+                email: row.email,
+                full_name: row.full_name || undefined,
+                phone_number: row.phone_number || undefined,
+            });
+            if (!parsed.success) {
+                row.status = 'invalid';
+                row.errors = parsed.error.issues.map((issue) => issue.message);
+                return;
+            }
+
+            if (firstRowOf.has(row.email)) {
+                row.status = 'duplicate';
+                row.errors.push(`Same email as row ${firstRowOf.get(row.email)}`);
+                return;
+            }
+            firstRowOf.set(row.email, row.row);
+
+            if (existingEmails.has(row.email)) {
+                row.status = 'duplicate';
+                row.errors.push('Already a candidate of this interview');
+                return;
+            }
+            toCreate.push(parsed.data);
+        });
+
+        let access_links: IAccessLink[] = [];
+        if (!dryRun && toCreate.length > 0) {
+            access_links = (await this.insertCandidates(interview, toCreate)).access_links;
+            rows.forEach((row) => {
+                if (row.status === 'valid') row.status = 'created';
+            });
+        }
+
+        return {
+            dry_run: dryRun,
+            total_rows: rows.length,
+            valid_rows: toCreate.length,
+            invalid_rows: rows.filter((row) => row.status === 'invalid').length,
+            duplicate_rows: rows.filter((row) => row.status === 'duplicate').length,
+            created: access_links.length,
+            rows,
+            access_links,
+        };
+    }
+
+    /*
+    @method updateCandidate
+    @description: Updates the full_name and/or phone_number of a candidate of the interview, and of their person record.
+    These are contact details only, so they can be changed at any point of the interview.
+    The time slot (slot_start_time, slot_window_minutes) can only be changed while the candidate has not started, and the new slot
+    must not have ended yet. A null slot_start_time moves the candidate back to the interview's start window.
+    The expiry of the candidate's access link follows the slot, and the update is conditional on the Scheduled status,
+    so a candidate who starts at the same moment keeps the slot they started in.
+
+    @params: interviewId: String, candidateId: String, payload: IUpdateCandidate, interviewerId: String
+    @returns: Promise<Candidate> - The updated candidate.
+    */
+    public async updateCandidate(interviewId: String, candidateId: String, payload: IUpdateCandidate, interviewerId: String): Promise<Candidate> {
+        const interview: Interview = await this.getOwnedInterview(interviewId, interviewerId);
+        if (!Types.ObjectId.isValid(candidateId.toString())) throw new BadRequestError("Invalid candidate ID");
+
+        const { slot_start_time, slot_window_minutes, ...contact } = payload;
+        const changesSlot: boolean = slot_start_time !== undefined || slot_window_minutes !== undefined;
+        const filter: Record<string, unknown> = { _id: candidateId, interview_id: interviewId };
+        const changes: Record<string, unknown> = { ...contact };
+
+        if (changesSlot) {
+            const current: Candidate | null = await CandidateModel.findOne(filter);
+            if (!current) throw new NotFoundError(`Candidate with ID ${candidateId} not found in this interview.`);
+            if (current.status !== interviewStatus.SCHEDULED) {
+                throw new BadRequestError(`Cannot change the time slot of a candidate who is ${current.status}`);
+            }
+
+            const slot: ICandidateSlot = {
+                slot_start_time: slot_start_time !== undefined ? slot_start_time : current.slot_start_time,
+                slot_window_minutes: slot_window_minutes !== undefined ? slot_window_minutes : current.slot_window_minutes,
+            };
+            // Without a start time there is no slot, so its window length goes too
+            if (!slot.slot_start_time) {
+                if (slot_window_minutes) throw new BadRequestError("slot_window_minutes needs a slot_start_time");
+                slot.slot_window_minutes = null;
+            }
+            const slotError: string | null = this.getSlotError(interview, slot);
+            if (slotError) throw new BadRequestError(slotError);
+
+            Object.assign(changes, slot, { access_link_expires_at: getAccessLinkExpiry(interview, slot) });
+            filter.status = interviewStatus.SCHEDULED;
+        }
+
+        const candidate: Candidate | null = await CandidateModel.findOneAndUpdate(
+            filter,
+            { $set: changes },
+            { new: true, runValidators: true }
+        );
+        if (!candidate) {
+            if (changesSlot) throw new ConflictError("The candidate has just started the interview, their time slot can no longer be changed");
+            throw new NotFoundError(`Candidate with ID ${candidateId} not found in this interview.`);
+        }
+
+        // Keep the person record on the latest contact details
+        if (candidate.person_id && Object.keys(contact).length > 0) await PersonModel.updateOne({ _id: candidate.person_id }, { $set: contact });
+
+        return candidate;
+    }
+
+    /*
+    @method removeCandidate
+    @description: Removes a candidate who has not started the interview. The delete is conditional on the Scheduled status,
+    so a candidate who starts at the same moment is not removed. A finalization job already queued for the candidate (as a no-show)
+    is removed along with it.
+
+    @params: interviewId: String, candidateId: String, interviewerId: String
+    @returns: Promise<void>
+    */
+    public async removeCandidate(interviewId: String, candidateId: String, interviewerId: String): Promise<void> {
+        await this.getOwnedInterview(interviewId, interviewerId);
+        if (!Types.ObjectId.isValid(candidateId.toString())) throw new BadRequestError("Invalid candidate ID");
+
+        const session = await mongoose.startSession();
+        try {
+            session.startTransaction();
+
+            const candidate: Candidate | null = await CandidateModel.findOne({ _id: candidateId, interview_id: interviewId }).session(session);
+            if (!candidate) throw new NotFoundError(`Candidate with ID ${candidateId} not found in this interview.`);
+
+            const result = await CandidateModel.deleteOne({ _id: candidate._id, status: interviewStatus.SCHEDULED }).session(session);
+            if (result.deletedCount === 0) {
+                throw new BadRequestError(`Cannot remove a candidate who is ${candidate.status}`);
+            }
+
+            await JobModel.deleteMany({
+                unique_key: `${jobType.FINALIZE_CANDIDATE}:${candidateId}`,
+                status: { $in: [jobStatus.PENDING, jobStatus.DEAD] }
+            }).session(session);
+
+            await session.commitTransaction();
+        } catch (error: unknown) {
+            await session.abortTransaction();
+            throw error;
+        } finally {
+            await session.endSession();
+        }
+
+        eventBus.publish('candidate:removed', { interviewId: interviewId.toString(), candidateId: candidateId.toString() });
+    }
+
+    // Candidates can only be added while they can still start the interview, see getSlotError for their start window
+    private assertCanAddCandidates(interview: Interview): void {
+        if (interview.status === interviewStatus.COMPLETED || interview.status === interviewStatus.CANCELLED) {
+            throw new BadRequestError(`Cannot add candidates to an interview that is ${interview.status}`);
+        }
+    }
+
+    // Returns why a candidate with this slot (or without one) could not start the interview anymore, or null if they still can.
+    // A slot must not start before the interview does, so the interview is In Progress whenever a candidate can start.
+    private getSlotError(interview: Interview, slot: Partial<ICandidateSlot> | null): string | null {
+        if (!slot?.slot_start_time) {
+            if (getStartWindow(interview).closes_at <= new Date()) return "Cannot add candidates after the start window has closed";
+            return null;
+        }
+        if (slot.slot_start_time < interview.scheduled_start_time) {
+            return "A time slot cannot start before the scheduled start time of the interview";
+        }
+        const candidateSlot: ICandidateSlot = { slot_start_time: slot.slot_start_time, slot_window_minutes: slot.slot_window_minutes ?? null };
+        if (getStartWindow(interview, candidateSlot).closes_at <= new Date()) return "A time slot has already ended";
+        return null;
+    }
+
+    // Creates the candidates with fresh access links and links them to their persons, in one transaction,
+    // so a failing email doesn't leave the others added. Publishes 'candidates:added'.
+    private async insertCandidates(interview: Interview, candidates: ICandidateRow[]): Promise<IAddCandidatesResult> {
+        const accessLinks = candidates.map((candidate) => generateAccessLink(interview, {
+            slot_start_time: candidate.slot_start_time ?? null,
+            slot_window_minutes: candidate.slot_window_minutes ?? null,
+        }));
+        let created: Candidate[];
+        const session = await mongoose.startSession();
+        try {
+            session.startTransaction();
+            const personIds = await personService.linkCandidates(interview.interviewerId, candidates, session);
+            created = await CandidateModel.create(candidates.map((candidate, index) => ({
+                email: candidate.email,
+                full_name: candidate.full_name,
+                phone_number: candidate.phone_number,
+                slot_start_time: candidate.slot_start_time ?? null,
+                slot_window_minutes: candidate.slot_window_minutes ?? null,
+                interview_id: interview._id as Schema.Types.ObjectId,
+                person_id: personIds.get(candidate.email),
+                ...accessLinks[index].fields,
+                status: interviewStatus.SCHEDULED
+            })), { session, ordered: true });
+            await session.commitTransaction();
+        } catch (error: unknown) {
+            await session.abortTransaction();
+            // Another request added one of the emails in the meantime
+            if ((error as { code?: number }).code === 11000) {
+                throw new ConflictError("One or more emails are already candidates of this interview");
+            }
+            throw error;
+        } finally {
+            await session.endSession();
+        }
+
+        eventBus.publish('candidates:added', {
+            interviewId: (interview._id as Types.ObjectId).toString(),
+            total_questions: interview.num_questions,
+            candidates: created.map((candidate) => ({
+                candidateId: (candidate._id as Types.ObjectId).toString(),
+                email: candidate.email,
+                full_name: candidate.full_name,
+                status: candidate.status,
+                ...getCandidateStartWindow(interview, candidate),
+            })),
+        });
+        const access_links: IAccessLink[] = created.map((candidate, index) => ({
+            candidate_id: (candidate._id as Types.ObjectId).toString(),
+            email: candidate.email,
+            access_link_token: accessLinks[index].token,
+            expires_at: accessLinks[index].fields.access_link_expires_at,
+        }));
+        return { candidates: created, access_links };
+    }
+
+    private async getOwnedInterview(interviewId: String, interviewerId: String): Promise<Interview> {
+        if (!Types.ObjectId.isValid(interviewId.toString())) throw new BadRequestError("Invalid interview ID");
+
+        const interview: Interview | null = await InterviewModel.findById(interviewId);
+        if (!interview) throw new NotFoundError(`Interview with ID ${interviewId} not found.`);
+        if (interview.interviewerId.toString() !== interviewerId.toString()) {
+            throw new ForbiddenError('You are not authorized to manage the candidates of this interview.');
+        }
+        interviewLifecycleService.assertWritable(interview);
+        return interview;
+    }
+}
+
+const interviewCandidateService = new InterviewCandidateService();
+export default interviewCandidateService;
@@ -0,0 +1,171 @@
+import mongoose, { Types } from 'mongoose';
+import logger from '../../Config/logger.config.js';
+import { InterviewModel, Interview } from '../../Models/Interview.model.js';
+import { CandidateModel, Candidate } from '../../Models/Candidate.model.js';
+import { interviewStatus } from '../../Utils/types.js';
+import { BadRequestError, ConflictError, NotFoundError } from '../../Utils/ErrorClass.js';
+import eventBus from '../../Events/eventBus.js';
+
+// The only status changes an interview may go through. Completed and Cancelled are final.
+const allowedTransitions: Record<interviewStatus, interviewStatus[]> = {
+    [interviewStatus.SCHEDULED]: [interviewStatus.INPROGRESS, interviewStatus.CANCELLED],
+    [interviewStatus.INPROGRESS]: [interviewStatus.COMPLETED, interviewStatus.CANCELLED],
+    [interviewStatus.COMPLETED]: [],
+    [interviewStatus.CANCELLED]: [],
+};
+
+/*
+@class InterviewLifecycleService
+Description: This class owns the status of an interview. Clients can't set the status directly, every change goes through this service,
+which rejects illegal transitions (e.g. Completed -> Scheduled) and publishes the change, which is broadcast to the interview's WebSocket room.
+
+The status update is conditional on the status we read, so two concurrent transitions can't both succeed.
+
+Dependencies:
+    - InterviewModel: The Mongoose model for interviews.
+    - eventBus: To publish 'interview:status_changed' and 'interview:cancelled' for connected dashboards.
+
+Methods:
+    - canTransition(from: interviewStatus, to: interviewStatus): boolean
+    - transition(interviewId: Types.ObjectId | String, to: interviewStatus): Promise<Interview>
+    - startIfScheduled(interviewId: Types.ObjectId | String): Promise<boolean>
+    - cancel(interview: Interview, reason: string): Promise<Interview>
+    - assertWritable(interview: Interview): void
+*/
+class InterviewLifecycleService {
+
+    public canTransition(from: interviewStatus, to: interviewStatus): boolean {
+        return allowedTransitions[from].includes(to);
+    }
+
+    /*
+    @method transition
+    @description: Moves an interview to a new status. Throws BadRequestError if the transition is not allowed from the current status,
+    and ConflictError if the status was changed by someone else in the meantime.
+
+    @params: interviewId: Types.ObjectId | String, to: interviewStatus
+    @returns: Promise<Interview> - The updated interview.
+    */
+    public async transition(interviewId: Types.ObjectId | String, to: interviewStatus): Promise<Interview> {
+        const interview: Interview | null = await InterviewModel.findById(interviewId);
+        if (!interview) throw new NotFoundError(`Interview with ID ${interviewId} not found.`);
+
+        if (!this.canTransition(interview.status, to)) {
+            throw new BadRequestError(`Cannot change interview status from ${interview.status} to ${to}`);
+        }
+
+        const updated: Interview | null = await this.applyTransition(interview, to);
+        if (!updated) throw new ConflictError("Interview status was changed by another request. Please try again.");
+
+        return updated;
+    }
+
+    /*
+    @method startIfScheduled
+    @description: Moves an interview to In Progress if it is still Scheduled. Used when a candidate starts before the scheduler's next tick.
+    Does nothing if the interview has already moved on.
+
+    @params: interviewId: Types.ObjectId | String
+    @returns: Promise<boolean> - true if the interview was moved to In Progress.
+    */
+    public async startIfScheduled(interviewId: Types.ObjectId | String): Promise<boolean> {
+        const interview: Interview | null = await InterviewModel.findById(interviewId);
+        if (!interview || interview.status !== interviewStatus.SCHEDULED) return false;
+
+        return (await this.applyTransition(interview, interviewStatus.INPROGRESS)) !== null;
+    }
+
+    /*
+    @method cancel
+    @description: Cancels an interview along with every candidate who has not finished it, in one transaction.
+    Candidates who already finished keep their status, so their finalization still completes them. Nothing is deleted.
+    After the commit 'interview:status_changed' and 'interview:cancelled' are published, which notify connected dashboards,
+    close the open connections of the cancelled candidates and queue their cancellation emails.
+
+    @params: interview: Interview, reason: string
+    @returns: Promise<Interview> - The cancelled interview.
+    */
+    public async cancel(interview: Interview, reason: string): Promise<Interview> {
+        if (!this.canTransition(interview.status, interviewStatus.CANCELLED)) {
+            throw new BadRequestError(`Cannot cancel an interview that is ${interview.status}`);
+        }
+
+        const previous_status: interviewStatus = interview.status;
+        const cancelled_at = new Date();
+        let updated: Interview | null = null;
+        let candidates: Candidate[] = [];
+
+        const session = await mongoose.startSession();
+        try {
+            session.startTransaction();
+
+            updated = await InterviewModel.findOneAndUpdate(
+                { _id: interview._id, status: previous_status },
+                { $set: { status: interviewStatus.CANCELLED, cancelled_at, cancellation_reason: reason } },
+                { new: true, session }
+            );
+            if (!updated) throw new ConflictError("Interview status was changed by another request. Please try again.");
+
+            const unfinished = {
+                interview_id: interview._id,
+                status: { $in: [interviewStatus.SCHEDULED, interviewStatus.INPROGRESS] },
+                finished_at: null
+            };
+            candidates = await CandidateModel.find(unfinished).select('_id').session(session);
+            await CandidateModel.updateMany(
+                { ...unfinished, _id: { $in: candidates.map((candidate) => candidate._id) } },
+                { $set: { status: interviewStatus.CANCELLED, cancelled_at, current_question_order: null } },
+                { session }
+            );
+
+            await session.commitTransaction();
+        } catch (error: unknown) {
+            await session.abortTransaction();
+            throw error;
+        } finally {
+            await session.endSession();
+        }
+
+        const interviewId: string = (updated._id as mongoose.Types.ObjectId).toString();
+        logger.info(`Interview ${interviewId} cancelled with ${candidates.length} unfinished candidate(s).`);
+        eventBus.publish('interview:status_changed', { interviewId, previous_status, status: interviewStatus.CANCELLED, changed_at: cancelled_at });
+        eventBus.publish('interview:cancelled', {
+            interviewId,
+            reason,
+            cancelled_at,
+            candidateIds: candidates.map((candidate) => (candidate._id as mongoose.Types.ObjectId).toString()),
+        });
+        return updated;
+    }
+
+    /*
+    @method assertWritable
+    @description: Throws a BadRequestError if the interview is archived or deleted. Both are read-only until the interview is restored.
+
+    @params: interview: Interview
+    @returns: void
+    */
+    public assertWritable(interview: Interview): void {
+        if (interview.deleted_at) throw new BadRequestError("The interview is deleted. Restore it to make changes.");
+        if (interview.archived_at) throw new BadRequestError("The interview is archived. Restore it to make changes.");
+    }
+
+    // Updates the status only if it is still what we read, then notifies connected dashboards
+    private async applyTransition(interview: Interview, to: interviewStatus): Promise<Interview | null> {
+        const previous_status: interviewStatus = interview.status;
+        const updated: Interview | null = await InterviewModel.findOneAndUpdate(
+            { _id: interview._id, status: previous_status },
+            { $set: { status: to } },
+            { new: true }
+        );
+        if (!updated) return null;
+
+        const interviewId: string = (updated._id as mongoose.Types.ObjectId).toString();
+        logger.info(`Interview ${interviewId} moved from ${previous_status} to ${to}.`);
+        eventBus.publish('interview:status_changed', { interviewId, previous_status, status: to, changed_at: new Date() });
+        return updated;
+    }
+}
+
+const interviewLifecycleService = new InterviewLifecycleService();
+export default interviewLifecycleService;
@@ -0,0 +1,152 @@
+import { Types } from 'mongoose';
+import { InterviewTemplateModel, InterviewTemplate } from '../../Models/InterviewTemplate.model.js';
+import { ICreateTemplate, IUpdateTemplate, ICreateFromTemplate } from '../../Schemas/template.schema.js';
+import { ICreateInterviewResult } from '../../Schemas/interview.schema.js';
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from '../../Utils/ErrorClass.js';
+import interviewService from './interview.service.js';
+
+/*
+@class InterviewTemplateService
+Description: This class manages the interview templates of an interviewer. A template stores the settings of a recurring interview,
+and optionally a fixed question set, so the interview can be created again with only a start time and the candidates.
+Template names are unique per interviewer.
+
+Dependencies:
+    - interviewService: Creates the interview from the template.
+    - DB models: Mongoose model for interview templates.
+
+Methods:
+    - createTemplate(payload: ICreateTemplate, interviewerId: String): Promise<InterviewTemplate>
+    - listTemplates(interviewerId: String): Promise<InterviewTemplate[]>
+    - getTemplate(templateId: String, interviewerId: String): Promise<InterviewTemplate>
+    - updateTemplate(templateId: String, payload: IUpdateTemplate, interviewerId: String): Promise<InterviewTemplate>
+    - deleteTemplate(templateId: String, interviewerId: String): Promise<void>
+    - createInterviewFromTemplate(templateId: String, payload: ICreateFromTemplate, interviewerId: String): Promise<ICreateInterviewResult>
+*/
+class InterviewTemplateService {
+
+    /*
+    @method createTemplate
+    @description: Creates a template for the interviewer. A name the interviewer already uses for another template is rejected with a ConflictError.
+
+    @params: payload: ICreateTemplate, interviewerId: String
+    @returns: Promise<InterviewTemplate>
+    */
+    public async createTemplate(payload: ICreateTemplate, interviewerId: String): Promise<InterviewTemplate> {
+        try {
+            return await InterviewTemplateModel.create({ ...payload, interviewerId });
+        } catch (error: unknown) {
+            throw this.toConflict(error);
+        }
+    }
+
+    /*
+    @method listTemplates
+    @description: Lists the templates of the interviewer, by name.
+
+    @params: interviewerId: String
+    @returns: Promise<InterviewTemplate[]>
+    */
+    public async listTemplates(interviewerId: String): Promise<InterviewTemplate[]> {
+        return await InterviewTemplateModel.find({ interviewerId }).sort({ name: 1 });
+    }
+
+    /*
+    @method getTemplate
+    @description: Returns a single template of the interviewer.
+
+    @params: templateId: String, interviewerId: String
+    @returns: Promise<InterviewTemplate>
+    */
+    public async getTemplate(templateId: String, interviewerId: String): Promise<InterviewTemplate> {
+        return await this.getOwnedTemplate(templateId, interviewerId);
+    }
+
+    /*
+    @method updateTemplate
+    @description: Updates some fields of a template. There can still be at most num_questions fixed questions afterwards,
+    so lowering num_questions below the number of fixed questions also needs a shorter question set.
+    Interviews already created from the template keep their own copy of the settings and are not changed.
+
+    @params: templateId: String, payload: IUpdateTemplate, interviewerId: String
+    @returns: Promise<InterviewTemplate> - The updated template.
+    */
+    public async updateTemplate(templateId: String, payload: IUpdateTemplate, interviewerId: String): Promise<InterviewTemplate> {
+        const template: InterviewTemplate = await this.getOwnedTemplate(templateId, interviewerId);
+
+        const num_questions: number = payload.num_questions ?? template.num_questions;
+        const questions = payload.questions ?? template.questions;
+        if (questions.length > num_questions) {
+            throw new BadRequestError('There can be at most num_questions fixed questions');
+        }
+
+        template.set(payload);
+        try {
+            return await template.save();
+        } catch (error: unknown) {
+            throw this.toConflict(error);
+        }
+    }
+
+    /*
+    @method deleteTemplate
+    @description: Deletes a template. Interviews created from it are kept as they are.
+
+    @params: templateId: String, interviewerId: String
+    @returns: Promise<void>
+    */
+    public async deleteTemplate(templateId: String, interviewerId: String): Promise<void> {
+        const template: InterviewTemplate = await this.getOwnedTemplate(templateId, interviewerId);
+        await InterviewTemplateModel.deleteOne({ _id: template._id });
+    }
+
+    /*
+    @method createInterviewFromTemplate
+    @description: Creates an interview from a template. The title, domain, timings and question set come from the template,
+    and only the start time, which must be in the future, and the candidates come from the request. The interview keeps the id of the template it was created from.
+
+    @params: templateId: String, payload: ICreateFromTemplate, interviewerId: String
+    @returns: Promise<ICreateInterviewResult> - The interview and the access links of its candidates.
+    */
+    public async createInterviewFromTemplate(templateId: String, payload: ICreateFromTemplate, interviewerId: String): Promise<ICreateInterviewResult> {
+        const template: InterviewTemplate = await this.getOwnedTemplate(templateId, interviewerId);
+        if (new Date(payload.scheduled_start_time).getTime() <= Date.now()) {
+            throw new BadRequestError("Scheduled start time must be in the future");
+        }
+
+        return await interviewService.createInterviewService({
+            title: template.title,
+            domain: template.domain,
+            scheduled_start_time: payload.scheduled_start_time,
+            buffer_time_minutes: template.buffer_time_minutes,
+            num_questions: template.num_questions,
+            minutes_per_question: template.minutes_per_question,
+            candidate_emails: payload.candidate_emails,
+            send_invitations: payload.send_invitations,
+        }, template.interviewerId, {
+            questions: template.questions,
+            template_id: template._id,
+        });
+    }
+
+    private async getOwnedTemplate(templateId: String, interviewerId: String): Promise<InterviewTemplate> {
+        if (!Types.ObjectId.isValid(templateId.toString())) throw new BadRequestError("Invalid template ID");
+
+        const template: InterviewTemplate | null = await InterviewTemplateModel.findById(templateId);
+        if (!template) throw new NotFoundError(`Template with ID ${templateId} not found.`);
+        if (template.interviewerId.toString() !== interviewerId.toString()) {
+            throw new ForbiddenError('You are not authorized to access this template.');
+        }
+        return template;
+    }
+
+    private toConflict(error: unknown): unknown {
+        if ((error as { code?: number }).code === 11000) {
+            return new ConflictError("You already have a template with this name");
+        }
+        return error;
+    }
+}
+
+const interviewTemplateService = new InterviewTemplateService();
+export default interviewTemplateService;
@@ -0,0 +1,100 @@
+import { Types } from 'mongoose';
+import { InterviewModel, Interview } from '../../Models/Interview.model.js';
+import { JobModel, Job } from '../../Models/Job.model.js';
+import { jobStatus, jobType } from '../../Utils/types.js';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../../Utils/ErrorClass.js';
+import interviewLifecycleService from './interviewLifecycle.service.js';
+
+/*
+@class JobService
+Description: This class gives interviewers visibility into the background AI scoring jobs of their interviews. It allows listing scoring jobs
+(by default the ones in the Dead state) and moving dead jobs back to the queue so they are retried.
+
+Dependencies:
+    - DB models: Mongoose models for interviews and jobs.
+
+Methods:
+    - listScoringJobs(interviewId: String, interviewerId: String, status?: jobStatus): Promise<Job[]>
+    - retryScoringJob(interviewId: String, jobId: String, interviewerId: String): Promise<Job>
+    - retryAllScoringJobs(interviewId: String, interviewerId: String): Promise<number>
+*/
+class JobService {
+
+    /*
+    @method listScoringJobs
+    @description: Lists the scoring jobs of an interview with the given status. Defaults to Dead, which are the jobs that need attention.
+
+    @params: interviewId: String, interviewerId: String, status: jobStatus
+    @returns: Promise<Job[]>
+    */
+    public async listScoringJobs(interviewId: String, interviewerId: String, status: jobStatus = jobStatus.DEAD): Promise<Job[]> {
+        await this.getOwnedInterview(interviewId, interviewerId);
+
+        return await JobModel.find({
+            interview_id: interviewId,
+            type: jobType.SCORE_TRANSCRIPT,
+            status
+        }).sort({ updated_at: -1 });
+    }
+
+    /*
+    @method retryScoringJob
+    @description: Moves a single dead scoring job back to Pending with a fresh attempt budget, so the worker picks it up on next poll.
+
+    @params: interviewId: String, jobId: String, interviewerId: String
+    @returns: Promise<Job>
+    */
+    public async retryScoringJob(interviewId: String, jobId: String, interviewerId: String): Promise<Job> {
+        const interview: Interview = await this.getOwnedInterview(interviewId, interviewerId);
+        interviewLifecycleService.assertWritable(interview);
+
+        if (!Types.ObjectId.isValid(jobId.toString())) throw new BadRequestError("Invalid job ID");
+
+        const job: Job | null = await JobModel.findOneAndUpdate(
+            { _id: jobId, interview_id: interviewId, type: jobType.SCORE_TRANSCRIPT, status: jobStatus.DEAD },
+            { $set: this.getRetryUpdate() },
+            { new: true }
+        );
+        if (!job) throw new NotFoundError(`No failed scoring job with ID ${jobId} found in this interview.`);
+
+        return job;
+    }
+
+    /*
+    @method retryAllScoringJobs
+    @description: Moves every dead scoring job of the interview back to Pending.
+
+    @params: interviewId: String, interviewerId: String
+    @returns: Promise<number> - The number of jobs queued for retry.
+    */
+    public async retryAllScoringJobs(interviewId: String, interviewerId: String): Promise<number> {
+        const interview: Interview = await this.getOwnedInterview(interviewId, interviewerId);
+        interviewLifecycleService.assertWritable(interview);
+
+        const result = await JobModel.updateMany(
+            { interview_id: interviewId, type: jobType.SCORE_TRANSCRIPT, status: jobStatus.DEAD },
+            { $set: this.getRetryUpdate() }
+        );
+        return result.modifiedCount;
+    }
+
+    private getRetryUpdate() {
+        return { status: jobStatus.PENDING, attempts: 0, run_at: new Date(), locked_by: null, locked_until: null };
+    }
+
+    private async getOwnedInterview(interviewId: String, interviewerId: String): Promise<Interview> {
+        if (!Types.ObjectId.isValid(interviewId.toString())) throw new BadRequestError("Invalid interview ID");
+
+        const interview: Interview | null = await InterviewModel.findById(interviewId);
+        if (!interview) {
+            throw new NotFoundError(`Interview with ID ${interviewId} not found.`);
+        }
+        if (interview.interviewerId.toString() !== interviewerId.toString()) {
+            throw new ForbiddenError('You are not authorized to access this interview.');
+        }
+        return interview;
+    }
+}
+
+const jobService = new JobService();
+export default jobService;
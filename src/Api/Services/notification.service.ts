@@ -0,0 +1,206 @@
+import { Types } from 'mongoose';
+import { InterviewModel, Interview } from '../../Models/Interview.model.js';
+import { CandidateModel, Candidate } from '../../Models/Candidate.model.js';
+import { NotificationModel, Notification } from '../../Models/Notification.model.js';
+import { interviewStatus, notificationType } from '../../Utils/types.js';
+import { INotificationSummary } from '../../Schemas/notification.schema.js';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../../Utils/ErrorClass.js';
+import { enqueueNotificationJob } from '../../Jobs/notification.job.js';
+import eventBus from '../../Events/eventBus.js';
+import interviewLifecycleService from './interviewLifecycle.service.js';
+
+/*
+@class NotificationService
+Description: This class queues the messages sent to candidates and reports their delivery status. Each message is stored as a notification
+and delivered by a send_notification background job through the configured mail transport (see Notifications/mailer.ts), so it is retried on failure.
+    - Invitations are sent on request (or when candidates are created with send_invitations). An invitation carries a freshly issued access link.
+    - Reminders are queued by the notification-reminders periodic task, 24 hours and 1 hour before the interview.
+    - Cancellation and completion messages are queued from the 'interview:status_changed' and 'candidate:completed' events.
+
+Dependencies:
+    - DB models: Mongoose models for interviews, candidates and notifications.
+    - enqueueNotificationJob: To queue the delivery.
+    - eventBus: To follow cancelled interviews and completed candidates.
+    - interviewLifecycleService: Invitations can't be sent for an archived or deleted interview.
+
+Methods:
+    - initialize(): void
+    - shutdown(): void
+    - queueNotification(candidate: Candidate, type: notificationType, dedupeKey?: string): Promise<Notification>
+    - queueInvitations(candidates: Candidate[]): Promise<number>
+    - sendInvitations(interviewId: String, interviewerId: String): Promise<number>
+    - sendCandidateInvitation(interviewId: String, candidateId: String, interviewerId: String): Promise<INotificationSummary>
+    - getDeliveryStatus(interviewId: Types.ObjectId | String): Promise<Record<string, INotificationSummary[]>>
+*/
+class NotificationService {
+    private subscriptions: (() => void)[] = [];
+
+    public initialize(): void {
+        this.subscriptions = [
+            eventBus.subscribe('interview:status_changed', async (event) => {
+                if (event.status !== interviewStatus.CANCELLED) return;
+                // Candidates who had not finished are cancelled along with the interview
+                const candidates: Candidate[] = await CandidateModel.find({
+                    interview_id: event.interviewId,
+                    status: { $in: [interviewStatus.SCHEDULED, interviewStatus.INPROGRESS, interviewStatus.CANCELLED] },
+                    finished_at: null
+                });
+                for (const candidate of candidates) {
+                    await this.queueNotification(candidate, notificationType.CANCELLATION);
+                }
+            }),
+            eventBus.subscribe('candidate:completed', async (event) => {
+                const candidate: Candidate | null = await CandidateModel.findById(event.candidateId);
+                // No-shows are completed too, but there is nothing to thank them for
+                if (!candidate || !candidate.started_at) return;
+                await this.queueNotification(candidate, notificationType.COMPLETION);
+            }),
+        ];
+    }
+
+    public shutdown(): void {
+        this.subscriptions.forEach((unsubscribe) => unsubscribe());
+        this.subscriptions = [];
+    }
+
+    /*
+    @method queueNotification
+    @description: Stores a notification for the candidate and queues its delivery. Queueing is idempotent on the dedupe key,
+    which defaults to <type>:<candidateId>, so e.g. a reminder is only ever sent once. Pass a unique key to send a message again.
+
+    @params: candidate: Candidate, type: notificationType, dedupeKey?: string
+    @returns: Promise<Notification> - The new notification, or the existing one with the same dedupe key.
+    */
+    public async queueNotification(candidate: Candidate, type: notificationType, dedupeKey?: string): Promise<Notification> {
+        const candidateId: string = (candidate._id as Types.ObjectId).toString();
+        const dedupe_key: string = dedupeKey || `${type}:${candidateId}`;
+
+        const result = await NotificationModel.findOneAndUpdate(
+            { dedupe_key },
+            { $setOnInsert: {
+                interview_id: candidate.interview_id,
+                candidate_id: candidate._id,
+                type,
+                dedupe_key,
+                recipient: candidate.email,
+            } },
+            { upsert: true, new: true, includeResultMetadata: true }
+        );
+        const notification = result.value as Notification;
+
+        if (!result.lastErrorObject?.updatedExisting) {
+            await enqueueNotificationJob((notification._id as Types.ObjectId).toString(), candidate.interview_id);
+        }
+        return notification;
+    }
+
+    /*
+    @method queueInvitations
+    @description: Queues an invitation for each of the candidates. Every call sends new invitations, each with a new access link.
+
+    @params: candidates: Candidate[]
+    @returns: Promise<number> - The number of invitations queued.
+    */
+    public async queueInvitations(candidates: Candidate[]): Promise<number> {
+        for (const candidate of candidates) {
+            await this.queueNotification(candidate, notificationType.INVITATION, this.getInvitationKey(candidate));
+        }
+        return candidates.length;
+    }
+
+    /*
+    @method sendInvitations
+    @description: Sends invitations to every candidate of the interview who has not started it yet. Since each invitation issues a new access link,
+    links handed out before stop working once the invitation is sent. Candidates in the middle of the interview keep their link,
+    use sendCandidateInvitation to send one of them a new one.
+
+    @params: interviewId: String, interviewerId: String
+    @returns: Promise<number> - The number of invitations queued.
+    */
+    public async sendInvitations(interviewId: String, interviewerId: String): Promise<number> {
+        const interview: Interview = await this.getOwnedInterview(interviewId, interviewerId);
+        interviewLifecycleService.assertWritable(interview);
+
+        const candidates: Candidate[] = await CandidateModel.find({
+            interview_id: interview._id,
+            status: interviewStatus.SCHEDULED,
+            finished_at: null
+        });
+        if (candidates.length === 0) throw new NotFoundError("No candidates who have yet to start this interview");
+
+        return await this.queueInvitations(candidates);
+    }
+
+    /*
+    @method sendCandidateInvitation
+    @description: Sends an invitation, with a new access link, to a single candidate who can still take the interview.
+
+    @params: interviewId: String, candidateId: String, interviewerId: String
+    @returns: Promise<INotificationSummary> - The queued invitation.
+    */
+    public async sendCandidateInvitation(interviewId: String, candidateId: String, interviewerId: String): Promise<INotificationSummary> {
+        const interview: Interview = await this.getOwnedInterview(interviewId, interviewerId);
+        interviewLifecycleService.assertWritable(interview);
+        if (!Types.ObjectId.isValid(candidateId.toString())) throw new BadRequestError("Invalid candidate ID");
+
+        const candidate: Candidate | null = await CandidateModel.findOne({ _id: candidateId, interview_id: interviewId });
+        if (!candidate) throw new NotFoundError(`Candidate with ID ${candidateId} not found in this interview.`);
+        if (candidate.finished_at || (candidate.status !== interviewStatus.SCHEDULED && candidate.status !== interviewStatus.INPROGRESS)) {
+            throw new BadRequestError("Cannot invite a candidate who has already finished the interview");
+        }
+
+        const invitation: Notification = await this.queueNotification(candidate, notificationType.INVITATION, this.getInvitationKey(candidate));
+        return this.toSummary(invitation);
+    }
+
+    /*
+    @method getDeliveryStatus
+    @description: Returns the notifications of every candidate of the interview, oldest first, keyed by candidate id.
+
+    @params: interviewId: Types.ObjectId | String
+    @returns: Promise<Record<string, INotificationSummary[]>>
+    */
+    public async getDeliveryStatus(interviewId: Types.ObjectId | String): Promise<Record<string, INotificationSummary[]>> {
+        const notifications: Notification[] = await NotificationModel.find({ interview_id: interviewId }).sort({ created_at: 1 });
+
+        const byCandidate: Record<string, INotificationSummary[]> = {};
+        notifications.forEach((notification) => {
+            const candidateId: string = notification.candidate_id.toString();
+            (byCandidate[candidateId] ||= []).push(this.toSummary(notification));
+        });
+        return byCandidate;
+    }
+
+    // Invitations can be sent any number of times, so each one gets a unique key
+    private getInvitationKey(candidate: Candidate): string {
+        return `${notificationType.INVITATION}:${(candidate._id as Types.ObjectId).toString()}:${new Types.ObjectId().toString()}`;
+    }
+
+    private toSummary(notification: Notification): INotificationSummary {
+        return {
+            type: notification.type,
+            status: notification.status,
+            attempts: notification.attempts,
+            last_error: notification.last_error,
+            sent_at: notification.sent_at,
+            created_at: notification.created_at,
+        };
+    }
+
+    private async getOwnedInterview(interviewId: String, interviewerId: String): Promise<Interview> {
+        if (!Types.ObjectId.isValid(interviewId.toString())) throw new BadRequestError("Invalid interview ID");
+
+        const interview: Interview | null = await InterviewModel.findById(interviewId);
+        if (!interview) throw new NotFoundError(`Interview with ID ${interviewId} not found.`);
+        if (interview.interviewerId.toString() !== interviewerId.toString()) {
+            throw new ForbiddenError('You are not authorized to send notifications for this interview.');
+        }
+        if (interview.status === interviewStatus.COMPLETED || interview.status === interviewStatus.CANCELLED) {
+            throw new BadRequestError(`Cannot send invitations for an interview that is ${interview.status}`);
+        }
+        return interview;
+    }
+}
+
+const notificationService = new NotificationService();
+export default notificationService;
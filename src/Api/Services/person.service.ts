@@ -0,0 +1,113 @@
+import { ClientSession, Schema, Types } from 'mongoose';
+import { PersonModel, Person } from '../../Models/Person.model.js';
+import { CandidateModel, Candidate } from '../../Models/Candidate.model.js';
+import { Interview } from '../../Models/Interview.model.js';
+import { ICandidateContact, IPersonDetails, IPersonSummary } from '../../Schemas/person.schema.js';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../../Utils/ErrorClass.js';
+
+/*
+@class PersonService
+Description: This class manages the cross-interview person records of an interviewer. A person groups the candidate records
+of the same email across the interviewer's interviews, so the interviewer can see every interview that email has been invited to.
+
+Dependencies:
+    - DB models: Mongoose models for persons and candidates.
+
+Methods:
+    - linkCandidates(interviewerId: unknown, contacts: ICandidateContact[], session?: ClientSession): Promise<Map<string, Schema.Types.ObjectId>>
+    - listPersons(interviewerId: String, email?: string): Promise<IPersonSummary[]>
+    - getPerson(personId: String, interviewerId: String): Promise<IPersonDetails>
+*/
+class PersonService {
+
+    /*
+    @method linkCandidates
+    @description: Finds or creates the person of every contact for the interviewer, and returns the person ids keyed by lowercased email.
+    A non-empty name or phone on the contact overwrites the one stored on the person, so it reflects the latest invite.
+    Pass a session to create the persons in the same transaction as the candidates.
+
+    @params: interviewerId: unknown, contacts: ICandidateContact[], session?: ClientSession
+    @returns: Promise<Map<string, Schema.Types.ObjectId>>
+    */
+    public async linkCandidates(interviewerId: unknown, contacts: ICandidateContact[], session?: ClientSession): Promise<Map<string, Schema.Types.ObjectId>> {
+        if (contacts.length === 0) return new Map();
+
+        await PersonModel.bulkWrite(contacts.map((contact) => {
+            const email = contact.email.trim().toLowerCase();
+            const details: Partial<ICandidateContact> = {};
+            if (contact.full_name) details.full_name = contact.full_name;
+            if (contact.phone_number) details.phone_number = contact.phone_number;
+            return {
+                updateOne: {
+                    filter: { interviewerId, email },
+                    update: { $setOnInsert: { interviewerId, email }, $set: details },
+                    upsert: true,
+                }
+            };
+        }), { session });
+
+        const persons: Person[] = await PersonModel.find({
+            interviewerId,
+            email: { $in: contacts.map((contact) => contact.email.trim().toLowerCase()) }
+        }).session(session || null);
+        return new Map(persons.map((person) => [person.email, person._id as Schema.Types.ObjectId]));
+    }
+
+    /*
+    @method listPersons
+    @description: Lists the persons of the interviewer with the number of interviews each was invited to, most invited first.
+    An email filter matches part of the address, case-insensitively.
+
+    @params: interviewerId: String, email?: string
+    @returns: Promise<IPersonSummary[]>
+    */
+    public async listPersons(interviewerId: String, email?: string): Promise<IPersonSummary[]> {
+        const filter: Record<string, unknown> = { interviewerId: new Types.ObjectId(interviewerId.toString()) };
+        if (email) filter.email = { $regex: email.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), $options: 'i' };
+
+        return await PersonModel.aggregate<IPersonSummary>([
+            { $match: filter },
+            { $lookup: { from: CandidateModel.collection.name, localField: '_id', foreignField: 'person_id', as: 'candidates' } },
+            { $project: {
+                email: 1,
+                full_name: 1,
+                phone_number: 1,
+                created_at: 1,
+                interview_count: { $size: '$candidates' },
+            } },
+            { $sort: { interview_count: -1, email: 1 } },
+        ]);
+    }
+
+    /*
+    @method getPerson
+    @description: Returns a person of the interviewer with all their candidate records, each with the interview it belongs to, newest interview first.
+
+    @params: personId: String, interviewerId: String
+    @returns: Promise<IPersonDetails>
+    */
+    public async getPerson(personId: String, interviewerId: String): Promise<IPersonDetails> {
+        if (!Types.ObjectId.isValid(personId.toString())) throw new BadRequestError("Invalid person ID");
+
+        const person: Person | null = await PersonModel.findById(personId);
+        if (!person) throw new NotFoundError(`Person with ID ${personId} not found.`);
+        if (person.interviewerId.toString() !== interviewerId.toString()) {
+            throw new ForbiddenError('You are not authorized to access this person.');
+        }
+
+        const candidates = await CandidateModel.find({ person_id: person._id })
+            .populate<{ interview_id: Interview }>('interview_id', 'title domain status scheduled_start_time')
+            .select('-reconnects')
+            .lean();
+
+        const interviews = candidates
+            .filter((candidate) => candidate.interview_id)
+            .map(({ interview_id, ...candidate }) => ({ interview: interview_id, candidate: candidate as unknown as Candidate }))
+            .sort((a, b) => new Date(b.interview.scheduled_start_time).getTime() - new Date(a.interview.scheduled_start_time).getTime());
+
+        return { person, interviews };
+    }
+}
+
+const personService = new PersonService();
+export default personService;
@@ -0,0 +1,141 @@
+import { Types } from 'mongoose';
+import { BankQuestionModel, BankQuestion } from '../../Models/BankQuestion.model.js';
+import { IInterviewQuestion } from '../../Models/Interview.model.js';
+import { ICreateBankQuestion, IListBankQuestions, IListBankQuestionsQuery, IUpdateBankQuestion } from '../../Schemas/questionBank.schema.js';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../../Utils/ErrorClass.js';
+
+/*
+@class QuestionBankService
+Description: This class manages the question bank of an interviewer. Bank questions can be searched by text, domain, tag and difficulty,
+and picked by id as the fixed questions of an interview, where they are copied so later edits to the bank don't change the interview.
+
+Dependencies:
+    - DB models: Mongoose model for bank questions.
+
+Methods:
+    - createQuestion(payload: ICreateBankQuestion, interviewerId: String): Promise<BankQuestion>
+    - listQuestions(interviewerId: String, query: IListBankQuestionsQuery): Promise<IListBankQuestions>
+    - getQuestion(questionId: String, interviewerId: String): Promise<BankQuestion>
+    - updateQuestion(questionId: String, payload: IUpdateBankQuestion, interviewerId: String): Promise<BankQuestion>
+    - deleteQuestion(questionId: String, interviewerId: String): Promise<void>
+    - toInterviewQuestions(questionIds: string[], interviewerId: unknown): Promise<IInterviewQuestion[]>
+*/
+class QuestionBankService {
+
+    /*
+    @method createQuestion
+    @description: Adds a question to the interviewer's bank.
+
+    @params: payload: ICreateBankQuestion, interviewerId: String
+    @returns: Promise<BankQuestion>
+    */
+    public async createQuestion(payload: ICreateBankQuestion, interviewerId: String): Promise<BankQuestion> {
+        return await BankQuestionModel.create({ ...payload, interviewerId });
+    }
+
+    /*
+    @method listQuestions
+    @description: Lists one page of the interviewer's bank questions, newest first. The search matches part of the question text,
+    domain is matched exactly and tag is one of the question's tags, all case-insensitively.
+
+    @params: interviewerId: String, query: IListBankQuestionsQuery
+    @returns: Promise<IListBankQuestions> - The page of questions along with the page number, page size, total count and total pages.
+    */
+    public async listQuestions(interviewerId: String, query: IListBankQuestionsQuery): Promise<IListBankQuestions> {
+        const { search, domain, tag, difficulty, page, limit } = query;
+        const escape = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+        const filter: Record<string, unknown> = { interviewerId: new Types.ObjectId(interviewerId.toString()) };
+        if (search) filter.question_text = { $regex: escape(search), $options: 'i' };
+        if (domain) filter.domain = { $regex: `^${escape(domain)}$`, $options: 'i' };
+        if (tag) filter.tags = tag.toLowerCase();
+        if (difficulty) filter.difficulty = difficulty;
+
+        const [questions, total] = await Promise.all([
+            BankQuestionModel.find(filter).sort({ created_at: -1, _id: -1 }).skip((page - 1) * limit).limit(limit),
+            BankQuestionModel.countDocuments(filter),
+        ]);
+        return { questions, page, limit, total, total_pages: Math.ceil(total / limit) };
+    }
+
+    /*
+    @method getQuestion
+    @description: Returns a single bank question of the interviewer.
+
+    @params: questionId: String, interviewerId: String
+    @returns: Promise<BankQuestion>
+    */
+    public async getQuestion(questionId: String, interviewerId: String): Promise<BankQuestion> {
+        return await this.getOwnedQuestion(questionId, interviewerId);
+    }
+
+    /*
+    @method updateQuestion
+    @description: Updates some fields of a bank question. Interviews that already use the question keep their copy.
+
+    @params: questionId: String, payload: IUpdateBankQuestion, interviewerId: String
+    @returns: Promise<BankQuestion> - The updated question.
+    */
+    public async updateQuestion(questionId: String, payload: IUpdateBankQuestion, interviewerId: String): Promise<BankQuestion> {
+        const question: BankQuestion = await this.getOwnedQuestion(questionId, interviewerId);
+        question.set(payload);
+        return await question.save();
+    }
+
+    /*
+    @method deleteQuestion
+    @description: Deletes a bank question. Interviews that already use the question keep their copy.
+
+    @params: questionId: String, interviewerId: String
+    @returns: Promise<void>
+    */
+    public async deleteQuestion(questionId: String, interviewerId: String): Promise<void> {
+        const question: BankQuestion = await this.getOwnedQuestion(questionId, interviewerId);
+        await BankQuestionModel.deleteOne({ _id: question._id });
+    }
+
+    /*
+    @method toInterviewQuestions
+    @description: Copies bank questions of the interviewer into the fixed questions of an interview, in the order of the given ids.
+    An id that is invalid, repeated, or not a question of the interviewer is rejected with a BadRequestError.
+
+    @params: questionIds: string[], interviewerId: unknown
+    @returns: Promise<IInterviewQuestion[]>
+    */
+    public async toInterviewQuestions(questionIds: string[], interviewerId: unknown): Promise<IInterviewQuestion[]> {
+        if (questionIds.length === 0) return [];
+        if (questionIds.some((id) => !Types.ObjectId.isValid(id))) throw new BadRequestError("Invalid bank question ID");
+        if (new Set(questionIds).size !== questionIds.length) throw new BadRequestError("A bank question can only be used once per interview");
+
+        const questions: BankQuestion[] = await BankQuestionModel.find({ _id: { $in: questionIds }, interviewerId });
+        const byId = new Map(questions.map((question) => [(question._id as Types.ObjectId).toString(), question]));
+
+        const missing: string[] = questionIds.filter((id) => !byId.has(id));
+        if (missing.length > 0) throw new BadRequestError(`Bank questions not found: ${missing.join(', ')}`);
+
+        return questionIds.map((id) => {
+            const question = byId.get(id) as BankQuestion;
+            return {
+                question_text: question.question_text,
+                difficulty: question.difficulty,
+                model_answer: question.model_answer,
+                bank_question_id: question._id,
+                rubric: question.rubric,
+            } as IInterviewQuestion;
+        });
+    }
+
+    private async getOwnedQuestion(questionId: String, interviewerId: String): Promise<BankQuestion> {
+        if (!Types.ObjectId.isValid(questionId.toString())) throw new BadRequestError("Invalid question ID");
+
+        const question: BankQuestion | null = await BankQuestionModel.findById(questionId);
+        if (!question) throw new NotFoundError(`Question with ID ${questionId} not found.`);
+        if (question.interviewerId.toString() !== interviewerId.toString()) {
+            throw new ForbiddenError('You are not authorized to access this question.');
+        }
+        return question;
+    }
+}
+
+const questionBankService = new QuestionBankService();
+export default questionBankService;
@@ -0,0 +1,229 @@
+import { Types } from 'mongoose';
+import { InterviewModel, Interview, IInterviewQuestion, IDifficultyMinimums } from '../../Models/Interview.model.js';
+import { CandidateModel } from '../../Models/Candidate.model.js';
+import { interviewStatus, questionDifficulty, questionSetStatus } from '../../Utils/types.js';
+import { IGeneratedQuestion } from '../../Schemas/ai.schema.js';
+import { IQuestionSet, IUpdateQuestionSet } from '../../Schemas/questionSet.schema.js';
+import { getAIDifficultyMinimums, meetsDifficultyMinimums } from '../../Utils/questionMixUtils.js';
+import { BadRequestError, ConflictError, ForbiddenError, InternalServerError, NotFoundError } from '../../Utils/ErrorClass.js';
+import eventBus from '../../Events/eventBus.js';
+import aiService from './ai.service.js';
+import accessLinkService from './accessLink.service.js';
+import interviewLifecycleService from './interviewLifecycle.service.js';
+
+/*
+@class QuestionSetService
+Description: This class builds the full question set of an interview, and lets the interviewer review a shared question set.
+A shared set is generated once when the interview is created, so every candidate gets the same questions. The interviewer can edit,
+reorder and regenerate single questions while the interview is Scheduled, and has to approve the set before candidates can start.
+Any change moves the set back to Draft. Once the interview has started the set is locked, but it can still be approved.
+
+Dependencies:
+    - aiService: Generates the questions not fixed by the interviewer.
+    - accessLinkService: Moves the access link expiry when the number of questions changes.
+    - interviewLifecycleService: The question set of an archived or deleted interview can't be changed or approved.
+    - eventBus: To publish 'interview:updated'.
+
+Methods:
+    - generateQuestionSet(domain: string, num_questions: number, fixed: IInterviewQuestion[], minimums: Partial<IDifficultyMinimums>): Promise<IInterviewQuestion[]>
+    - getQuestionSet(interviewId: String, interviewerId: String): Promise<IQuestionSet>
+    - updateQuestionSet(interviewId: String, payload: IUpdateQuestionSet, interviewerId: String): Promise<IQuestionSet>
+    - regenerateQuestion(interviewId: String, questionOrder: number, interviewerId: String): Promise<IQuestionSet>
+    - approveQuestionSet(interviewId: String, interviewerId: String): Promise<IQuestionSet>
+*/
+class QuestionSetService {
+
+    /*
+    @method generateQuestionSet
+    @description: Completes a set of num_questions questions. The fixed questions come first, and AI generates the rest,
+    meeting whatever difficulty minimums the fixed questions don't cover. A difficulty the AI made up is stored as Medium.
+
+    @params: domain: string, num_questions: number, fixed: IInterviewQuestion[], minimums: Partial<IDifficultyMinimums>
+    @returns: Promise<IInterviewQuestion[]> - The full set, in order.
+    */
+    public async generateQuestionSet(domain: string, num_questions: number, fixed: IInterviewQuestion[], minimums: Partial<IDifficultyMinimums>): Promise<IInterviewQuestion[]> {
+        const aiCount: number = num_questions - fixed.length;
+        let generated: IGeneratedQuestion[] = [];
+        if (aiCount > 0) {
+            generated = await aiService.generateQuestions(domain, aiCount, getAIDifficultyMinimums(fixed, minimums));
+            if (!generated || generated.length < aiCount) {
+                throw new InternalServerError("AI did not generate enough questions. Please try again.");
+            }
+        }
+
+        const questions: IInterviewQuestion[] = [
+            ...fixed,
+            ...generated.slice(0, aiCount).map((question) => this.toInterviewQuestion(question)),
+        ];
+        if (!meetsDifficultyMinimums(questions, minimums)) {
+            throw new InternalServerError("AI did not generate questions of the required difficulty. Please try again.");
+        }
+        return questions;
+    }
+
+    /*
+    @method getQuestionSet
+    @description: Returns the shared question set of the interview for review, with its model answers.
+
+    @params: interviewId: String, interviewerId: String
+    @returns: Promise<IQuestionSet>
+    */
+    public async getQuestionSet(interviewId: String, interviewerId: String): Promise<IQuestionSet> {
+        const interview: Interview = await this.getSharedSetInterview(interviewId, interviewerId);
+        return this.toQuestionSet(interview);
+    }
+
+    /*
+    @method updateQuestionSet
+    @description: Replaces the shared question set with the one in the request, which is how questions are edited, reordered, added or removed.
+    num_questions follows the size of the new set, and with it the end of the interview and the expiry of the access links.
+    The new set must still meet the difficulty minimums of the interview. The set goes back to Draft and has to be approved again.
+
+    @params: interviewId: String, payload: IUpdateQuestionSet, interviewerId: String
+    @returns: Promise<IQuestionSet> - The updated set.
+    */
+    public async updateQuestionSet(interviewId: String, payload: IUpdateQuestionSet, interviewerId: String): Promise<IQuestionSet> {
+        const interview: Interview = await this.getSharedSetInterview(interviewId, interviewerId);
+        interviewLifecycleService.assertWritable(interview);
+        await this.assertEditable(interview);
+
+        const questions: IInterviewQuestion[] = payload.questions.map((question) => ({
+            question_text: question.question_text,
+            difficulty: question.difficulty || questionDifficulty.MEDIUM,
+            model_answer: question.model_answer || '',
+            bank_question_id: null,
+            rubric: question.rubric || null,
+        }));
+        if (!meetsDifficultyMinimums(questions, interview.min_per_difficulty)) {
+            throw new BadRequestError("The question set doesn't meet the difficulty minimums of the interview");
+        }
+
+        const updated: Interview = await this.saveDraft(interview, { questions, num_questions: questions.length });
+        if (updated.num_questions !== interview.num_questions) {
+            await accessLinkService.refreshAccessLinkExpiry(updated);
+        }
+        return this.toQuestionSet(updated);
+    }
+
+    /*
+    @method regenerateQuestion
+    @description: Replaces one question of the shared set with a new AI generated question of the same difficulty.
+    The set goes back to Draft and has to be approved again.
+
+    @params: interviewId: String, questionOrder: number, interviewerId: String
+    @returns: Promise<IQuestionSet> - The updated set.
+    */
+    public async regenerateQuestion(interviewId: String, questionOrder: number, interviewerId: String): Promise<IQuestionSet> {
+        const interview: Interview = await this.getSharedSetInterview(interviewId, interviewerId);
+        interviewLifecycleService.assertWritable(interview);
+        await this.assertEditable(interview);
+
+        const current: IInterviewQuestion | undefined = interview.questions[questionOrder - 1];
+        if (!current) throw new NotFoundError(`The interview has no question ${questionOrder}`);
+
+        const generated: IGeneratedQuestion[] = await aiService.generateQuestions(interview.domain, 1, { [current.difficulty]: 1 });
+        const replacement: IGeneratedQuestion | undefined = generated?.find((question) => question.difficulty === current.difficulty);
+        if (!replacement) throw new InternalServerError("AI did not generate a question of the required difficulty. Please try again.");
+
+        const questions: IInterviewQuestion[] = interview.questions.map((question, index) => (
+            index === questionOrder - 1 ? this.toInterviewQuestion(replacement) : question
+        ));
+        const updated: Interview = await this.saveDraft(interview, { questions });
+        return this.toQuestionSet(updated);
+    }
+
+    /*
+    @method approveQuestionSet
+    @description: Approves the shared question set, after which candidates can start. Approving is still possible after the interview
+    has started, so a set that was not approved in time doesn't keep the candidates out for good.
+
+    @params: interviewId: String, interviewerId: String
+    @returns: Promise<IQuestionSet> - The approved set.
+    */
+    public async approveQuestionSet(interviewId: String, interviewerId: String): Promise<IQuestionSet> {
+        const interview: Interview = await this.getSharedSetInterview(interviewId, interviewerId);
+        interviewLifecycleService.assertWritable(interview);
+        if (interview.status === interviewStatus.COMPLETED || interview.status === interviewStatus.CANCELLED) {
+            throw new BadRequestError(`Cannot approve the questions of an interview that is ${interview.status}`);
+        }
+        if (interview.question_set_status === questionSetStatus.APPROVED) return this.toQuestionSet(interview);
+
+        const updated: Interview | null = await InterviewModel.findOneAndUpdate(
+            { _id: interview._id, question_set_status: questionSetStatus.DRAFT },
+            { $set: { question_set_status: questionSetStatus.APPROVED, question_set_approved_at: new Date() } },
+            { new: true }
+        );
+        if (!updated) throw new ConflictError("The question set was changed by another request. Please try again.");
+
+        this.publishChange(updated, { question_set_status: questionSetStatus.APPROVED });
+        return this.toQuestionSet(updated);
+    }
+
+    // Saves a change to the set as a new draft, as long as the interview is still Scheduled
+    private async saveDraft(interview: Interview, changes: Partial<Pick<Interview, 'questions' | 'num_questions'>>): Promise<Interview> {
+        const updated: Interview | null = await InterviewModel.findOneAndUpdate(
+            { _id: interview._id, status: interviewStatus.SCHEDULED },
+            { $set: { ...changes, question_set_status: questionSetStatus.DRAFT, question_set_approved_at: null } },
+            { new: true, runValidators: true }
+        );
+        if (!updated) throw new ConflictError("The interview has already started, its questions can no longer be changed");
+
+        this.publishChange(updated, {
+            ...(changes.num_questions !== undefined ? { num_questions: changes.num_questions } : {}),
+            question_set_status: questionSetStatus.DRAFT,
+        });
+        return updated;
+    }
+
+    private async assertEditable(interview: Interview): Promise<void> {
+        const started = interview.status !== interviewStatus.SCHEDULED
+            || await CandidateModel.exists({ interview_id: interview._id, status: { $ne: interviewStatus.SCHEDULED } });
+        if (started) throw new ConflictError("The interview has already started, its questions can no longer be changed");
+    }
+
+    private publishChange(interview: Interview, changes: { num_questions?: number, question_set_status: questionSetStatus }): void {
+        eventBus.publish('interview:updated', {
+            interviewId: (interview._id as Types.ObjectId).toString(),
+            changes,
+            updated_at: new Date(),
+        });
+    }
+
+    private toInterviewQuestion(question: IGeneratedQuestion): IInterviewQuestion {
+        return {
+            question_text: question.question_text,
+            difficulty: Object.values(questionDifficulty).includes(question.difficulty) ? question.difficulty : questionDifficulty.MEDIUM,
+            model_answer: '',
+            bank_question_id: null,
+            rubric: question.rubric,
+        };
+    }
+
+    private toQuestionSet(interview: Interview): IQuestionSet {
+        return {
+            interview_id: (interview._id as Types.ObjectId).toString(),
+            status: interview.question_set_status,
+            approved_at: interview.question_set_approved_at,
+            editable: interview.status === interviewStatus.SCHEDULED,
+            randomize_question_order: interview.randomize_question_order,
+            questions: interview.questions,
+        };
+    }
+
+    private async getSharedSetInterview(interviewId: String, interviewerId: String): Promise<Interview> {
+        if (!Types.ObjectId.isValid(interviewId.toString())) throw new BadRequestError("Invalid interview ID");
+
+        const interview: Interview | null = await InterviewModel.findById(interviewId);
+        if (!interview) throw new NotFoundError(`Interview with ID ${interviewId} not found.`);
+        if (interview.interviewerId.toString() !== interviewerId.toString()) {
+            throw new ForbiddenError('You are not authorized to access this interview.');
+        }
+        if (!interview.shared_question_set) {
+            throw new BadRequestError("This interview doesn't have a shared question set. Its questions are generated for each candidate.");
+        }
+        return interview;
+    }
+}
+
+const questionSetService = new QuestionSetService();
+export default questionSetService;
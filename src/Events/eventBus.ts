@@ -0,0 +1,51 @@
+import { EventEmitter } from 'events';
+import logger from '../Config/logger.config.js';
+import { DomainEventHandler, DomainEventName, IDomainEvents } from '../Schemas/event.schema.js';
+
+/*
+@class EventBus
+Description: An in-process publish/subscribe bus for domain events (answer submitted, score updated, candidate started/completed, interview status changed).
+Services and background jobs publish what happened without knowing who is interested, and subscribers such as the WebSocket service react to it.
+
+Publishing never fails the publisher: errors thrown by a subscriber, sync or async, are caught and logged.
+Since the bus is in-process, subscribers only receive events published by the same process.
+
+Dependencies:
+    - events (EventEmitter): Used to store and call subscribers.
+    - logger: For logging subscriber failures.
+
+Methods:
+    - publish<K>(event: K, payload: IDomainEvents[K]): void
+    - subscribe<K>(event: K, handler: DomainEventHandler<K>): () => void
+*/
+class EventBus {
+    private emitter = new EventEmitter();
+
+    constructor() {
+        // Several services subscribe to the same events, so we don't want the default limit warning
+        this.emitter.setMaxListeners(50);
+    }
+
+    public publish<K extends DomainEventName>(event: K, payload: IDomainEvents[K]): void {
+        for (const listener of this.emitter.listeners(event)) {
+            try {
+                Promise.resolve((listener as DomainEventHandler<K>)(payload)).catch((error: unknown) => {
+                    logger.error(`Subscriber of ${event} failed:`, (error as Error).message);
+                });
+            } catch (error: unknown) {
+                logger.error(`Subscriber of ${event} failed:`, (error as Error).message);
+            }
+        }
+    }
+
+    // Returns a function that removes the subscription
+    public subscribe<K extends DomainEventName>(event: K, handler: DomainEventHandler<K>): () => void {
+        this.emitter.on(event, handler);
+        return () => {
+            this.emitter.off(event, handler);
+        };
+    }
+}
+
+const eventBus = new EventBus();
+export default eventBus;
@@ -0,0 +1,185 @@
+import mongoose, { ClientSession } from 'mongoose';
+import logger from '../Config/logger.config.js';
+import { Job, JobModel } from '../Models/Job.model.js';
+import { Candidate, CandidateModel } from '../Models/Candidate.model.js';
+import { Interview, InterviewModel } from '../Models/Interview.model.js';
+import { Transcript, TranscriptModel } from '../Models/Transcripts.model.js';
+import { IFinalizeCandidatePayload } from '../Schemas/job.schema.js';
+import { hiringRecommendation, interviewStatus, jobStatus, jobType } from '../Utils/types.js';
+import { calculateTimeRemainingMs, getStartWindow } from '../Utils/timeUtils.js';
+import aiService from '../Api/Services/ai.service.js';
+import jobQueue, { DeferJobError } from './jobQueue.js';
+import eventBus from '../Events/eventBus.js';
+
+const scoreWaitDelayMs: number = parseInt(process.env.FINALIZATION_SCORE_WAIT_MS || '10000');
+
+/*
+@handler finalizeCandidateJob
+@description: Finalizes a candidate who has finished the interview (last answer submitted or time ran out) or never started it.
+    - A candidate who never started gets a final score of 0 and a No Hire recommendation, without calling AI.
+    - Otherwise, if any submitted answer is still waiting on its scoring job, the job is deferred until the scores are in.
+      Scoring jobs in the Dead state are not waited on, and those answers count as 0.
+    - The final score is the average of all question scores (unanswered questions count as 0), rounded to one decimal.
+    - The AI summary and recommendation are generated from the full Q&A history. While no AI provider is configured, the job is deferred.
+Finally the candidate is marked Completed with completed_at and 'candidate:completed' is published. Already completed or cancelled candidates are skipped, so the job is safe to run twice.
+
+@params: job: Job - A leased finalize_candidate job
+@returns: Promise<void>
+*/
+export const finalizeCandidateJob = async (job: Job): Promise<void> => {
+    const { candidate_id } = job.payload as IFinalizeCandidatePayload;
+
+    const candidate: Candidate | null = await CandidateModel.findById(candidate_id);
+    if (!candidate) {
+        logger.warn(`Finalization skipped: candidate ${candidate_id} not found.`);
+        return;
+    }
+    if (candidate.status === interviewStatus.COMPLETED || candidate.status === interviewStatus.CANCELLED) return;
+
+    const interview: Interview | null = await InterviewModel.findById(candidate.interview_id);
+    if (!interview) {
+        logger.warn(`Finalization skipped: interview of candidate ${candidate_id} not found.`);
+        return;
+    }
+
+    const now = new Date();
+    const interviewId: string = (interview._id as mongoose.Types.ObjectId).toString();
+    if (candidate.status === interviewStatus.SCHEDULED) {
+        const result = await CandidateModel.updateOne(
+            { _id: candidate._id, status: interviewStatus.SCHEDULED },
+            { $set: {
+                status: interviewStatus.COMPLETED,
+                final_score: 0,
+                ai_summary: 'Candidate did not start the interview.',
+                recommendation: hiringRecommendation.NO_HIRE,
+                finished_at: now,
+                completed_at: now,
+            } }
+        );
+        if (result.modifiedCount > 0) {
+            eventBus.publish('candidate:completed', { interviewId, candidateId: candidate_id, status: interviewStatus.COMPLETED, final_score: 0 });
+        }
+        return;
+    }
+
+    const transcripts: Transcript[] = await TranscriptModel.find({ candidate_id: candidate._id }).sort({ question_order: 1 });
+
+    // Wait for answers whose scoring job is still pending or running
+    const unscoredIds: string[] = transcripts
+        .filter((t) => t.submitted_at && !t.scored_at)
+        .map((t) => `${jobType.SCORE_TRANSCRIPT}:${(t._id as mongoose.Types.ObjectId).toString()}`);
+    if (unscoredIds.length > 0) {
+        const waitingFor: number = await JobModel.countDocuments({
+            unique_key: { $in: unscoredIds },
+            status: { $in: [jobStatus.PENDING, jobStatus.PROCESSING] }
+        });
+        if (waitingFor > 0) {
+            throw new DeferJobError(`Waiting for ${waitingFor} transcript score(s)`, scoreWaitDelayMs);
+        }
+        logger.warn(`Finalizing candidate ${candidate_id} with ${unscoredIds.length} unscored answer(s) whose scoring failed.`);
+    }
+
+    const totalQuestions: number = transcripts.length || interview.num_questions;
+    const totalScore: number = transcripts.reduce((sum, t) => sum + (t.scored_at ? t.score : 0), 0);
+    const final_score: number = Math.round((totalScore / totalQuestions) * 10) / 10;
+
+    if (!aiService.isAvailable()) throw new DeferJobError('No AI provider configured', aiService.unavailableRetryMs);
+    const summary = await aiService.generateSummary(interview.domain, transcripts);
+
+    const result = await CandidateModel.updateOne(
+        { _id: candidate._id, status: interviewStatus.INPROGRESS },
+        { $set: {
+            status: interviewStatus.COMPLETED,
+            final_score,
+            ai_summary: summary.summary_text,
+            recommendation: summary.recommendation,
+            finished_at: candidate.finished_at || now,
+            completed_at: now,
+        } }
+    );
+    if (result.modifiedCount > 0) {
+        eventBus.publish('candidate:completed', { interviewId, candidateId: candidate_id, status: interviewStatus.COMPLETED, final_score });
+        logger.info(`Candidate ${candidate_id} finalized with score ${final_score}.`);
+    }
+};
+
+/*
+@method enqueueFinalizationJob
+@description: Queues the finalization of a candidate. The unique key is derived from the candidate id, so a candidate is finalized only once.
+Pass a session to create the job in the same transaction as the change that finished the candidate.
+
+@params: candidateId: string, interviewId: unknown, session?: ClientSession
+@returns: Promise<Job>
+*/
+export const enqueueFinalizationJob = async (candidateId: string, interviewId: unknown, session?: ClientSession): Promise<Job> => {
+    return await jobQueue.enqueue(
+        jobType.FINALIZE_CANDIDATE,
+        { candidate_id: candidateId },
+        { unique_key: `${jobType.FINALIZE_CANDIDATE}:${candidateId}`, interview_id: interviewId, session }
+    );
+};
+
+/*
+@task sweepUnfinishedCandidates
+@description: Periodic task that finds candidates who will never submit their last answer and queues their finalization:
+    - In Progress candidates whose time budget (as computed by calculateTimeRemainingMs) has run out. finished_at is set first, so they can't access the interview anymore.
+    - Scheduled candidates whose start window (their own time slot, or else scheduled start + buffer) has closed without them starting.
+Cancelled interviews are skipped. Enqueueing is idempotent, so candidates already queued are not queued again.
+*/
+export const sweepUnfinishedCandidates = async (): Promise<void> => {
+    const now = new Date();
+
+    // 1. Candidates who started but ran out of time
+    const inProgress: Candidate[] = await CandidateModel.find({ status: interviewStatus.INPROGRESS, finished_at: null });
+    const interviews: Map<string, Interview> = await loadInterviews(inProgress);
+
+    for (const candidate of inProgress) {
+        const interview = interviews.get(candidate.interview_id.toString());
+        if (!interview || interview.status === interviewStatus.CANCELLED || !candidate.started_at) continue;
+
+        const remainingMs = calculateTimeRemainingMs(candidate.started_at, interview.num_questions, interview.minutes_per_question);
+        if (remainingMs > 0) continue;
+
+        const finished = await CandidateModel.updateOne(
+            { _id: candidate._id, status: interviewStatus.INPROGRESS, finished_at: null },
+            { $set: { finished_at: now } }
+        );
+        if (finished.modifiedCount > 0) {
+            await enqueueFinalizationJob((candidate._id as mongoose.Types.ObjectId).toString(), interview._id);
+            logger.info(`Candidate ${candidate._id} ran out of time. Finalization queued.`);
+        }
+    }
+
+    // 2. Candidates who never started and whose start window has closed
+    const pastInterviews: Interview[] = await InterviewModel.find({
+        scheduled_start_time: { $lte: now },
+        status: { $nin: [interviewStatus.COMPLETED, interviewStatus.CANCELLED] }
+    });
+    const closedInterviews: Interview[] = pastInterviews.filter((interview) => getStartWindow(interview).closes_at < now);
+
+    const noShows: Candidate[] = closedInterviews.length === 0 ? [] : await CandidateModel.find({
+        interview_id: { $in: closedInterviews.map((i) => i._id) },
+        status: interviewStatus.SCHEDULED,
+        slot_start_time: null
+    });
+
+    // Candidates with their own time slot are checked against their slot instead
+    const slotted: Candidate[] = await CandidateModel.find({ status: interviewStatus.SCHEDULED, slot_start_time: { $lte: now } });
+    const slotInterviews: Map<string, Interview> = await loadInterviews(slotted);
+    for (const candidate of slotted) {
+        const interview = slotInterviews.get(candidate.interview_id.toString());
+        if (!interview || interview.status === interviewStatus.COMPLETED || interview.status === interviewStatus.CANCELLED) continue;
+        if (getStartWindow(interview, candidate).closes_at < now) noShows.push(candidate);
+    }
+
+    for (const candidate of noShows) {
+        await enqueueFinalizationJob((candidate._id as mongoose.Types.ObjectId).toString(), candidate.interview_id);
+    }
+};
+
+// Loads the interviews of the given candidates, keyed by interview id
+const loadInterviews = async (candidates: Candidate[]): Promise<Map<string, Interview>> => {
+    const interviewIds = [...new Set(candidates.map((c) => c.interview_id.toString()))];
+    const interviews: Interview[] = await InterviewModel.find({ _id: { $in: interviewIds } });
+    return new Map(interviews.map((i) => [(i._id as mongoose.Types.ObjectId).toString(), i]));
+};
@@ -0,0 +1,274 @@
+import os from 'os';
+import crypto from 'crypto';
+import logger from '../Config/logger.config.js';
+import { Job, JobModel } from '../Models/Job.model.js';
+import { jobStatus, jobType } from '../Utils/types.js';
+import { IEnqueueOptions, JobHandler } from '../Schemas/job.schema.js';
+
+/*
+@class DeferJobError
+Description: Thrown by a job handler when the job can't run yet because it is waiting on other work (e.g. finalization waiting for scores).
+The job is put back to Pending after delayMs without using up one of its attempts.
+*/
+export class DeferJobError extends Error {
+    public readonly delayMs: number;
+
+    constructor(message: string, delayMs: number) {
+        super(message);
+        this.delayMs = delayMs;
+    }
+}
+
+/*
+@class JobQueue
+Description: A durable background job queue backed by the jobs collection in MongoDB. Work is enqueued as a document, and a worker loop in this process
+polls for due jobs, leases them, and runs the handler registered for the job type.
+
+Since the state of every job lives in the database, nothing is lost when the process restarts:
+    - Pending jobs are simply picked up by the next poll.
+    - Jobs that were Processing when the process died are reclaimed once their lease (locked_until) expires.
+While a handler runs, its lease is renewed every third of JOB_LEASE_MS, so a long handler (e.g. several AI calls) doesn't lose it.
+Every lease has its own token in locked_by, and the job is only completed, deferred or failed by the run that holds the current lease.
+Failed attempts are retried with exponential backoff. Once a job runs out of attempts it is moved to the Dead state and waits for a manual retry.
+A handler can throw DeferJobError to reschedule the job without counting it as a failed attempt.
+
+Configuration is read from environment variables, similar to the database connection.
+
+Dependencies:
+    - JobModel: The Mongoose model for the jobs collection.
+    - logger: For logging worker events and failures.
+
+Methods:
+    - registerHandler(type: jobType, handler: JobHandler): void
+    - enqueue(type: jobType, payload: Record<string, any>, options: IEnqueueOptions): Promise<Job>
+    - start(): void
+    - stop(): Promise<void>
+*/
+class JobQueue {
+    private readonly pollIntervalMs: number = parseInt(process.env.JOB_POLL_INTERVAL_MS || '2000');
+    private readonly concurrency: number = parseInt(process.env.JOB_WORKER_CONCURRENCY || '3');
+    private readonly leaseMs: number = parseInt(process.env.JOB_LEASE_MS || '60000');
+    private readonly baseBackoffMs: number = parseInt(process.env.JOB_BASE_BACKOFF_MS || '5000');
+    private readonly maxBackoffMs: number = parseInt(process.env.JOB_MAX_BACKOFF_MS || '600000');
+    private readonly shutdownTimeoutMs: number = parseInt(process.env.JOB_SHUTDOWN_TIMEOUT_MS || '15000');
+
+    // Identifies this process. Each lease adds its own suffix, see leaseNextJob.
+    private readonly workerId: string = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+
+    private handlers = new Map<jobType, JobHandler>();
+    private activeJobs = new Set<Promise<void>>();
+    private pollTimer: NodeJS.Timeout | null = null;
+    private isRunning: boolean = false;
+    private isPolling: boolean = false;
+
+    public registerHandler(type: jobType, handler: JobHandler): void {
+        this.handlers.set(type, handler);
+    }
+
+    /*
+    @method enqueue
+    @description: Adds a job to the queue. Enqueueing is idempotent on unique_key: if a job with the same key already exists, the existing job is returned and nothing is added.
+    A mongoose session can be passed so the job is created in the same transaction as the change that caused it.
+
+    @params: type: jobType, payload: Record<string, any>, options: IEnqueueOptions
+    @returns: Promise<Job>
+    */
+    public async enqueue(type: jobType, payload: Record<string, any>, options: IEnqueueOptions): Promise<Job> {
+        const { unique_key, interview_id = null, max_attempts, run_at = new Date(), session } = options;
+
+        const job = await JobModel.findOneAndUpdate(
+            { unique_key },
+            {
+                $setOnInsert: {
+                    type,
+                    payload,
+                    unique_key,
+                    interview_id,
+                    status: jobStatus.PENDING,
+                    run_at,
+                    ...(max_attempts ? { max_attempts } : {}),
+                }
+            },
+            { upsert: true, new: true, session }
+        );
+
+        // Wake up the worker so new jobs don't wait for the next poll
+        if (this.isRunning && !session) this.schedulePoll(0);
+        return job!;
+    }
+
+    /*
+    @method start
+    @description: Starts the worker loop. Should be called once the database connection is established.
+    */
+    public start(): void {
+        if (this.isRunning) return;
+        this.isRunning = true;
+        logger.info(`Job queue worker ${this.workerId} started with concurrency ${this.concurrency}.`);
+        this.schedulePoll(0);
+    }
+
+    /*
+    @method stop
+    @description: Stops leasing new jobs and waits for the jobs currently running to finish, up to the shutdown timeout.
+    Jobs that don't finish in time are left Processing and will be reclaimed after their lease expires.
+
+    @returns: Promise<void>
+    */
+    public async stop(): Promise<void> {
+        if (!this.isRunning) return;
+        this.isRunning = false;
+        if (this.pollTimer) {
+            clearTimeout(this.pollTimer);
+            this.pollTimer = null;
+        }
+
+        if (this.activeJobs.size > 0) {
+            logger.info(`Waiting for ${this.activeJobs.size} running job(s) to finish...`);
+            let timeout: NodeJS.Timeout | undefined;
+            const timedOut = new Promise<void>((resolve) => {
+                timeout = setTimeout(() => {
+                    logger.warn('Job queue shutdown timed out. Unfinished jobs will be retried after their lease expires.');
+                    resolve();
+                }, this.shutdownTimeoutMs);
+            });
+            await Promise.race([Promise.allSettled([...this.activeJobs]), timedOut]);
+            clearTimeout(timeout);
+        }
+        logger.info('Job queue worker stopped.');
+    }
+
+    private schedulePoll(delayMs: number): void {
+        if (!this.isRunning) return;
+        if (this.pollTimer) clearTimeout(this.pollTimer);
+        this.pollTimer = setTimeout(() => this.poll(), delayMs);
+    }
+
+    // Leases as many due jobs as there are free worker slots, then schedules the next poll
+    private async poll(): Promise<void> {
+        this.pollTimer = null;
+        if (this.isPolling) return;
+        this.isPolling = true;
+
+        try {
+            while (this.isRunning && this.activeJobs.size < this.concurrency) {
+                const job = await this.leaseNextJob();
+                if (!job) break;
+
+                const running: Promise<void> = this.runJob(job).finally(() => {
+                    this.activeJobs.delete(running);
+                    this.schedulePoll(0);
+                });
+                this.activeJobs.add(running);
+            }
+        } catch (error: unknown) {
+            logger.error('Job queue poll failed:', (error as Error).message);
+        } finally {
+            this.isPolling = false;
+            this.schedulePoll(this.pollIntervalMs);
+        }
+    }
+
+    // Atomically claims the oldest due job, either pending or with an expired lease.
+    // locked_by is unique to this lease, so a run whose lease expired and was taken over can't complete or fail the job.
+    private async leaseNextJob(): Promise<Job | null> {
+        const now = new Date();
+        return await JobModel.findOneAndUpdate(
+            {
+                type: { $in: [...this.handlers.keys()] },
+                $or: [
+                    { status: jobStatus.PENDING, run_at: { $lte: now } },
+                    { status: jobStatus.PROCESSING, locked_until: { $lt: now } },
+                ]
+            },
+            {
+                $set: {
+                    status: jobStatus.PROCESSING,
+                    locked_by: `${this.workerId}:${crypto.randomBytes(4).toString('hex')}`,
+                    locked_until: new Date(now.getTime() + this.leaseMs),
+                },
+                $inc: { attempts: 1 },
+            },
+            { new: true, sort: { run_at: 1 } }
+        );
+    }
+
+    private async runJob(job: Job): Promise<void> {
+        const handler = this.handlers.get(job.type)!;
+        const heartbeat: NodeJS.Timeout = setInterval(() => this.renewLease(job), Math.max(1, Math.floor(this.leaseMs / 3)));
+        try {
+            await handler(job);
+            await JobModel.updateOne(
+                { _id: job._id, locked_by: job.locked_by },
+                { $set: { status: jobStatus.COMPLETED, completed_at: new Date(), locked_by: null, locked_until: null, last_error: '' } }
+            );
+            logger.debug(`Job ${job._id} (${job.type}) completed.`);
+        } catch (error: unknown) {
+            if (error instanceof DeferJobError) {
+                await this.defer(job, error);
+            } else {
+                await this.handleFailure(job, error as Error);
+            }
+        } finally {
+            clearInterval(heartbeat);
+        }
+    }
+
+    // Extends the lease of a running job, as long as this run still holds it
+    private async renewLease(job: Job): Promise<void> {
+        try {
+            await JobModel.updateOne(
+                { _id: job._id, status: jobStatus.PROCESSING, locked_by: job.locked_by },
+                { $set: { locked_until: new Date(Date.now() + this.leaseMs) } }
+            );
+        } catch (error: unknown) {
+            logger.error(`Failed to renew the lease of job ${job._id}:`, (error as Error).message);
+        }
+    }
+
+    // Puts the job back to Pending after the requested delay and gives back the attempt it used
+    private async defer(job: Job, error: DeferJobError): Promise<void> {
+        try {
+            await JobModel.updateOne(
+                { _id: job._id, locked_by: job.locked_by },
+                {
+                    $set: { status: jobStatus.PENDING, run_at: new Date(Date.now() + error.delayMs), locked_by: null, locked_until: null, last_error: error.message },
+                    $inc: { attempts: -1 },
+                }
+            );
+            logger.debug(`Job ${job._id} (${job.type}) deferred: ${error.message}`);
+        } catch (updateError: unknown) {
+            logger.error(`Failed to defer job ${job._id}:`, (updateError as Error).message);
+        }
+    }
+
+    // Reschedules the job with exponential backoff, or moves it to Dead once it is out of attempts
+    private async handleFailure(job: Job, error: Error): Promise<void> {
+        const isDead = job.attempts >= job.max_attempts;
+        const update = isDead
+            ? { status: jobStatus.DEAD }
+            : { status: jobStatus.PENDING, run_at: new Date(Date.now() + this.getBackoffDelay(job.attempts)) };
+
+        try {
+            await JobModel.updateOne(
+                { _id: job._id, locked_by: job.locked_by },
+                { $set: { ...update, locked_by: null, locked_until: null, last_error: error.message } }
+            );
+        } catch (updateError: unknown) {
+            logger.error(`Failed to record failure of job ${job._id}:`, (updateError as Error).message);
+        }
+
+        if (isDead) {
+            logger.error(`Job ${job._id} (${job.type}) moved to dead-letter after ${job.attempts} attempts: ${error.message}`);
+        } else {
+            logger.warn(`Job ${job._id} (${job.type}) failed on attempt ${job.attempts}/${job.max_attempts}: ${error.message}`);
+        }
+    }
+
+    private getBackoffDelay(attempts: number): number {
+        return Math.min(this.baseBackoffMs * 2 ** (attempts - 1), this.maxBackoffMs);
+    }
+}
+
+const jobQueue = new JobQueue();
+export default jobQueue;
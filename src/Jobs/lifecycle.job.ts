@@ -0,0 +1,48 @@
+import mongoose from 'mongoose';
+import logger from '../Config/logger.config.js';
+import { Interview, InterviewModel } from '../Models/Interview.model.js';
+import { CandidateModel } from '../Models/Candidate.model.js';
+import { interviewStatus } from '../Utils/types.js';
+import { getInterviewEndTime } from '../Utils/timeUtils.js';
+import interviewLifecycleService from '../Api/Services/interviewLifecycle.service.js';
+
+/*
+@task advanceInterviewLifecycles
+@description: Periodic task that moves interviews forward based on time:
+    - Scheduled -> In Progress once scheduled_start_time has passed.
+    - In Progress -> Completed once the start window plus the maximum interview duration has passed and every candidate is finalized
+      (Completed or Cancelled). Candidates who never finish are finalized by the finalization sweeper, so this eventually happens for every interview.
+A failure on one interview is logged and doesn't stop the others.
+*/
+export const advanceInterviewLifecycles = async (): Promise<void> => {
+    const now = new Date();
+
+    const dueToStart: Interview[] = await InterviewModel.find({
+        status: interviewStatus.SCHEDULED,
+        scheduled_start_time: { $lte: now }
+    });
+    for (const interview of dueToStart) {
+        await runSafely(interview, () => interviewLifecycleService.transition(interview._id as mongoose.Types.ObjectId, interviewStatus.INPROGRESS));
+    }
+
+    const inProgress: Interview[] = await InterviewModel.find({ status: interviewStatus.INPROGRESS });
+    for (const interview of inProgress) {
+        if (getInterviewEndTime(interview) > now) continue;
+
+        const unfinished: number = await CandidateModel.countDocuments({
+            interview_id: interview._id,
+            status: { $nin: [interviewStatus.COMPLETED, interviewStatus.CANCELLED] }
+        });
+        if (unfinished > 0) continue;
+
+        await runSafely(interview, () => interviewLifecycleService.transition(interview._id as mongoose.Types.ObjectId, interviewStatus.COMPLETED));
+    }
+};
+
+const runSafely = async (interview: Interview, action: () => Promise<unknown>): Promise<void> => {
+    try {
+        await action();
+    } catch (error: unknown) {
+        logger.error(`Failed to advance lifecycle of interview ${interview._id}:`, (error as Error).message);
+    }
+};
@@ -0,0 +1,166 @@
+import mongoose, { ClientSession } from 'mongoose';
+import logger from '../Config/logger.config.js';
+import { Job } from '../Models/Job.model.js';
+import { Notification, NotificationModel } from '../Models/Notification.model.js';
+import { Candidate, CandidateModel } from '../Models/Candidate.model.js';
+import { Interview, InterviewModel } from '../Models/Interview.model.js';
+import { ISendNotificationPayload } from '../Schemas/job.schema.js';
+import { INotificationTemplateData } from '../Schemas/notification.schema.js';
+import { interviewStatus, jobType, notificationStatus, notificationType } from '../Utils/types.js';
+import { generateAccessLink } from '../Utils/accessLinkUtils.js';
+import { getStartWindow } from '../Utils/timeUtils.js';
+import { getMailTransport } from '../Notifications/mailer.js';
+import { renderNotification } from '../Notifications/templates.js';
+import notificationService from '../Api/Services/notification.service.js';
+import jobQueue from './jobQueue.js';
+import eventBus from '../Events/eventBus.js';
+
+const candidateAppUrl: string = (process.env.CANDIDATE_APP_URL || 'http://localhost:5173/interview').replace(/\/$/, '');
+
+/*
+@handler sendNotificationJob
+@description: Renders and delivers a single notification through the configured mail transport, and stores the delivery status on it.
+    - A message that no longer applies is marked Skipped: the candidate or interview was deleted, an invitation or reminder
+      for a candidate who can't take the interview anymore, or a reminder for an interview that is not Scheduled.
+    - An invitation issues a new access link for the candidate, since link tokens are only stored as hashes. The link is stored once
+      the invitation is sent, so a failed send keeps the previous link working. After that the previous link stops working,
+      and 'candidate:access_revoked' disconnects sessions that used it.
+A delivery error is stored in last_error and rethrown, so the queue retries the job. Once the job runs out of attempts, the notification is Failed.
+
+@params: job: Job - A leased send_notification job
+@returns: Promise<void>
+*/
+export const sendNotificationJob = async (job: Job): Promise<void> => {
+    const { notification_id } = job.payload as ISendNotificationPayload;
+
+    const notification: Notification | null = await NotificationModel.findById(notification_id);
+    if (!notification) {
+        logger.warn(`Notification ${notification_id} not found.`);
+        return;
+    }
+    if (notification.status !== notificationStatus.PENDING) return;
+
+    const candidate: Candidate | null = await CandidateModel.findById(notification.candidate_id);
+    const interview: Interview | null = candidate ? await InterviewModel.findById(candidate.interview_id) : null;
+    const skipReason: string | null = getSkipReason(notification, candidate, interview);
+    if (skipReason) {
+        await NotificationModel.updateOne({ _id: notification._id }, { $set: { status: notificationStatus.SKIPPED, last_error: skipReason } });
+        return;
+    }
+
+    // The times a candidate sees are the ones of their own start window, which is their time slot if they have one
+    const { opens_at, closes_at } = getStartWindow(interview!, candidate);
+    const data: INotificationTemplateData = {
+        candidate_name: candidate!.full_name || '',
+        interview_title: interview!.title,
+        interview_domain: interview!.domain,
+        scheduled_start_time: opens_at,
+        buffer_time_minutes: Math.round((closes_at.getTime() - opens_at.getTime()) / 60000),
+        num_questions: interview!.num_questions,
+        minutes_per_question: interview!.minutes_per_question,
+    };
+
+    try {
+        const accessLink = notification.type === notificationType.INVITATION ? generateAccessLink(interview!, candidate) : null;
+        if (accessLink) data.access_link = `${candidateAppUrl}/${accessLink.token}`;
+
+        const transport = getMailTransport();
+        const { message_id } = await transport.send({ to: notification.recipient, ...renderNotification(notification.type, data) });
+
+        // The new link only replaces the old one once it has been delivered
+        if (accessLink) {
+            await CandidateModel.updateOne({ _id: candidate!._id }, { $set: accessLink.fields });
+            eventBus.publish('candidate:access_revoked', {
+                interviewId: (interview!._id as mongoose.Types.ObjectId).toString(),
+                candidateId: (candidate!._id as mongoose.Types.ObjectId).toString(),
+            });
+        }
+
+        await NotificationModel.updateOne(
+            { _id: notification._id },
+            { $set: { status: notificationStatus.SENT, transport: transport.name, message_id, sent_at: new Date(), last_error: '' }, $inc: { attempts: 1 } }
+        );
+    } catch (error: unknown) {
+        const status = job.attempts >= job.max_attempts ? notificationStatus.FAILED : notificationStatus.PENDING;
+        await NotificationModel.updateOne(
+            { _id: notification._id },
+            { $set: { status, last_error: (error as Error).message }, $inc: { attempts: 1 } }
+        );
+        throw error;
+    }
+};
+
+// Returns why a notification should not be sent anymore, or null if it should
+const getSkipReason = (notification: Notification, candidate: Candidate | null, interview: Interview | null): string | null => {
+    if (!candidate || !interview) return 'Candidate or interview no longer exists';
+
+    const canTakeInterview: boolean = !candidate.finished_at
+        && (candidate.status === interviewStatus.SCHEDULED || candidate.status === interviewStatus.INPROGRESS);
+
+    switch (notification.type) {
+        case notificationType.INVITATION:
+            if (!canTakeInterview || interview.status === interviewStatus.CANCELLED || interview.status === interviewStatus.COMPLETED) {
+                return 'Candidate can no longer take the interview';
+            }
+            return null;
+        case notificationType.REMINDER_24H:
+        case notificationType.REMINDER_1H:
+            if (interview.status === interviewStatus.CANCELLED || interview.status === interviewStatus.COMPLETED
+                || candidate.status !== interviewStatus.SCHEDULED || getStartWindow(interview, candidate).opens_at <= new Date()) {
+                return 'Interview is no longer upcoming';
+            }
+            return null;
+        default:
+            return null;
+    }
+};
+
+/*
+@method enqueueNotificationJob
+@description: Queues the delivery of a notification. The unique key is derived from the notification id, so a notification is delivered once.
+
+@params: notificationId: string, interviewId: unknown, session?: ClientSession
+@returns: Promise<Job>
+*/
+export const enqueueNotificationJob = async (notificationId: string, interviewId: unknown, session?: ClientSession): Promise<Job> => {
+    return await jobQueue.enqueue(
+        jobType.SEND_NOTIFICATION,
+        { notification_id: notificationId },
+        { unique_key: `${jobType.SEND_NOTIFICATION}:${notificationId}`, interview_id: interviewId, session }
+    );
+};
+
+/*
+@task queueInterviewReminders
+@description: Periodic task that queues reminders for candidates whose interview starts soon:
+    - reminder_1h once it starts within an hour.
+    - reminder_24h once it starts within 24 hours, unless it is already within the hour (then only reminder_1h is sent).
+A candidate with their own time slot is reminded of their slot, the others of the scheduled start time of the interview.
+Reminders are deduplicated per candidate, so running the task often is cheap and sends each reminder once.
+*/
+export const queueInterviewReminders = async (): Promise<void> => {
+    const now = new Date();
+    const hourMs = 60 * 60 * 1000;
+    const soon = { $gt: now, $lte: new Date(now.getTime() + 24 * hourMs) };
+    const reminderFor = (startsAt: Date): notificationType =>
+        startsAt.getTime() - now.getTime() <= hourMs ? notificationType.REMINDER_1H : notificationType.REMINDER_24H;
+
+    const upcoming: Interview[] = await InterviewModel.find({
+        status: interviewStatus.SCHEDULED,
+        scheduled_start_time: soon
+    });
+
+    for (const interview of upcoming) {
+        const type: notificationType = reminderFor(interview.scheduled_start_time);
+
+        const candidates: Candidate[] = await CandidateModel.find({ interview_id: interview._id, status: interviewStatus.SCHEDULED, slot_start_time: null });
+        for (const candidate of candidates) {
+            await notificationService.queueNotification(candidate, type);
+        }
+    }
+
+    const slotted: Candidate[] = await CandidateModel.find({ status: interviewStatus.SCHEDULED, slot_start_time: soon });
+    for (const candidate of slotted) {
+        await notificationService.queueNotification(candidate, reminderFor(candidate.slot_start_time as Date));
+    }
+};
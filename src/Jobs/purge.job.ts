@@ -0,0 +1,24 @@
+import mongoose from 'mongoose';
+import logger from '../Config/logger.config.js';
+import { Interview, InterviewModel } from '../Models/Interview.model.js';
+import interviewService from '../Api/Services/interview.service.js';
+
+/*
+@task purgeDeletedInterviews
+@description: Periodic task that deletes for good the interviews that were soft deleted more than purgeAfterDays ago,
+with their candidates, transcripts, notifications and scoring jobs. An interview restored in the meantime is left alone.
+A failure on one interview is logged and doesn't stop the others.
+*/
+export const purgeDeletedInterviews = async (): Promise<void> => {
+    const cutoff = new Date(Date.now() - interviewService.purgeAfterDays * 24 * 60 * 60 * 1000);
+
+    const due: Interview[] = await InterviewModel.find({ deleted_at: { $ne: null, $lte: cutoff } }).select('_id');
+    for (const interview of due) {
+        try {
+            const purged: boolean = await interviewService.purgeInterview(interview._id as mongoose.Types.ObjectId, cutoff);
+            if (purged) logger.info(`Purged deleted interview ${interview._id}`);
+        } catch (error: unknown) {
+            logger.error(`Failed to purge interview ${interview._id}:`, (error as Error).message);
+        }
+    }
+};
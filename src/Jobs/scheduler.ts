@@ -0,0 +1,75 @@
+import logger from '../Config/logger.config.js';
+
+interface IScheduledTask {
+    name: string;
+    intervalMs: number;
+    handler: () => Promise<void>;
+    timer: NodeJS.Timeout | null;
+    running: Promise<void> | null;
+}
+
+/*
+@class Scheduler
+Description: Runs registered maintenance tasks (sweepers) periodically in this process. A task never overlaps with itself:
+the next run is scheduled only after the current one finishes. Errors are logged and the task keeps running on the next tick.
+
+Tasks should be idempotent and keep their state in the database, and should hand heavy work to the job queue,
+so it doesn't matter if a tick is skipped during restarts or runs in more than one process.
+
+Methods:
+    - register(name: string, intervalMs: number, handler: () => Promise<void>): void
+    - start(): void
+    - stop(): Promise<void>
+*/
+class Scheduler {
+    private tasks: IScheduledTask[] = [];
+    private isRunning: boolean = false;
+
+    public register(name: string, intervalMs: number, handler: () => Promise<void>): void {
+        this.tasks.push({ name, intervalMs, handler, timer: null, running: null });
+    }
+
+    public start(): void {
+        if (this.isRunning) return;
+        this.isRunning = true;
+        this.tasks.forEach((task) => this.scheduleNext(task, 0));
+        logger.info(`Scheduler started with ${this.tasks.length} task(s).`);
+    }
+
+    /*
+    @method stop
+    @description: Stops scheduling new runs and waits for the runs in progress to finish.
+    */
+    public async stop(): Promise<void> {
+        if (!this.isRunning) return;
+        this.isRunning = false;
+        this.tasks.forEach((task) => {
+            if (task.timer) clearTimeout(task.timer);
+            task.timer = null;
+        });
+        await Promise.allSettled(this.tasks.map((task) => task.running).filter(Boolean));
+        logger.info('Scheduler stopped.');
+    }
+
+    private scheduleNext(task: IScheduledTask, delayMs: number): void {
+        if (!this.isRunning) return;
+        task.timer = setTimeout(() => this.run(task), delayMs);
+    }
+
+    private async run(task: IScheduledTask): Promise<void> {
+        task.timer = null;
+        task.running = task.handler()
+            .catch((error: unknown) => {
+                logger.error(`Scheduled task ${task.name} failed:`, (error as Error).message);
+            })
+            .finally(() => {
+                task.running = null;
+            });
+
+        await task.running;
+        this.scheduleNext(task, task.intervalMs);
+    }
+}
+
+const scheduler = new Scheduler();
+export default scheduler;
@@ -0,0 +1,101 @@
+import mongoose, { ClientSession } from 'mongoose';
+import logger from '../Config/logger.config.js';
+import { Job } from '../Models/Job.model.js';
+import { TranscriptModel, Transcript } from '../Models/Transcripts.model.js';
+import { CandidateModel } from '../Models/Candidate.model.js';
+import { InterviewModel } from '../Models/Interview.model.js';
+import { IScoreTranscriptPayload } from '../Schemas/job.schema.js';
+import { jobType } from '../Utils/types.js';
+import { getRubric } from '../Utils/rubricUtils.js';
+import { IEvaluationResult } from '../Schemas/ai.schema.js';
+import aiService from '../Api/Services/ai.service.js';
+import jobQueue, { DeferJobError } from './jobQueue.js';
+import eventBus from '../Events/eventBus.js';
+
+/*
+@handler scoreTranscriptJob
+@description: Scores a single submitted answer, see scoreTranscript.
+Any error thrown here (e.g. AI failure) marks the attempt as failed and the queue retries it with backoff.
+While no AI provider is configured, the job is deferred without using up its attempts.
+
+@params: job: Job - A leased score_transcript job
+@returns: Promise<void>
+*/
+export const scoreTranscriptJob = async (job: Job): Promise<void> => {
+    const { transcript_id } = job.payload as IScoreTranscriptPayload;
+    if (!aiService.isAvailable()) throw new DeferJobError('No AI provider configured', aiService.unavailableRetryMs);
+    await scoreTranscript(transcript_id);
+};
+
+/*
+@method scoreTranscript
+@description: Scores a single submitted answer using AI on the rubric of its transcript, and stores the score of every criterion,
+the key points covered and missed, the weighted total score and the AI feedback on the transcript.
+If the transcript, candidate or interview no longer exists (e.g. the interview was deleted), there is nothing to score and null is returned.
+An empty answer scores 0 on every criterion and misses every key point, without calling AI. Once stored, 'score:updated' is published for the dashboards.
+Besides the scoring job, adaptive interviews score an answer right away to choose the next question, and delay its job until after that.
+An answer that is already scored is returned without calling AI. The score is only stored if the transcript is still unscored,
+so if both ever run at the same time, only one result is kept.
+
+@params: transcriptId: string
+@returns: Promise<Transcript | null> - The scored transcript.
+*/
+export const scoreTranscript = async (transcriptId: string): Promise<Transcript | null> => {
+    const transcript = await TranscriptModel.findById(transcriptId);
+    if (!transcript) {
+        logger.warn(`Scoring skipped: transcript ${transcriptId} not found.`);
+        return null;
+    }
+    if (transcript.scored_at) return transcript;
+
+    const candidate = await CandidateModel.findById(transcript.candidate_id);
+    const interview = candidate ? await InterviewModel.findById(candidate.interview_id) : null;
+    if (!candidate || !interview) {
+        logger.warn(`Scoring skipped: candidate or interview of transcript ${transcriptId} not found.`);
+        return null;
+    }
+
+    const rubric = getRubric(transcript.rubric);
+    let result: IEvaluationResult = {
+        score: 0,
+        feedback: 'No answer was submitted.',
+        criteria_scores: rubric.criteria.map((criterion) => ({ name: criterion.name, score: 0, max_score: criterion.max_score, weight: criterion.weight, comment: '' })),
+        key_points_covered: [],
+        key_points_missed: rubric.key_points,
+    };
+    if (transcript.answer_text && transcript.answer_text.trim().length > 0) {
+        result = await aiService.evaluateAnswer(interview.domain, transcript.question_text, transcript.answer_text, rubric);
+    }
+
+    const { score, feedback, criteria_scores, key_points_covered, key_points_missed } = result;
+    const scoredTranscript = await TranscriptModel.findOneAndUpdate(
+        { _id: transcript._id, scored_at: null },
+        { $set: { score, feedback, criteria_scores, key_points_covered, key_points_missed, scored_at: new Date() } },
+        { new: true }
+    );
+    if (!scoredTranscript) return await TranscriptModel.findById(transcript._id);
+
+    eventBus.publish('score:updated', {
+        interviewId: (interview._id as mongoose.Types.ObjectId).toString(),
+        candidateId: (candidate._id as mongoose.Types.ObjectId).toString(),
+        transcript: scoredTranscript,
+    });
+    return scoredTranscript;
+};
+
+/*
+@method enqueueScoringJob
+@description: Queues the scoring of a submitted transcript. The unique key is derived from the transcript id, so a transcript is never queued for scoring twice.
+Pass a session to create the job in the same transaction as the answer submission.
+Pass run_at to delay the job, e.g. while the answer is scored right away for an adaptive interview. The job then finds it scored and skips it.
+
+@params: transcriptId: string, interviewId: unknown, session?: ClientSession, run_at?: Date
+@returns: Promise<Job>
+*/
+export const enqueueScoringJob = async (transcriptId: string, interviewId: unknown, session?: ClientSession, run_at?: Date): Promise<Job> => {
+    return await jobQueue.enqueue(
+        jobType.SCORE_TRANSCRIPT,
+        { transcript_id: transcriptId },
+        { unique_key: `${jobType.SCORE_TRANSCRIPT}:${transcriptId}`, interview_id: interviewId, session, run_at }
+    );
+};
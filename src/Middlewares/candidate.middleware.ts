@@ -2,82 +2,107 @@ import { Request, NextFunction, Response , RequestHandler } from "express";
 import { CandidateAuthRequest, interviewStatus } from "../Utils/types.js";
 import { Candidate, CandidateModel } from "../Models/Candidate.model.js";
 import { Interview, InterviewModel } from "../Models/Interview.model.js";
-import { NotFoundError, UnauthorizedError } from "../Utils/ErrorClass.js";
-
-// Helper function to calculate remaining time in minutes
-// First calculates total allowed time based on number of questions and time per question
-// Then subtracts elapsed time since interview started to get remaining time
-// Returns remaining time in minutes
-const calculateTimeRemaining = (startTime: Date, numQuestions: number, timePerQuestionMinutes: number): number => {
-    const totalAllowedTimeMs = numQuestions * timePerQuestionMinutes * 60 * 1000;
-    const elapsedMs = Date.now() - startTime.getTime();
-    const remainingMs = totalAllowedTimeMs - elapsedMs;
-    return Math.floor(remainingMs / (60 * 1000)); 
-};
-
+import { ForbiddenError, GoneError, NotFoundError, UnauthorizedError } from "../Utils/ErrorClass.js";
+import { calculateTimeRemainingMs, getStartWindow } from "../Utils/timeUtils.js";
+import { hashAccessLinkToken } from "../Utils/accessLinkUtils.js";
 
 /*
-@Middleware to authenticate candidate based on access link token
+@function verifyCandidateAccess
+Resolves a candidate's access link token to the candidate and interview documents.
 Checks:
     - Validity of token
-    - Candidate existence
-    - Interview existence
-    - Interview status and timing constraints
+    - Candidate existence, looked up by the hash of the token
+    - Link not revoked (403) and not expired (410)
+    - Candidate and interview not cancelled (410)
+    - Interview existence, and not deleted (410), even while it can still be restored
+    - Interview status and timing constraints, with the candidate's own time slot if they have one
 
-Adds candidate and interview details to request object upon successful authentication
+Throws the matching AppError if any check fails. Shared by the REST middleware and the candidate WebSocket channel,
+so both apply exactly the same rules.
 */
-export const authenticateCandidate = async (req: Request, res: Response, next: NextFunction) => {
-    try {
-        const candidateToken = req.params.access_link_token as string;
-        if(!candidateToken){
-            throw new UnauthorizedError("Candidate token missing");
-        }
+const cancelledMessage = "This interview has been cancelled by the interviewer";
 
-        const candidate: Candidate | null = await CandidateModel.findOne({ access_link_token: candidateToken });
-        if(!candidate){
-            throw new NotFoundError("Candidate not found");
-        }
+export const verifyCandidateAccess = async (candidateToken: string): Promise<{ candidate: Candidate, interview: Interview }> => {
+    if(!candidateToken){
+        throw new UnauthorizedError("Candidate token missing");
+    }
 
-        //If interview already completed then send 410 Gone status
-        if(candidate.status === interviewStatus.COMPLETED){
-            res.status(410).json({
-                message: "Interview already completed",
-                candidateDetails: candidate
-            });
-            return;
-        }
+    const candidate: Candidate | null = await CandidateModel.findOne({ access_link_hash: hashAccessLinkToken(candidateToken) });
+    if(!candidate){
+        throw new NotFoundError("Candidate not found");
+    }
+
+    if(candidate.access_link_revoked_at){
+        throw new ForbiddenError("This access link has been revoked");
+    }
+
+    if(candidate.status === interviewStatus.CANCELLED){
+        throw new GoneError(cancelledMessage);
+    }
 
-        const interview: Interview | null = await InterviewModel.findById(candidate.interview_id);
-        if(!interview){
-            throw new NotFoundError("Associated interview not found");
+    //If interview already completed (or candidate finished and is awaiting finalization) then send 410 Gone status
+    if(candidate.status === interviewStatus.COMPLETED || candidate.finished_at){
+        throw new GoneError("Interview already completed");
+    }
+
+    if(candidate.access_link_expires_at <= new Date()){
+        throw new GoneError("This access link has expired");
+    }
+
+    const interview: Interview | null = await InterviewModel.findById(candidate.interview_id);
+    if(!interview){
+        throw new NotFoundError("Associated interview not found");
+    }
+
+    if(interview.deleted_at){
+        throw new GoneError("This interview has been deleted by the interviewer");
+    }
+
+    if(interview.status === interviewStatus.CANCELLED){
+        throw new GoneError(cancelledMessage);
+    }
+
+    //If status is scheduled, check if current time is within the candidate's start window (their own slot, or scheduled time + buffer)
+    //If status is in progress, check if current time is within startedAt + timeRemaining
+    if( candidate.status === interviewStatus.SCHEDULED ){
+
+        // Get current time and calculate the candidate's start window
+        const currentTime = new Date();
+        const { opens_at, closes_at } = getStartWindow(interview, candidate);
+
+        // Check if current time is within the allowed window
+        if(currentTime < opens_at || currentTime > closes_at){
+            throw new UnauthorizedError("Interview not yet started or buffer time exceeded");
         }
+        
+    }else if( candidate.status === interviewStatus.INPROGRESS ){
+        //Get startedAt, numQuestions, minutesPerQuestion to calculate time remaining
+        const startedAt : Date = candidate.started_at;
+        const minutesPerQuestion : number= interview.minutes_per_question;
+        const numQuestions : number= interview.num_questions;
 
-        //If status is scheduled, check if current time is within scheduled time + buffer
-        //If status is in progress, check if current time is within startedAt + timeRemaining
-        if( candidate.status === interviewStatus.SCHEDULED ){
-
-            // Get current time and calculate scheduled time with buffer
-            const currentTime = new Date();
-            const buffer_time_minutes : number= interview.buffer_time_minutes;
-            const scheduledTimeWithBuffer: Date = new Date(interview.scheduled_start_time.getTime() + buffer_time_minutes * 60000);
-
-            // Check if current time is within the allowed window
-            if(currentTime < interview.scheduled_start_time || currentTime > scheduledTimeWithBuffer){
-                throw new UnauthorizedError("Interview not yet started or buffer time exceeded");
-            }
-            
-        }else if( candidate.status === interviewStatus.INPROGRESS ){
-            //Get startedAt, numQuestions, minutesPerQuestion to calculate time remaining
-            const startedAt : Date = candidate.started_at;
-            const minutesPerQuestion : number= interview.minutes_per_question;
-            const numQuestions : number= interview.num_questions;
-
-            const timeRemaining = calculateTimeRemaining(startedAt, numQuestions, minutesPerQuestion);
-            if(timeRemaining <= 0){
-                throw new UnauthorizedError("Interview time has elapsed");
-            }
-            
+        //Once the time budget is used up the interview is over for the candidate, same as completed
+        const timeRemainingMs = calculateTimeRemainingMs(startedAt, numQuestions, minutesPerQuestion);
+        if(timeRemainingMs <= 0){
+            throw new GoneError("Interview time has elapsed");
         }
+        
+    }
+
+    return { candidate, interview };
+}
+
+
+/*
+@Middleware to authenticate candidate based on access link token
+Uses verifyCandidateAccess for all the checks.
+
+Adds candidate and interview details to request object upon successful authentication
+*/
+export const authenticateCandidate = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const candidateToken = req.params.access_link_token as string;
+        const { candidate, interview } = await verifyCandidateAccess(candidateToken);
 
         // Attach candidate and interview details to request object
         (req as CandidateAuthRequest).candidate = candidate;
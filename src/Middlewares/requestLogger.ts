@@ -5,14 +5,17 @@ import logger from '../Config/logger.config.js';
 Middleware to log incoming HTTP requests.
 It logs the HTTP method, URL, response status code, and the time taken to process the request.
 We use the 'finish' event on the response object to ensure we log the status code after the response has been sent.
+Candidate access link tokens in the URL are masked, as they are credentials and are only stored as hashes.
 */
 
+const maskAccessLinkToken = (url: string): string => url.replace(/^(\/api\/candidate\/)[^/?]+/, '$1***');
+
 export const requestLogger = (req: Request, res: Response, next: NextFunction) => {
     const start = Date.now();
 
     res.on('finish', () => {
         const duration = Date.now() - start;
-        logger.info(`${req.method}  ${req.originalUrl} ${res.statusCode} - ${duration}ms`);
+        logger.info(`${req.method}  ${maskAccessLinkToken(req.originalUrl)} ${res.statusCode} - ${duration}ms`);
     });
 
     next();
@@ -0,0 +1,47 @@
+import mongoose from 'mongoose';
+import logger from '../Config/logger.config.js';
+import { CandidateModel } from '../Models/Candidate.model.js';
+import { InterviewModel, Interview } from '../Models/Interview.model.js';
+import { getAccessLinkExpiry, hashAccessLinkToken } from '../Utils/accessLinkUtils.js';
+
+/*
+@migration migrateAccessLinkHashes
+@description: Replaces the plaintext access_link_token of existing candidates with its hash and an expiry derived from the interview.
+The links already sent to candidates keep working, as the middleware hashes the token from the URL before the lookup.
+Must run before the candidate indexes are built, as the unique index on access_link_hash needs every candidate to have a hash.
+It is safe to run on every start: only candidates that still have a plaintext token are updated.
+
+@params: None
+@returns: Promise<void>
+*/
+export const migrateAccessLinkHashes = async (): Promise<void> => {
+    // access_link_token is not in the schema anymore, so read the raw documents
+    const candidates = await CandidateModel.collection
+        .find({ access_link_token: { $exists: true } }, { projection: { access_link_token: 1, interview_id: 1 } })
+        .toArray();
+    if (candidates.length === 0) return;
+
+    const interviews: Interview[] = await InterviewModel.find({ _id: { $in: [...new Set(candidates.map((c) => c.interview_id.toString()))] } });
+    const interviewById = new Map<string, Interview>(interviews.map((i) => [(i._id as mongoose.Types.ObjectId).toString(), i]));
+
+    const now = new Date();
+    const result = await CandidateModel.collection.bulkWrite(candidates.map((candidate) => {
+        const interview = interviewById.get(candidate.interview_id.toString());
+        return {
+            updateOne: {
+                filter: { _id: candidate._id },
+                update: {
+                    $set: {
+                        access_link_hash: hashAccessLinkToken(candidate.access_link_token),
+                        access_link_issued_at: now,
+                        // Candidates of a deleted interview can't log in anyway
+                        access_link_expires_at: interview ? getAccessLinkExpiry(interview) : now,
+                        access_link_revoked_at: null,
+                    },
+                    $unset: { access_link_token: '' },
+                }
+            }
+        };
+    }));
+    logger.info(`Migration: hashed the access links of ${result.modifiedCount} candidate(s).`);
+};
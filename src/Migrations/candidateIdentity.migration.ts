@@ -0,0 +1,61 @@
+import mongoose from 'mongoose';
+import logger from '../Config/logger.config.js';
+import { CandidateModel, Candidate } from '../Models/Candidate.model.js';
+import { InterviewModel, Interview } from '../Models/Interview.model.js';
+import personService from '../Api/Services/person.service.js';
+
+/*
+@migration migrateCandidateIdentity
+@description: Moves candidate identity from a globally unique email to (interview_id, email), and links existing candidates to persons.
+    1. Drops the old unique index on email, so the same email can be invited to more than one interview.
+    2. Builds the indexes of the candidate schema, including the unique (interview_id, email) index.
+    3. Links every candidate without a person_id to the person of their email and interviewer, creating the person if needed.
+It is safe to run on every start: each step only does work that is still left, so after the first run it is a few cheap queries.
+
+@params: None
+@returns: Promise<void>
+*/
+export const migrateCandidateIdentity = async (): Promise<void> => {
+    const collectionExists = (await mongoose.connection.db!.listCollections({ name: CandidateModel.collection.name }).toArray()).length > 0;
+    if (collectionExists) {
+        const indexes = await CandidateModel.collection.indexes();
+        const globalEmailIndex = indexes.find((index) => index.unique && Object.keys(index.key).length === 1 && index.key.email !== undefined);
+        if (globalEmailIndex?.name) {
+            await CandidateModel.collection.dropIndex(globalEmailIndex.name);
+            logger.info(`Migration: dropped the global unique index ${globalEmailIndex.name} on candidate email.`);
+        }
+    }
+    await CandidateModel.createIndexes();
+
+    const unlinked: Candidate[] = await CandidateModel.find({ $or: [{ person_id: null }, { person_id: { $exists: false } }] });
+    if (unlinked.length === 0) return;
+
+    const interviews: Interview[] = await InterviewModel.find({ _id: { $in: [...new Set(unlinked.map((c) => c.interview_id.toString()))] } });
+    const interviewerOf = new Map<string, string>(interviews.map((i) => [(i._id as mongoose.Types.ObjectId).toString(), i.interviewerId.toString()]));
+
+    // Group by interviewer, as persons are scoped to the interviewer
+    const byInterviewer = new Map<string, Candidate[]>();
+    unlinked.forEach((candidate) => {
+        const interviewerId = interviewerOf.get(candidate.interview_id.toString());
+        if (!interviewerId) return;
+        if (!byInterviewer.has(interviewerId)) byInterviewer.set(interviewerId, []);
+        byInterviewer.get(interviewerId)!.push(candidate);
+    });
+
+    let linked = 0;
+    for (const [interviewerId, candidates] of byInterviewer) {
+        const personIds = await personService.linkCandidates(new mongoose.Types.ObjectId(interviewerId), candidates.map((c) => ({
+            email: c.email,
+            full_name: c.full_name,
+            phone_number: c.phone_number,
+        })));
+        const result = await CandidateModel.bulkWrite(candidates.map((candidate) => ({
+            updateOne: {
+                filter: { _id: candidate._id },
+                update: { $set: { person_id: personIds.get(candidate.email) } },
+            }
+        })));
+        linked += result.modifiedCount;
+    }
+    logger.info(`Migration: linked ${linked} candidate(s) to person records.`);
+};
@@ -0,0 +1,61 @@
+import { Schema, model, Document } from 'mongoose';
+import { questionDifficulty } from '../Utils/types.js';
+import { IRubric, RubricSchema } from './Interview.model.js';
+
+export interface BankQuestion extends Document {
+    interviewerId: Schema.Types.ObjectId;
+    question_text: string;
+    domain: string;
+    tags: string[];
+    difficulty: questionDifficulty;
+    model_answer: string;
+    rubric: IRubric | null;
+    created_at: Date;
+    updated_at: Date;
+}
+
+/*
+A question the interviewer wrote or curated, kept in their own question bank. Interviews pick questions from the bank by id
+and copy them, so editing or deleting a bank question never changes an interview that already uses it.
+Tags are stored lowercased, so searching by tag is case-insensitive.
+*/
+const BankQuestionSchema = new Schema<BankQuestion>({
+    interviewerId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Interviewer',
+        required: [true, 'Interviewer ID is required'],
+    },
+    question_text: {
+        type: String,
+        required: [true, 'Question text is required'],
+        trim: true,
+    },
+    domain: {
+        type: String,
+        required: [true, 'Domain is required'],
+        trim: true,
+    },
+    tags: {
+        type: [{ type: String, trim: true, lowercase: true }],
+        default: [],
+    },
+    difficulty: {
+        type: String,
+        enum: Object.values(questionDifficulty),
+        required: [true, 'Difficulty is required'],
+    },
+    model_answer: {
+        type: String,
+        trim: true,
+        default: '',
+    },
+    rubric: {
+        type: RubricSchema,
+        default: null,
+    },
+}, { timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' } })
+
+BankQuestionSchema.index({ interviewerId: 1, domain: 1 });
+BankQuestionSchema.index({ interviewerId: 1, tags: 1 });
+
+export const BankQuestionModel = model<BankQuestion>('BankQuestion', BankQuestionSchema);
@@ -1,19 +1,81 @@
 import { Schema, model, Document } from "mongoose";
-import { interviewStatus } from "../Utils/types.js";
+import { interviewStatus, hiringRecommendation } from "../Utils/types.js";
+
+export interface CandidateReconnect {
+    channel: 'rest' | 'websocket';
+    at: Date;
+    ip: string;
+    user_agent: string;
+}
 
 export interface Candidate extends Document {
     interview_id: Schema.Types.ObjectId;
+    person_id: Schema.Types.ObjectId | null;
     full_name: string;
     phone_number: string;
     email: string;
-    access_link_token: string;
+    access_link_hash: string;
+    access_link_issued_at: Date;
+    access_link_expires_at: Date;
+    access_link_revoked_at: Date | null;
+    slot_start_time: Date | null;
+    slot_window_minutes: number | null;
     status: interviewStatus;
     final_score: number;
     ai_summary: string;
+    recommendation: hiringRecommendation | null;
     started_at: Date;
+    finished_at: Date | null;
     completed_at: Date;
+    cancelled_at: Date | null;
+    current_question_order: number | null;
+    reconnect_count: number;
+    reconnects: CandidateReconnect[];
 }
 
+/*
+A candidate goes Scheduled -> In Progress when they start the interview.
+finished_at is set when they submit the last answer or their time runs out. From then on they can't access the interview,
+but they stay In Progress until the finalization job has waited for all scores and generated the AI summary.
+completed_at is set along with status Completed once final_score, ai_summary and recommendation are stored.
+When the interview is cancelled, every candidate who had not finished goes to Cancelled with cancelled_at. Their answers are kept.
+
+current_question_order is the question the candidate is on, so a session can be resumed after a crash or refresh.
+Every resume of a started session is recorded in reconnects (only the latest ones are kept) and counted in reconnect_count.
+
+A candidate is identified by (interview_id, email), so the same person can be invited to any number of interviews.
+person_id links the candidate records of the same email and interviewer, see Person.model.ts.
+
+The candidate's access link token is never stored, only its SHA-256 hash (see accessLinkUtils.ts), which is not selected by default.
+A link stops working when it is revoked (access_link_revoked_at) or expires with the interview (access_link_expires_at).
+Regenerating a link replaces the hash, so the old token no longer matches any candidate.
+
+A candidate can have their own time slot (slot_start_time, and optionally slot_window_minutes) instead of the interview's
+start window, e.g. for candidates in other time zones. See getStartWindow in timeUtils.ts.
+*/
+export const MAX_STORED_RECONNECTS = 100;
+
+const CandidateReconnectSchema = new Schema<CandidateReconnect>({
+    channel: {
+        type: String,
+        enum: ['rest', 'websocket'],
+        required: true,
+    },
+    at: {
+        type: Date,
+        default: Date.now,
+    },
+    ip: {
+        type: String,
+        default: '',
+    },
+    user_agent: {
+        type: String,
+        default: '',
+    },
+}, { _id: false })
+
+
 
 const CandidateSchema = new Schema<Candidate>({
     interview_id: {
@@ -21,6 +83,11 @@ const CandidateSchema = new Schema<Candidate>({
         ref: 'Interview',
         required: [true, 'Interview ID is required'],
     },
+    person_id: {
+        type: Schema.Types.ObjectId,
+        ref: 'Person',
+        default: null,
+    },
     full_name: {
         type: String,
         trim: true,
@@ -34,13 +101,33 @@ const CandidateSchema = new Schema<Candidate>({
         required: [true, 'Email is required'],
         trim: true,
         lowercase: true,
-        unique: true,
         match: [/\S+@\S+\.\S+/, 'Invalid email format']
     },
-    access_link_token: {
+    access_link_hash: {
         type: String,
-        required: [true, 'Access link token is required'],
-        trim: true,
+        required: [true, 'Access link hash is required'],
+        select: false,
+    },
+    access_link_issued_at: {
+        type: Date,
+        default: Date.now,
+    },
+    access_link_expires_at: {
+        type: Date,
+        required: [true, 'Access link expiry is required'],
+    },
+    access_link_revoked_at: {
+        type: Date,
+        default: null,
+    },
+    slot_start_time: {
+        type: Date,
+        default: null,
+    },
+    slot_window_minutes: {
+        type: Number,
+        min: 1,
+        default: null,
     },
     status: {
         type: String,
@@ -55,14 +142,44 @@ const CandidateSchema = new Schema<Candidate>({
         type: String,
         default: '',    
     },
+    recommendation: {
+        type: String,
+        enum: [...Object.values(hiringRecommendation), null],
+        default: null,
+    },
     started_at:{
         type: Date,
         default: null,
     },
+    finished_at: {
+        type: Date,
+        default: null,
+    },
     completed_at: {
         type: Date,
         default: null,
+    },
+    cancelled_at: {
+        type: Date,
+        default: null,
     },  
+    current_question_order: {
+        type: Number,
+        default: null,
+    },
+    reconnect_count: {
+        type: Number,
+        default: 0,
+    },
+    reconnects: {
+        type: [CandidateReconnectSchema],
+        default: [],
+    },
 })
 
+CandidateSchema.index({ interview_id: 1, email: 1 }, { unique: true });
+CandidateSchema.index({ person_id: 1 });
+CandidateSchema.index({ access_link_hash: 1 }, { unique: true });
+CandidateSchema.index({ status: 1, slot_start_time: 1 });
+
 export const CandidateModel = model<Candidate>('Candidate', CandidateSchema);
@@ -1,6 +1,31 @@
 import { Schema, model, Document } from 'mongoose';
-import { interviewStatus } from '../Utils/types.js';
+import { interviewStatus, questionDifficulty, questionSetStatus } from '../Utils/types.js';
 
+// One thing an answer is scored on. Each criterion is scored from 0 to max_score, and counts by its weight in the overall score.
+export interface IRubricCriterion {
+    name: string;
+    description: string;
+    weight: number;
+    max_score: number;
+}
+
+// How answers to a question are evaluated: the key points a complete answer covers, and the criteria it is scored on
+export interface IRubric {
+    key_points: string[];
+    criteria: IRubricCriterion[];
+}
+
+// A question fixed by the interviewer, asked to every candidate in this order
+export interface IInterviewQuestion {
+    question_text: string;
+    difficulty: questionDifficulty;
+    model_answer: string;
+    bank_question_id: Schema.Types.ObjectId | null;
+    rubric: IRubric | null;
+}
+
+// Minimum number of questions of each difficulty in the set a candidate gets
+export type IDifficultyMinimums = Record<questionDifficulty, number>;
 
 export interface Interview extends Document {
     interviewId: Schema.Types.ObjectId;
@@ -12,9 +37,87 @@ export interface Interview extends Document {
     buffer_time_minutes: number;
     num_questions: number;
     minutes_per_question: number;
+    questions: IInterviewQuestion[];
+    min_per_difficulty: IDifficultyMinimums;
+    shared_question_set: boolean;
+    question_set_status: questionSetStatus | null;
+    question_set_approved_at: Date | null;
+    randomize_question_order: boolean;
+    adaptive_questions: boolean;
+    max_follow_ups: number;
+    max_follow_ups_per_question: number;
+    template_id: Schema.Types.ObjectId | null;
+    cancelled_at: Date | null;
+    cancellation_reason: string;
+    archived_at: Date | null;
+    deleted_at: Date | null;
     created_at: Date;
 }
 
+const RubricCriterionSchema = new Schema<IRubricCriterion>({
+    name: {
+        type: String,
+        required: [true, 'Criterion name is required'],
+        trim: true,
+    },
+    description: {
+        type: String,
+        trim: true,
+        default: '',
+    },
+    weight: {
+        type: Number,
+        min: 0,
+        default: 1,
+    },
+    max_score: {
+        type: Number,
+        min: 1,
+        default: 10,
+    },
+}, { _id: false })
+
+export const RubricSchema = new Schema<IRubric>({
+    key_points: {
+        type: [{ type: String, trim: true }],
+        default: [],
+    },
+    criteria: {
+        type: [RubricCriterionSchema],
+        default: [],
+    },
+}, { _id: false })
+
+export const InterviewQuestionSchema = new Schema<IInterviewQuestion>({
+    question_text: {
+        type: String,
+        required: [true, 'Question text is required'],
+        trim: true,
+    },
+    difficulty: {
+        type: String,
+        enum: Object.values(questionDifficulty),
+        default: questionDifficulty.MEDIUM,
+    },
+    // Reference answer for the interviewer, never sent to the candidate
+    model_answer: {
+        type: String,
+        trim: true,
+        default: '',
+    },
+    // The question bank entry this was copied from, if any. Later edits to the bank don't change the interview.
+    bank_question_id: {
+        type: Schema.Types.ObjectId,
+        ref: 'BankQuestion',
+        default: null,
+    },
+    // Written by the interviewer or generated with the question. Without one, answers are scored on the default rubric (see rubricUtils.ts).
+    rubric: {
+        type: RubricSchema,
+        default: null,
+    },
+}, { _id: false })
+
 const InterviewSchema = new Schema<Interview>({
     interviewerId: {
         type: Schema.Types.ObjectId,
@@ -52,10 +155,89 @@ const InterviewSchema = new Schema<Interview>({
         type: Number,
         required: [true, 'Minutes per question is required'],
     },
+    // Fixed questions, asked to every candidate first. AI generates the rest up to num_questions, for each candidate.
+    questions: {
+        type: [InterviewQuestionSchema],
+        default: [],
+    },
+    // Checked over the whole set, fixed and AI generated questions together
+    min_per_difficulty: {
+        Easy: { type: Number, default: 0 },
+        Medium: { type: Number, default: 0 },
+        Hard: { type: Number, default: 0 },
+    },
+    // With a shared question set, the whole set is generated when the interview is created and stored in questions,
+    // so every candidate gets the same questions. The interviewer reviews it, and candidates can only start once it is approved.
+    shared_question_set: {
+        type: Boolean,
+        default: false,
+    },
+    question_set_status: {
+        type: String,
+        enum: [...Object.values(questionSetStatus), null],
+        default: null,
+    },
+    question_set_approved_at: {
+        type: Date,
+        default: null,
+    },
+    // Each candidate gets the questions in their own random order
+    randomize_question_order: {
+        type: Boolean,
+        default: false,
+    },
+    // After each answer the candidate submits, the next question is generated from the Q&A so far: a follow-up on the answer,
+    // a new topic at a difficulty that fits, or the planned question. Questions fixed by the interviewer are always asked as planned.
+    // A candidate gets at most max_follow_ups follow-ups, and at most max_follow_ups_per_question in a row on the same question.
+    adaptive_questions: {
+        type: Boolean,
+        default: false,
+    },
+    max_follow_ups: {
+        type: Number,
+        min: 0,
+        default: 2,
+    },
+    max_follow_ups_per_question: {
+        type: Number,
+        min: 1,
+        default: 1,
+    },
+    // The template the interview was created from, if any
+    template_id: {
+        type: Schema.Types.ObjectId,
+        ref: 'InterviewTemplate',
+        default: null,
+    },
+    // Set when the interviewer cancels the interview. Everything is kept for auditing.
+    cancelled_at: {
+        type: Date,
+        default: null,
+    },
+    cancellation_reason: {
+        type: String,
+        trim: true,
+        default: '',
+    },
+    // Archived and deleted interviews are hidden from the list and read-only, until they are restored.
+    // A deleted interview is purged for good, with its candidates and transcripts, once the purge window has passed.
+    archived_at: {
+        type: Date,
+        default: null,
+    },
+    deleted_at: {
+        type: Date,
+        default: null,
+    },
     created_at: {
         type: Date,
         default: Date.now,  
     }
 })
 
+// The interviews list is always scoped to the interviewer, and sorted by one of these by default
+InterviewSchema.index({ interviewerId: 1, created_at: -1 });
+InterviewSchema.index({ interviewerId: 1, scheduled_start_time: 1 });
+InterviewSchema.index({ deleted_at: 1 });
+
 export const InterviewModel = model<Interview>('Interview', InterviewSchema);   
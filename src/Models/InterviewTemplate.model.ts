@@ -0,0 +1,64 @@
+import { Schema, model, Document } from 'mongoose';
+import { IInterviewQuestion, InterviewQuestionSchema } from './Interview.model.js';
+
+export interface InterviewTemplate extends Document {
+    interviewerId: Schema.Types.ObjectId;
+    name: string;
+    title: string;
+    domain: string;
+    buffer_time_minutes: number;
+    num_questions: number;
+    minutes_per_question: number;
+    questions: IInterviewQuestion[];
+    created_at: Date;
+    updated_at: Date;
+}
+
+/*
+A template holds everything an interview needs except its start time and candidates, so a recurring interview can be
+scheduled again without re-posting the whole body. The interview copies the template when it is created, so editing or
+deleting a template never changes interviews that were already created from it.
+The fixed questions are optional. AI generates the rest up to num_questions for each candidate.
+*/
+const InterviewTemplateSchema = new Schema<InterviewTemplate>({
+    interviewerId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Interviewer',
+        required: [true, 'Interviewer ID is required'],
+    },
+    name: {
+        type: String,
+        required: [true, 'Name is required'],
+        trim: true,
+    },
+    title: {
+        type: String,
+        required: [true, 'Title is required'],
+        trim: true,
+    },
+    domain: {
+        type: String,
+        required: [true, 'Domain is required'],
+        trim: true,
+    },
+    buffer_time_minutes: {
+        type: Number,
+        required: [true, 'Buffer time is required'],
+    },
+    num_questions: {
+        type: Number,
+        required: [true, 'Number of questions is required'],
+    },
+    minutes_per_question: {
+        type: Number,
+        required: [true, 'Minutes per question is required'],
+    },
+    questions: {
+        type: [InterviewQuestionSchema],
+        default: [],
+    },
+}, { timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' } })
+
+InterviewTemplateSchema.index({ interviewerId: 1, name: 1 }, { unique: true });
+
+export const InterviewTemplateModel = model<InterviewTemplate>('InterviewTemplate', InterviewTemplateSchema);
@@ -0,0 +1,88 @@
+import { Schema, model, Document } from 'mongoose';
+import { jobStatus, jobType } from '../Utils/types.js';
+
+export interface Job extends Document {
+    type: jobType;
+    payload: Record<string, any>;
+    unique_key: string;
+    interview_id: Schema.Types.ObjectId;
+    status: jobStatus;
+    attempts: number;
+    max_attempts: number;
+    run_at: Date;
+    locked_by: string | null;
+    locked_until: Date | null;
+    last_error: string;
+    completed_at: Date | null;
+    created_at: Date;
+    updated_at: Date;
+}
+
+/*
+This is the collection used as a durable queue for background work (e.g. scoring answers with AI).
+A worker leases a job by atomically setting status to Processing along with locked_by and locked_until.
+locked_by is the worker id plus a token unique to the lease, and locked_until is renewed while the job runs.
+If the process dies while holding a job, the lease expires and the job is picked up again after restart.
+Failed jobs are retried with exponential backoff by moving run_at forward, and once attempts reach max_attempts the job is moved to Dead.
+unique_key makes enqueueing idempotent, so the same piece of work is never queued twice.
+*/
+const JobSchema = new Schema<Job>({
+    type: {
+        type: String,
+        enum: Object.values(jobType),
+        required: [true, 'Job type is required'],
+    },
+    payload: {
+        type: Schema.Types.Mixed,
+        default: {},
+    },
+    unique_key: {
+        type: String,
+        required: [true, 'Unique key is required'],
+        unique: true,
+    },
+    interview_id: {
+        type: Schema.Types.ObjectId,
+        ref: 'Interview',
+        default: null,
+    },
+    status: {
+        type: String,
+        enum: Object.values(jobStatus),
+        default: jobStatus.PENDING,
+    },
+    attempts: {
+        type: Number,
+        default: 0,
+    },
+    max_attempts: {
+        type: Number,
+        default: 5,
+    },
+    run_at: {
+        type: Date,
+        default: Date.now,
+    },
+    locked_by: {
+        type: String,
+        default: null,
+    },
+    locked_until: {
+        type: Date,
+        default: null,
+    },
+    last_error: {
+        type: String,
+        default: '',
+    },
+    completed_at: {
+        type: Date,
+        default: null,
+    },
+}, { timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' } })
+
+JobSchema.index({ status: 1, run_at: 1 });
+JobSchema.index({ status: 1, locked_until: 1 });
+JobSchema.index({ interview_id: 1, type: 1, status: 1 });
+
+export const JobModel = model<Job>('Job', JobSchema);
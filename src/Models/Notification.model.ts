@@ -0,0 +1,82 @@
+import { Schema, model, Document } from 'mongoose';
+import { notificationStatus, notificationType } from '../Utils/types.js';
+
+export interface Notification extends Document {
+    interview_id: Schema.Types.ObjectId;
+    candidate_id: Schema.Types.ObjectId;
+    type: notificationType;
+    dedupe_key: string;
+    recipient: string;
+    status: notificationStatus;
+    attempts: number;
+    last_error: string;
+    transport: string;
+    message_id: string;
+    sent_at: Date | null;
+    created_at: Date;
+    updated_at: Date;
+}
+
+/*
+One outbound message to a candidate, and its delivery status. The message is sent by a send_notification job,
+which updates status, attempts and last_error. A notification is Failed once its job has run out of attempts.
+dedupe_key makes queueing idempotent, e.g. reminder_24h:<candidateId> is only ever queued once. Invitations can be resent,
+so each one gets its own key.
+*/
+const NotificationSchema = new Schema<Notification>({
+    interview_id: {
+        type: Schema.Types.ObjectId,
+        ref: 'Interview',
+        required: [true, 'Interview ID is required'],
+    },
+    candidate_id: {
+        type: Schema.Types.ObjectId,
+        ref: 'Candidate',
+        required: [true, 'Candidate ID is required'],
+    },
+    type: {
+        type: String,
+        enum: Object.values(notificationType),
+        required: [true, 'Notification type is required'],
+    },
+    dedupe_key: {
+        type: String,
+        required: [true, 'Dedupe key is required'],
+        unique: true,
+    },
+    recipient: {
+        type: String,
+        required: [true, 'Recipient is required'],
+        trim: true,
+        lowercase: true,
+    },
+    status: {
+        type: String,
+        enum: Object.values(notificationStatus),
+        default: notificationStatus.PENDING,
+    },
+    attempts: {
+        type: Number,
+        default: 0,
+    },
+    last_error: {
+        type: String,
+        default: '',
+    },
+    transport: {
+        type: String,
+        default: '',
+    },
+    message_id: {
+        type: String,
+        default: '',
+    },
+    sent_at: {
+        type: Date,
+        default: null,
+    },
+}, { timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' } })
+
+NotificationSchema.index({ interview_id: 1, candidate_id: 1 });
+
+export const NotificationModel = model<Notification>('Notification', NotificationSchema);
@@ -0,0 +1,45 @@
+import { Schema, model, Document } from 'mongoose';
+
+export interface Person extends Document {
+    interviewerId: Schema.Types.ObjectId;
+    email: string;
+    full_name: string;
+    phone_number: string;
+    created_at: Date;
+    updated_at: Date;
+}
+
+/*
+A person is one email address as seen by one interviewer. Every candidate record of that interviewer with the same email points to it
+through person_id, so the interviewer can see all the interviews an email has been invited to.
+Persons are scoped to the interviewer, so candidates of other interviewers are never visible through them.
+Name and phone are the latest known values from any of the candidate records.
+*/
+const PersonSchema = new Schema<Person>({
+    interviewerId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Interviewer',
+        required: [true, 'Interviewer ID is required'],
+    },
+    email: {
+        type: String,
+        required: [true, 'Email is required'],
+        trim: true,
+        lowercase: true,
+        match: [/\S+@\S+\.\S+/, 'Invalid email format']
+    },
+    full_name: {
+        type: String,
+        trim: true,
+        default: '',
+    },
+    phone_number: {
+        type: String,
+        trim: true,
+        default: '',
+    },
+}, { timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' } })
+
+PersonSchema.index({ interviewerId: 1, email: 1 }, { unique: true });
+
+export const PersonModel = model<Person>('Person', PersonSchema);
@@ -1,11 +1,36 @@
 import { Schema , model , Document } from 'mongoose';
+import { questionDifficulty } from '../Utils/types.js';
+import { IRubric, RubricSchema } from './Interview.model.js';
+
+// The score of an answer on one criterion of its rubric
+export interface ICriterionScore {
+    name: string;
+    score: number;
+    max_score: number;
+    weight: number;
+    comment: string;
+}
 
 export interface Transcript extends Document {
     candidate_id: Schema.Types.ObjectId;
     question_order: number;
     question_text: string;
+    difficulty: questionDifficulty | null;
+    fixed: boolean;
+    adapted: boolean;
+    follow_up_of: Schema.Types.ObjectId | null;
     answer_text: string;
+    draft_text: string;
+    draft_saved_at: Date | null;
+    presented_at: Date | null;
+    auto_submitted: boolean;
+    rubric: IRubric | null;
     score: number;
+    feedback: string;
+    criteria_scores: ICriterionScore[];
+    key_points_covered: string[];
+    key_points_missed: string[];
+    scored_at: Date;
     submitted_at: Date;
     created_at: Date;
 }
@@ -16,7 +41,25 @@ This document will be created when candidate starts the interview.
 Once user clicks on start interview, all the question and thier order will be created using AI
 As user submits answer, we will update the answer_text immediately.
 Updation of score is passed to background job as it requires calling AI apis.
+presented_at is when the question became the candidate's current question. Each question has minutes_per_question from then, enforced by the server.
+If that time runs out, the last saved draft is submitted automatically and auto_submitted is set.
+draft_text is autosaved by the client while the candidate types, so it survives a crash or refresh.
+scored_at is set by the scoring job, so we can tell an unscored answer apart from an answer that scored 0.
+difficulty comes from the question bank or the AI. It is null for transcripts created before it was stored.
+rubric is the rubric the answer is evaluated on, copied when the question is created, so the evaluation can be audited against it later.
+The scoring job stores the score of every criterion and the key points the answer covered or missed. score is their weighted total, out of 10.
+feedback is the short AI feedback on the answer as a whole, empty until the answer is scored.
+fixed questions were written by the interviewer and are always asked as written. In an adaptive interview the other questions can be replaced
+with one generated after the previous answer, which sets adapted. A follow-up also sets follow_up_of to the transcript of the question it digs into.
 */
+const CriterionScoreSchema = new Schema<ICriterionScore>({
+    name: { type: String, required: true },
+    score: { type: Number, required: true },
+    max_score: { type: Number, required: true },
+    weight: { type: Number, required: true },
+    comment: { type: String, default: '' },
+}, { _id: false })
+
 const TranscriptSchema = new Schema<Transcript>({
     candidate_id: {
         type: Schema.Types.ObjectId,
@@ -32,15 +75,73 @@ const TranscriptSchema = new Schema<Transcript>({
         required: [true, 'Question text is required'],
         trim: true,
     },
+    difficulty: {
+        type: String,
+        enum: [...Object.values(questionDifficulty), null],
+        default: null,
+    },
+    fixed: {
+        type: Boolean,
+        default: false,
+    },
+    adapted: {
+        type: Boolean,
+        default: false,
+    },
+    follow_up_of: {
+        type: Schema.Types.ObjectId,
+        ref: 'Transcript',
+        default: null,
+    },
     answer_text: {
         type: String,
         default: '',
         trim: true,
     }, 
+    draft_text: {
+        type: String,
+        default: '',
+    },
+    draft_saved_at: {
+        type: Date,
+        default: null,
+    },
+    presented_at: {
+        type: Date,
+        default: null,
+    },
+    auto_submitted: {
+        type: Boolean,
+        default: false,
+    },
+    rubric: {
+        type: RubricSchema,
+        default: null,
+    },
     score: {
         type: Number,
         default: 0,
     },
+    feedback: {
+        type: String,
+        default: '',
+    },
+    criteria_scores: {
+        type: [CriterionScoreSchema],
+        default: [],
+    },
+    key_points_covered: {
+        type: [String],
+        default: [],
+    },
+    key_points_missed: {
+        type: [String],
+        default: [],
+    },
+    scored_at: {
+        type: Date,
+        default: null,
+    },
     submitted_at: {
         type: Date,
         default: null,
@@ -0,0 +1,34 @@
+import logger from '../Config/logger.config.js';
+import { IMailTransport } from '../Schemas/notification.schema.js';
+import { SmtpTransport } from './smtp.transport.js';
+import { OutboxTransport } from './outbox.transport.js';
+
+// Transports that can be selected with MAIL_TRANSPORT. Add a new transport here.
+const transports: Record<string, () => IMailTransport> = {
+    smtp: () => new SmtpTransport(),
+    outbox: () => new OutboxTransport(),
+};
+
+let transport: IMailTransport | null = null;
+
+/*
+@method getMailTransport
+@description: Returns the mail transport selected by MAIL_TRANSPORT (smtp or outbox, default outbox), created on first use.
+An unknown name falls back to the outbox, so a typo never sends mail somewhere unexpected.
+
+@returns: IMailTransport
+*/
+export const getMailTransport = (): IMailTransport => {
+    if (!transport) {
+        const name: string = process.env.MAIL_TRANSPORT || 'outbox';
+        if (!transports[name]) logger.warn(`Unknown MAIL_TRANSPORT "${name}", using the outbox transport.`);
+        transport = (transports[name] || transports.outbox)();
+        logger.info(`Mail transport: ${transport.name}`);
+    }
+    return transport;
+};
+
+// Replaces the transport, e.g. with a fake one in tests
+export const setMailTransport = (mailTransport: IMailTransport): void => {
+    transport = mailTransport;
+};
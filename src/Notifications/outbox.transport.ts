@@ -0,0 +1,25 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { IMailMessage, IMailTransport } from '../Schemas/notification.schema.js';
+
+/*
+@class OutboxTransport
+Description: Writes every message as a JSON file to a local outbox directory (MAIL_OUTBOX_DIR, default ./outbox) instead of sending it.
+Used for local development and tests, where the messages (and the access links in them) can be read from the files.
+*/
+export class OutboxTransport implements IMailTransport {
+    public readonly name: string = 'outbox';
+    private readonly from: string = process.env.MAIL_FROM || 'InterviewBit <no-reply@interviewbit.local>';
+    private readonly outboxDir: string = path.resolve(process.env.MAIL_OUTBOX_DIR || 'outbox');
+
+    public async send(message: IMailMessage): Promise<{ message_id: string }> {
+        const message_id = `${Date.now()}-${crypto.randomBytes(6).toString('hex')}@outbox`;
+        await fs.mkdir(this.outboxDir, { recursive: true });
+        await fs.writeFile(
+            path.join(this.outboxDir, `${message_id}.json`),
+            JSON.stringify({ message_id, from: this.from, ...message, created_at: new Date() }, null, 2)
+        );
+        return { message_id };
+    }
+}
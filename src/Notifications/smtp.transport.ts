@@ -0,0 +1,27 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { IMailMessage, IMailTransport } from '../Schemas/notification.schema.js';
+
+/*
+@class SmtpTransport
+Description: Delivers mail through an SMTP server using nodemailer. The server is configured with environment variables:
+SMTP_HOST, SMTP_PORT, SMTP_SECURE (TLS from the start, usually with port 465), SMTP_USER and SMTP_PASS. MAIL_FROM is the sender address.
+*/
+export class SmtpTransport implements IMailTransport {
+    public readonly name: string = 'smtp';
+    private readonly from: string = process.env.MAIL_FROM || 'InterviewBit <no-reply@interviewbit.local>';
+    private transporter: Transporter;
+
+    constructor() {
+        this.transporter = nodemailer.createTransport({
+            host: process.env.SMTP_HOST || 'localhost',
+            port: parseInt(process.env.SMTP_PORT || '587'),
+            secure: process.env.SMTP_SECURE === 'true',
+            auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS || '' } : undefined,
+        });
+    }
+
+    public async send(message: IMailMessage): Promise<{ message_id: string }> {
+        const info = await this.transporter.sendMail({ from: this.from, ...message });
+        return { message_id: info.messageId };
+    }
+}
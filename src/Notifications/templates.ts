@@ -0,0 +1,62 @@
+import { IMailMessage, INotificationTemplateData } from '../Schemas/notification.schema.js';
+import { notificationType } from '../Utils/types.js';
+
+type RenderedTemplate = Omit<IMailMessage, 'to'>;
+
+const formatTime = (date: Date): string => new Date(date).toUTCString();
+
+const escapeHtml = (value: string): string => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Builds the text and html versions from the same paragraphs, so they never drift apart
+const render = (subject: string, greetingName: string, paragraphs: string[], link?: string): RenderedTemplate => {
+    const greeting = `Hi ${greetingName || 'there'},`;
+    const text = [greeting, ...paragraphs, ...(link ? [link] : [])].join('\n\n');
+    const html = [
+        `<p>${escapeHtml(greeting)}</p>`,
+        ...paragraphs.map((p) => `<p>${escapeHtml(p)}</p>`),
+        ...(link ? [`<p><a href="${escapeHtml(link)}">${escapeHtml(link)}</a></p>`] : []),
+    ].join('\n');
+    return { subject, text, html };
+};
+
+const schedule = (data: INotificationTemplateData): string =>
+    `The interview starts at ${formatTime(data.scheduled_start_time)} and you can join up to ${data.buffer_time_minutes} minutes after that. ` +
+    `It has ${data.num_questions} questions with ${data.minutes_per_question} minutes for each.`;
+
+const templates: Record<notificationType, (data: INotificationTemplateData) => RenderedTemplate> = {
+    [notificationType.INVITATION]: (data) => render(
+        `Invitation: ${data.interview_title}`,
+        data.candidate_name,
+        [`You are invited to the ${data.interview_title} interview (${data.interview_domain}).`, schedule(data), 'Use your personal link below to join. Please do not share it. Good luck!'],
+        data.access_link
+    ),
+    [notificationType.REMINDER_24H]: (data) => render(
+        `Reminder: ${data.interview_title} is tomorrow`,
+        data.candidate_name,
+        [`This is a reminder that your ${data.interview_title} interview is in about 24 hours.`, schedule(data), 'Join using the link from your invitation. Good luck!']
+    ),
+    [notificationType.REMINDER_1H]: (data) => render(
+        `Reminder: ${data.interview_title} starts in an hour`,
+        data.candidate_name,
+        [`Your ${data.interview_title} interview starts in about an hour.`, schedule(data), 'Join using the link from your invitation. Good luck!']
+    ),
+    [notificationType.CANCELLATION]: (data) => render(
+        `Cancelled: ${data.interview_title}`,
+        data.candidate_name,
+        [`The ${data.interview_title} interview scheduled for ${formatTime(data.scheduled_start_time)} has been cancelled. Your link will no longer work.`]
+    ),
+    [notificationType.COMPLETION]: (data) => render(
+        `Thank you for completing ${data.interview_title}`,
+        data.candidate_name,
+        [`Thank you for taking the ${data.interview_title} interview. Your answers have been submitted, and the interviewer will be in touch about the next steps.`]
+    ),
+};
+
+// Renders the subject, text and html of a notification
+export const renderNotification = (type: notificationType, data: INotificationTemplateData): RenderedTemplate => {
+    return templates[type](data);
+};
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+
+/**
+ * @file accessLink.schema.ts
+ * @description
+ * Defines the Zod schemas and TypeScript types for managing candidate access links.
+ * Access link tokens are only stored as hashes, so a plaintext token is returned once, when it is issued, and never again.
+ *
+ * @example
+ * POST /api/interviews/:InterviewId/candidates/:CandidateId/access-link/regenerate
+ * POST /api/interviews/:InterviewId/access-links/rotate?format=xlsx
+ *
+ * @exports candidateAccessLinkSchema
+ * @exports rotateAccessLinksSchema
+ */
+
+export const candidateAccessLinkSchema = z.object({
+  params: z.object({
+    InterviewId: z.string().min(1, 'Interview ID is required'),
+    CandidateId: z.string().min(1, 'Candidate ID is required'),
+  }),
+});
+
+export const rotateAccessLinksSchema = z.object({
+  params: z.object({
+    InterviewId: z.string().min(1, 'Interview ID is required'),
+  }),
+  query: z.object({
+    format: z.enum(['json', 'xlsx']).optional(),
+  }),
+});
+
+// A freshly issued access link, with the only copy of the plaintext token
+export interface IAccessLink {
+  candidate_id: string;
+  email: string;
+  access_link_token: string;
+  expires_at: Date;
+}
+
+export type AccessLinkState = 'Active' | 'Revoked' | 'Expired' | 'Cancelled';
@@ -1,5 +1,9 @@
-import { Transcript } from "../Models/Transcripts.model.js";
+import { z } from "zod";
+import { ICriterionScore, Transcript } from "../Models/Transcripts.model.js";
 import { Candidate } from "../Models/Candidate.model.js";
+import { IRubric } from "../Models/Interview.model.js";
+import { hiringRecommendation, nextQuestionAction, questionDifficulty } from "../Utils/types.js";
+import { getRubricScore } from "../Utils/rubricUtils.js";
 
 
 /*
@@ -11,51 +15,79 @@ Each function returns a string prompt with placeholders filled in.
   - Generating interview questions
   - Evaluating candidate answers
   - Summarizing interview performance
+  - Choosing the next question of an adaptive interview
 */
 export const AI_PROMPTS = {
     /**
      * Generates the prompt for creating interview questions.
-     * Input variables: {domain}, {num_questions}
+     * Input variables: {domain}, {num_questions}, {difficulty_requirements}, {retry_feedback}
      */
     GENERATE_QUESTIONS_TEMPLATE: `
 You are an expert technical interviewer in the field of {domain}.
 Generate exactly {num_questions} interview questions for a candidate in this domain.
 The questions should strictly test technical knowledge and problem-solving skills relevant to {domain}.
+{difficulty_requirements}
 
 IMPORTANT: Return ONLY a raw JSON array of objects. Do not include any markdown formatting.
 Each object must have exactly these fields:
 - "question_text": The question itself (string).
 - "difficulty": One of "Easy", "Medium", or "Hard".
+- "rubric": How an answer to the question is evaluated, an object with:
+  - "key_points": The 2-5 key points a complete answer covers (array of short strings).
+  - "criteria": The 2-4 criteria the answer is scored on (array of objects with "name", "description", "weight" as a positive number, and "max_score" as a whole number from 1 to 10).
 
 Example output format:
 [
-  {{ "question_text": "What is event bubbling?", "difficulty": "Easy" }}
+  {{
+    "question_text": "What is event bubbling?",
+    "difficulty": "Easy",
+    "rubric": {{
+      "key_points": ["Events propagate from the target up to its ancestors", "stopPropagation stops it"],
+      "criteria": [
+        {{ "name": "Correctness", "description": "The explanation is technically correct.", "weight": 2, "max_score": 10 }},
+        {{ "name": "Examples", "description": "Gives a practical example such as event delegation.", "weight": 1, "max_score": 5 }}
+      ]
+    }}
+  }}
 ]
+{retry_feedback}
 `,
 
     /**
      * Generates the prompt for evaluating a single answer.
-     * Input variables: {question}, {answer}, {domain}
+     * Input variables: {question}, {answer}, {domain}, {rubric}, {retry_feedback}
      */
     EVALUATE_ANSWER_TEMPLATE: `
 You are an expert technical interviewer in {domain}.
-Evaluate the following candidate answer.
+Evaluate the following candidate answer against the rubric of the question.
 
 Question: "{question}"
 Candidate Answer: "{answer}"
 
+Rubric:
+{rubric}
+
 Tasks:
-1. Score the answer from 1 to 10 based on correctness, depth, and clarity. (1 = wrong, 10 = perfect).
-2. Provide a concise 1-2 sentence feedback justifying the score.
+1. Score the answer on every criterion of the rubric, from 0 to the max score of that criterion, with a one sentence comment.
+2. List which of the key points the answer covered and which it missed, using the key points exactly as written above.
+3. Provide a concise 1-2 sentence feedback on the answer as a whole.
 
 IMPORTANT: Return ONLY a raw JSON object. No markdown.
 Example output format:
-{{ "score": 7, "feedback": "Good understanding of the core concept." }}
+{{
+  "criteria": [
+    {{ "name": "Correctness", "score": 7, "comment": "Mostly correct, but confuses the two phases." }}
+  ],
+  "key_points_covered": ["Events propagate from the target up to its ancestors"],
+  "key_points_missed": ["stopPropagation stops it"],
+  "feedback": "Good understanding of the core concept."
+}}
+{retry_feedback}
 `,
 
     /**
      * Generates the prompt for the final interview summary.
-     * Input variables: {domain}, {qa_history}
+     * Input variables: {domain}, {qa_history}, {retry_feedback}
      */
     GENERATE_SUMMARY_TEMPLATE: `
 You are an expert technical interviewer in {domain}.
@@ -76,6 +108,49 @@ Example output format:
   "summary_text": "The candidate showed strong knowledge in...",
   "recommendation": "Hire"
 }}
+{retry_feedback}
+`,
+
+    /**
+     * Generates the prompt for the next question of an adaptive interview.
+     * Input variables: {domain}, {qa_history}, {planned_question}, {planned_difficulty}, {follow_up_rule}, {retry_feedback}
+     */
+    GENERATE_NEXT_QUESTION_TEMPLATE: `
+You are an expert technical interviewer in {domain}, in the middle of an interview.
+Choose the next question based on how the candidate answered so far.
+
+Q&A History (most recent last):
+{qa_history}
+
+Planned next question ({planned_difficulty}): "{planned_question}"
+
+Tasks:
+1. Choose one action:
+   - "Follow-up": dig deeper into the most recent answer, e.g. to probe a weak or vague answer or to test how far a strong answer goes.
+   - "New Topic": move to an area of {domain} not covered yet, at a difficulty that fits the answers so far.
+   - "Planned": ask the planned question as it is, when it already fits.
+   {follow_up_rule}
+2. Unless the action is "Planned", write the question, its difficulty and a rubric for evaluating the answer.
+
+IMPORTANT: Return ONLY a raw JSON object. No markdown.
+The object must have these fields:
+- "action": One of "Follow-up", "New Topic" or "Planned".
+- "reason": One sentence on why you chose this action.
+- "question_text", "difficulty" ("Easy", "Medium" or "Hard") and "rubric" (an object with "key_points" and "criteria", each criterion
+  with "name", "description", "weight" and "max_score"): Only when the action is not "Planned".
+
+Example output format:
+{{
+  "action": "Follow-up",
+  "reason": "The answer named the event loop phases but not how microtasks fit in.",
+  "question_text": "Where do promise callbacks run relative to the event loop phases you described?",
+  "difficulty": "Hard",
+  "rubric": {{
+    "key_points": ["The microtask queue is drained after each callback"],
+    "criteria": [{{ "name": "Correctness", "description": "The ordering is correct.", "weight": 1, "max_score": 10 }}]
+  }}
+}}
+{retry_feedback}
 `
 };
 
@@ -87,25 +162,195 @@ Example output format:
 export interface IGenerateQuestionsInput {
     domain: string;
     num_questions: number;
+    difficulty_requirements: string;
 }
 
 // 2. Generate quesions output
 export interface IGeneratedQuestion {
     question_text: string;
-    difficulty: 'Easy' | 'Medium' | 'Hard';
+    difficulty: questionDifficulty;
+    rubric: IRubric | null;     // null when the model didn't send one, the default rubric is used then
 }
 
 // 3. Evaluate answer output
 export interface IEvaluationResult {
-    score: number;      // 1-10
-    feedback: string;   // A concise 1-2 sentence feedback
+    score: number;                      // 0-10 with one decimal, the weighted total of criteria_scores
+    feedback: string;                   // A concise 1-2 sentence feedback
+    criteria_scores: ICriterionScore[]; // One per criterion of the rubric, in the order of the rubric
+    key_points_covered: string[];       // Key points of the rubric, as written in the rubric
+    key_points_missed: string[];
 }
 
 
 // 4. Interview Summary Output
 export interface IInterviewSummary {
     summary_text: string;
-    recommendation: 'Strong Hire' | 'Hire' | 'Review' | 'No Hire';
+    recommendation: hiringRecommendation;
+}
+
+// 5. Next question of an adaptive interview
+export interface INextQuestion {
+    action: nextQuestionAction;
+    reason: string;
+    question_text: string;     // The planned question when the action is Planned
+    difficulty: questionDifficulty;
+    rubric: IRubric | null;
+}
+
+
+// --- AI Output Schemas ---
+// Every AI output is checked against these before it is used. They also repair the small slips models make,
+// so those don't cost a retry: numbers sent as strings, enum values in the wrong case, or an array wrapped in an object.
+
+// Matches an enum value case-insensitively and ignoring spaces, dashes and underscores, e.g. "no_hire" -> "No Hire"
+const looseEnum = <T extends string>(values: T[]) => z.preprocess((value) => {
+    if (typeof value !== 'string') return value;
+    const key = (v: string) => v.toLowerCase().replace(/[\s_-]/g, '');
+    return values.find((v) => key(v) === key(value)) ?? value;
+}, z.enum(values as [T, ...T[]]));
+
+export const generatedRubricSchema = z.object({
+    key_points: z.array(z.string().trim().min(1, 'must not be empty')).default([]),
+    criteria: z.array(z.object({
+        name: z.string().trim().min(1, 'must not be empty'),
+        description: z.string().trim().default(''),
+        weight: z.coerce.number().positive('must be a positive number').default(1),
+        max_score: z.coerce.number().int('must be a whole number').positive('must be a positive number').default(10),
+    }))
+        .min(1, 'must have at least one criterion')
+        .refine((criteria) => new Set(criteria.map((criterion) => criterion.name.toLowerCase())).size === criteria.length, 'must have unique names'),
+});
+
+export const generatedQuestionSchema = z.object({
+    question_text: z.string().trim().min(1, 'must not be empty'),
+    difficulty: looseEnum(Object.values(questionDifficulty)),
+    rubric: generatedRubricSchema.nullable().default(null),
+});
+
+// Exactly num_questions questions. Extra questions are dropped, too few is invalid.
+export const generatedQuestionsSchema = (num_questions: number) => z.preprocess(
+    (value) => {
+        // { "questions": [...] } instead of the array itself
+        if (value && typeof value === 'object' && !Array.isArray(value)) {
+            const arrays = Object.values(value).filter(Array.isArray);
+            if (arrays.length === 1) return arrays[0];
+        }
+        return value;
+    },
+    z.array(generatedQuestionSchema)
+        .min(num_questions, `must have ${num_questions} questions`)
+        .transform((questions) => questions.slice(0, num_questions))
+);
+
+// An evaluation on the given rubric. Every criterion must be scored within its scale, and the overall score is computed from them.
+// Key points are matched to the rubric ignoring case, a key point the model doesn't mention counts as missed, and one it made up is dropped.
+export const evaluationResultSchema = (rubric: IRubric) => {
+    const key = (value: string) => value.trim().toLowerCase();
+    const keyPoints = z.array(z.string()).default([]);
+
+    return z.object({
+        criteria: z.array(z.object({
+            name: z.string().trim(),
+            score: z.coerce.number().transform((score) => Math.round(score * 10) / 10),
+            comment: z.string().trim().default(''),
+        })),
+        key_points_covered: keyPoints,
+        key_points_missed: keyPoints,
+        feedback: z.string().trim().min(1, 'must not be empty'),
+    })
+        .superRefine((result, ctx) => {
+            rubric.criteria.forEach((criterion) => {
+                const index: number = result.criteria.findIndex((scored) => key(scored.name) === key(criterion.name));
+                if (index === -1) {
+                    ctx.addIssue({ code: 'custom', path: ['criteria'], message: `must score the criterion "${criterion.name}"` });
+                } else if (result.criteria[index].score < 0 || result.criteria[index].score > criterion.max_score) {
+                    ctx.addIssue({ code: 'custom', path: ['criteria', index, 'score'], message: `must be from 0 to ${criterion.max_score}` });
+                }
+            });
+        })
+        .transform((result): IEvaluationResult => {
+            const criteria_scores: ICriterionScore[] = rubric.criteria.map((criterion) => {
+                const scored = result.criteria.find((c) => key(c.name) === key(criterion.name))!;
+                return { name: criterion.name, score: scored.score, max_score: criterion.max_score, weight: criterion.weight, comment: scored.comment };
+            });
+            const covered: Set<string> = new Set(result.key_points_covered.map(key));
+            return {
+                score: getRubricScore(criteria_scores),
+                feedback: result.feedback,
+                criteria_scores,
+                key_points_covered: rubric.key_points.filter((point) => covered.has(key(point))),
+                key_points_missed: rubric.key_points.filter((point) => !covered.has(key(point))),
+            };
+        });
+};
+
+// The next question of an adaptive interview. A follow-up is invalid when follow_up_allowed is false, and Planned returns the planned question.
+export const nextQuestionSchema = (planned: IGeneratedQuestion, follow_up_allowed: boolean) => z.object({
+    action: looseEnum(Object.values(nextQuestionAction)),
+    reason: z.string().trim().default(''),
+    question_text: z.string().trim().min(1, 'must not be empty').optional(),
+    difficulty: looseEnum(Object.values(questionDifficulty)).optional(),
+    rubric: generatedRubricSchema.nullable().default(null),
+})
+    .superRefine((next, ctx) => {
+        if (next.action === nextQuestionAction.FOLLOW_UP && !follow_up_allowed) {
+            ctx.addIssue({ code: 'custom', path: ['action'], message: 'must not be "Follow-up", no more follow-ups are allowed' });
+        }
+        if (next.action === nextQuestionAction.PLANNED) return;
+        if (!next.question_text) ctx.addIssue({ code: 'custom', path: ['question_text'], message: `is required for "${next.action}"` });
+        if (!next.difficulty) ctx.addIssue({ code: 'custom', path: ['difficulty'], message: `is required for "${next.action}"` });
+    })
+    .transform((next): INextQuestion => next.action === nextQuestionAction.PLANNED
+        ? { action: next.action, reason: next.reason, question_text: planned.question_text, difficulty: planned.difficulty, rubric: planned.rubric }
+        : { action: next.action, reason: next.reason, question_text: next.question_text!, difficulty: next.difficulty!, rubric: next.rubric });
+
+export const interviewSummarySchema = z.object({
+    summary_text: z.string().trim().min(1, 'must not be empty'),
+    recommendation: looseEnum(Object.values(hiringRecommendation)),
+});
+
+
+// --- AI Providers ---
+// What AIService passes to the provider for each task. LLM providers turn these into the prompt variables of AI_PROMPTS.
+// retry_feedback is set when the previous output was invalid, and tells the model what to fix.
+export interface IQuestionsRequest {
+    domain: string;
+    num_questions: number;
+    minimums: Partial<Record<questionDifficulty, number>>;
+    retry_feedback?: string;
+}
+
+export interface IEvaluationRequest {
+    domain: string;
+    question: string;
+    answer: string;
+    rubric: IRubric;
+    retry_feedback?: string;
+}
+
+export interface ISummaryRequest {
+    domain: string;
+    transcripts: Transcript[];
+    retry_feedback?: string;
+}
+
+// transcripts are the answered questions so far, in order. planned is the question that is asked if nothing better fits.
+export interface INextQuestionRequest {
+    domain: string;
+    transcripts: Transcript[];
+    planned: IGeneratedQuestion;
+    follow_up_allowed: boolean;
+    retry_feedback?: string;
+}
+
+// A model that does the AI tasks. Selected with the AI_PROVIDER environment variable, see AI/providers.ts.
+// Outputs are parsed JSON that is not checked yet, AIService validates them against the schemas above.
+export interface IAIProvider {
+    readonly name: string;
+    generateQuestions(request: IQuestionsRequest): Promise<unknown>;
+    evaluateAnswer(request: IEvaluationRequest): Promise<unknown>;
+    generateSummary(request: ISummaryRequest): Promise<unknown>;
+    generateNextQuestion(request: INextQuestionRequest): Promise<unknown>;
 }
 
 
@@ -118,8 +363,8 @@ export interface IAnswerSubmittedEvent {
     candidateId: string;        // To identify candidate
     transcriptId: string;       // To identify which Q&A this is about
     question_order: number;     // To track progress
-
-    //ToDo: Analyze and update if any other fields are needed.
+    answered_count: number;     // Number of answers submitted so far by the candidate
+    total_questions: number;    // To show progress as answered_count/total_questions
 }
 
 
@@ -138,6 +383,12 @@ export type WSServerEvent =
     | 'response:candidate_details' 
     | 'candidate:progress_update' 
     | 'candidate:score_update'    
+    | 'candidate:status_update'
+    | 'interview:status_update'
+    | 'interview:updated'
+    | 'candidate:added'
+    | 'candidate:removed'
+    | 'interview:cancelled'
     | 'error' 
     | 'pong';
 export interface IWSServerMessage { event: WSServerEvent; data?: any; message?: string; }
@@ -0,0 +1,114 @@
+import { z } from 'zod';
+import { interviewStatus } from '../Utils/types.js';
+
+/**
+ * @file candidate.schema.ts
+ * @description
+ * Defines the Zod schemas and TypeScript types used by the candidate facing API.
+ * These routes are authenticated by the candidate's access link token instead of an interviewer JWT.
+ *
+ * @example
+ * Valid Submit Answer Request Body:
+ * {
+ *   "question_order": 2,
+ *   "answer_text": "Event bubbling is the propagation of an event from the target up to its ancestors..."
+ * }
+ *
+ * @exports submitAnswerSchema
+ * @exports ISubmitAnswer
+ * @exports saveDraftSchema
+ * @exports ISaveDraft
+ */
+
+export const submitAnswerSchema = z.object({
+  params: z.object({
+    access_link_token: z.string().min(1, 'Access link token is required'),
+  }),
+  body: z.object({
+    question_order: z
+      .number()
+      .int()
+      .positive('Question order must be a positive number'),
+
+    answer_text: z.string().max(10000, 'Answer is too long'),
+  }),
+});
+
+export type ISubmitAnswer = z.infer<typeof submitAnswerSchema>['body'];
+
+export const saveDraftSchema = z.object({
+  params: z.object({
+    access_link_token: z.string().min(1, 'Access link token is required'),
+  }),
+  body: z.object({
+    question_order: z
+      .number()
+      .int()
+      .positive('Question order must be a positive number'),
+
+    draft_text: z.string().max(10000, 'Draft is too long'),
+  }),
+});
+
+export type ISaveDraft = z.infer<typeof saveDraftSchema>['body'];
+
+
+// Question as it is shown to the candidate. Never contains score or other evaluation data.
+// deadline is decided by the server: minutes_per_question from presented_at, capped by the overall time budget.
+export interface ICandidateQuestion {
+  transcript_id: string;
+  question_order: number;
+  question_text: string;
+  total_questions: number;
+  presented_at: Date;
+  deadline: Date;
+  time_remaining_seconds: number;
+  draft_text: string;
+}
+
+export interface ICandidateSessionState {
+  candidate: {
+    full_name: string;
+    email: string;
+    status: interviewStatus;
+    started_at: Date | null;
+    completed_at: Date | null;
+  };
+  interview: {
+    title: string;
+    domain: string;
+    num_questions: number;
+    minutes_per_question: number;
+    scheduled_start_time: Date;
+    // The candidate's own start window, which is their time slot if they have one
+    start_window_opens_at: Date;
+    start_window_closes_at: Date;
+  };
+  answered_questions: number;
+  time_remaining_seconds: number | null;
+}
+
+export interface ISubmitAnswerResult {
+  question_order: number;
+  submitted_at: Date;
+  is_completed: boolean;
+  next_question: ICandidateQuestion | null;
+}
+
+export interface ISaveDraftResult {
+  question_order: number;
+  draft_saved_at: Date;
+}
+
+// Client details stored with each reconnect
+export interface IReconnectMeta {
+  ip?: string;
+  user_agent?: string;
+}
+
+// Everything needed to put the candidate back where they left off
+export interface ICandidateResumeState {
+  session: ICandidateSessionState;
+  current_question: ICandidateQuestion | null;
+  reconnect_count: number;
+}
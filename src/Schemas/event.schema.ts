@@ -0,0 +1,85 @@
+import { interviewStatus, questionSetStatus } from '../Utils/types.js';
+import { IAnswerSubmittedEvent, IScoreUpdatedEvent } from './ai.schema.js';
+import { IUpdateInterview } from './interview.schema.js';
+import { ICandidateStartWindow } from '../Utils/timeUtils.js';
+
+/**
+ * @file event.schema.ts
+ * @description
+ * Defines the internal domain events published by services and background jobs on the event bus.
+ * Each key is the event name and the value is the payload type, so publish() and subscribe() are type checked.
+ * Every payload carries interviewId, so subscribers like the WebSocket service can route it to the right room.
+ *
+ * @exports IDomainEvents
+ */
+
+// Published when a candidate starts or is finalized
+export interface ICandidateStatusEvent {
+  interviewId: string;
+  candidateId: string;
+  status: interviewStatus;
+  final_score?: number;
+}
+
+// Published by the lifecycle service whenever an interview changes status
+export interface IInterviewStatusChangedEvent {
+  interviewId: string;
+  previous_status: interviewStatus;
+  status: interviewStatus;
+  changed_at: Date;
+}
+
+// Published when an interviewer edits an interview. changes holds only the fields that were updated.
+export interface IInterviewUpdatedEvent {
+  interviewId: string;
+  changes: Partial<IUpdateInterview> & { question_set_status?: questionSetStatus | null };
+  updated_at: Date;
+}
+
+// Published when candidates are added to an existing interview
+export interface ICandidatesAddedEvent {
+  interviewId: string;
+  total_questions: number;
+  candidates: ({
+    candidateId: string;
+    email: string;
+    full_name: string;
+    status: interviewStatus;
+  } & ICandidateStartWindow)[];
+}
+
+// Published when a candidate who had not started is removed from an interview
+export interface ICandidateRemovedEvent {
+  interviewId: string;
+  candidateId: string;
+}
+
+// Published when a candidate's access link is revoked or replaced, so connections using the old link are closed
+export interface ICandidateAccessRevokedEvent {
+  interviewId: string;
+  candidateId: string;
+}
+
+// Published when the interviewer cancels an interview, with the candidates who were cancelled along with it
+export interface IInterviewCancelledEvent {
+  interviewId: string;
+  reason: string;
+  cancelled_at: Date;
+  candidateIds: string[];
+}
+
+export interface IDomainEvents {
+  'answer:submitted': IAnswerSubmittedEvent;
+  'score:updated': IScoreUpdatedEvent;
+  'candidate:started': ICandidateStatusEvent;
+  'candidate:completed': ICandidateStatusEvent;
+  'interview:status_changed': IInterviewStatusChangedEvent;
+  'interview:updated': IInterviewUpdatedEvent;
+  'candidates:added': ICandidatesAddedEvent;
+  'candidate:removed': ICandidateRemovedEvent;
+  'candidate:access_revoked': ICandidateAccessRevokedEvent;
+  'interview:cancelled': IInterviewCancelledEvent;
+}
+
+export type DomainEventName = keyof IDomainEvents;
+export type DomainEventHandler<K extends DomainEventName> = (payload: IDomainEvents[K]) => void | Promise<void>;
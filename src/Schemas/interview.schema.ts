@@ -1,42 +1,93 @@
 import { z } from 'zod';
-import { interviewStatus } from '../Utils/types.js';
-import { Interview } from "../Models/Interview.model.js";
+import { Interview, IInterviewQuestion, IDifficultyMinimums } from "../Models/Interview.model.js";
 import { Candidate } from "../Models/Candidate.model.js";
 import { Transcript } from '../Models/Transcripts.model.js';
+import { IAccessLink } from './accessLink.schema.js';
+import { INotificationSummary } from './notification.schema.js';
+import { hiringRecommendation, interviewStatus } from '../Utils/types.js';
 
 /**
  * @file createInterviewSchema.ts
  * @description
  * Defines the Zod schema and TypeScript type for validating incoming requests to create a new interview.
  * Ensures that all required fields are present and valid before reaching the controller logic.
+ * Status is not accepted from the client. Every interview is created as Scheduled and moved forward by the server side lifecycle engine.
  *
  * @example
  * Valid Request Body:
  * {
  *   "title": "Frontend Developer Interview",
  *   "domain": "Web Development",
- *   "status": "Scheduled",
  *   "scheduled_start_time": "2025-10-20T10:30:00Z",
  *   "buffer_time_minutes": 15,
  *   "num_questions": 5,
- *   "candidate_emails": ["candidate@example.com", "test@example.com"]
+ *   "minutes_per_question": 3,
+ *   "candidate_emails": ["candidate@example.com", "test@example.com"],
+ *   "send_invitations": true,
+ *   "bank_question_ids": ["6650f1c2a1b2c3d4e5f60718", "6650f1c2a1b2c3d4e5f60719"],
+ *   "min_per_difficulty": { "Hard": 1 },
+ *   "shared_question_set": true,
+ *   "randomize_question_order": true
  * }
  *
+ * Valid Adaptive Interview Request Body (the other fields as above, adaptive questions can't be used with a shared question set):
+ * {
+ *   "adaptive_questions": true,
+ *   "max_follow_ups": 2,
+ *   "max_follow_ups_per_question": 1
+ * }
+ *
+ * Valid Update Request Body (every field is optional, at least one is required):
+ * {
+ *   "title": "Senior Frontend Developer Interview",
+ *   "scheduled_start_time": "2025-10-21T10:30:00Z"
+ * }
+ *
+ * Valid Clone Request Body (title and candidate_emails default to the ones of the cloned interview):
+ * POST /api/interviews/:InterviewId/clone
+ * {
+ *   "scheduled_start_time": "2025-10-27T10:30:00Z"
+ * }
+ *
+ * Valid Cancel Request Body (the reason is optional):
+ * POST /api/interviews/:InterviewId/cancel
+ * {
+ *   "reason": "The position has been filled"
+ * }
+ *
+ * Valid List Query (every parameter is optional, status takes a comma separated list):
+ * GET /api/interviews?page=2&limit=20&status=Scheduled,In Progress&domain=Web Development&from=2025-10-01&to=2025-10-31&search=frontend&sort=scheduled_start_time&order=asc
+ * GET /api/interviews?view=archived
+ *
+ * Valid Get Interview Query (recommendation is optional and takes a comma separated list):
+ * GET /api/interviews/:InterviewId?recommendation=Strong Hire,Hire
+ *
+ * @exports difficultyMinimumsSchema
  * @exports createInterviewSchema
  * @exports ICreateInterview
+ * @exports updateInterviewSchema
+ * @exports IUpdateInterview
+ * @exports cloneInterviewSchema
+ * @exports ICloneInterview
+ * @exports cancelInterviewSchema
+ * @exports ICancelInterview
+ * @exports listInterviewsSchema
+ * @exports IListInterviewsQuery
+ * @exports getInterviewSchema
+ * @exports IGetInterviewQuery
  */
 
 
+export const difficultyMinimumsSchema = z.object({
+  Easy: z.number().int().nonnegative().optional(),
+  Medium: z.number().int().nonnegative().optional(),
+  Hard: z.number().int().nonnegative().optional(),
+}).strict();
+
 export const createInterviewSchema = z.object({
   body: z.object({
     title: z.string().min(1, 'Title is required').max(100),
     domain: z.string().min(1, 'Domain is required').max(100),
-    status: z
-      .nativeEnum(interviewStatus)
-      .refine((val) => Object.values(interviewStatus).includes(val), {
-        message:
-          'Invalid status provided. Must be one of: Scheduled, Completed, Cancelled, In Progress',
-      }),
     scheduled_start_time: z
       .string()
       .refine((v) => !isNaN(Date.parse(v)), {
@@ -54,17 +105,223 @@ export const createInterviewSchema = z.object({
       .int()
       .positive('Number of questions must be a positive number'),
 
+    minutes_per_question: z
+      .number()
+      .int()
+      .positive('Minutes per question must be a positive number'),
+
     candidate_emails: z
       .array(z.string().email('Invalid email address'))
       .nonempty('At least one candidate email is required'),
-  }),
+
+    // Email each candidate an invitation with their access link
+    send_invitations: z.boolean().optional(),
+
+    // Questions from the interviewer's bank, asked first and in this order. AI generates the rest up to num_questions.
+    bank_question_ids: z.array(z.string().min(1)).optional(),
+    // Minimum number of questions of each difficulty over the whole set
+    min_per_difficulty: difficultyMinimumsSchema.optional(),
+
+    // Generate the question set now, for the interviewer to review and approve, and ask it to every candidate
+    shared_question_set: z.boolean().optional(),
+    // Give each candidate the questions in their own random order
+    randomize_question_order: z.boolean().optional(),
+
+    // Generate each next question from the candidate's answers so far, see Interview.model.ts
+    adaptive_questions: z.boolean().optional(),
+    max_follow_ups: z.number().int().nonnegative('Max follow-ups must not be negative').optional(),
+    max_follow_ups_per_question: z.number().int().positive('Max follow-ups per question must be a positive number').optional(),
+  })
+    .refine((body) => !(body.adaptive_questions && body.shared_question_set), {
+      message: 'A shared question set is asked as approved, it cannot have adaptive questions',
+    }),
 });
 
 export type ICreateInterview = z.infer<typeof createInterviewSchema>['body'];
 
+// Which of these fields may be changed depends on the interview status, see interviewService.updateInterviewService
+export const updateInterviewSchema = z.object({
+  params: z.object({
+    InterviewId: z.string().min(1, 'Interview ID is required'),
+  }),
+  body: z.object({
+    title: z.string().min(1, 'Title is required').max(100).optional(),
+    domain: z.string().min(1, 'Domain is required').max(100).optional(),
+    scheduled_start_time: z
+      .string()
+      .refine((v) => !isNaN(Date.parse(v)), {
+        message: 'Invalid date format for scheduled start time',
+      })
+      .transform((v) => new Date(v))
+      .optional(),
+
+    buffer_time_minutes: z
+      .number()
+      .int()
+      .positive('Buffer time must be a positive number')
+      .optional(),
+
+    num_questions: z
+      .number()
+      .int()
+      .positive('Number of questions must be a positive number')
+      .optional(),
+
+    minutes_per_question: z
+      .number()
+      .int()
+      .positive('Minutes per question must be a positive number')
+      .optional(),
+
+    adaptive_questions: z.boolean().optional(),
+    max_follow_ups: z.number().int().nonnegative('Max follow-ups must not be negative').optional(),
+    max_follow_ups_per_question: z.number().int().positive('Max follow-ups per question must be a positive number').optional(),
+  })
+    .strict()
+    .refine((body) => Object.keys(body).length > 0, {
+      message: 'At least one field is required',
+    }),
+});
+
+export type IUpdateInterview = z.infer<typeof updateInterviewSchema>['body'];
+
+export const cloneInterviewSchema = z.object({
+  params: z.object({
+    InterviewId: z.string().min(1, 'Interview ID is required'),
+  }),
+  body: z.object({
+    scheduled_start_time: z
+      .string()
+      .refine((v) => !isNaN(Date.parse(v)), {
+        message: 'Invalid date format for scheduled start time',
+      })
+      .transform((v) => new Date(v)),
+    title: z.string().min(1, 'Title is required').max(100).optional(),
+    candidate_emails: z
+      .array(z.string().email('Invalid email address'))
+      .nonempty('At least one candidate email is required')
+      .optional(),
+
+    // Email each candidate an invitation with their access link
+    send_invitations: z.boolean().optional(),
+  }),
+});
+
+export type ICloneInterview = z.infer<typeof cloneInterviewSchema>['body'];
+
+// Where the settings of a new interview came from, besides the request body
+export interface IInterviewSource{
+  questions?: IInterviewQuestion[],
+  min_per_difficulty?: Partial<IDifficultyMinimums>,
+  shared_question_set?: boolean,
+  randomize_question_order?: boolean,
+  adaptive_questions?: boolean,
+  max_follow_ups?: number,
+  max_follow_ups_per_question?: number,
+  template_id?: unknown
+}
+
+export const cancelInterviewSchema = z.object({
+  params: z.object({
+    InterviewId: z.string().min(1, 'Interview ID is required'),
+  }),
+  body: z.object({
+    reason: z.string().trim().max(500).optional(),
+  }).strict(),
+});
+
+export type ICancelInterview = z.infer<typeof cancelInterviewSchema>['body'];
+
+const queryDate = z
+  .string()
+  .refine((v) => !isNaN(Date.parse(v)), {
+    message: 'Invalid date format',
+  })
+  .transform((v) => new Date(v));
+
+export const listInterviewsSchema = z.object({
+  query: z.object({
+    page: z.coerce.number().int().positive('Page must be a positive number').default(1),
+    limit: z.coerce.number().int().positive('Limit must be a positive number').max(100, 'Limit cannot be more than 100').default(20),
+    status: z
+      .string()
+      .transform((v) => v.split(',').map((status) => status.trim()))
+      .pipe(z.array(z.nativeEnum(interviewStatus)))
+      .optional(),
+    domain: z.string().trim().min(1).max(100).optional(),
+    // Range of scheduled_start_time, both ends inclusive
+    from: queryDate.optional(),
+    to: queryDate.optional(),
+    // Matches part of the title, case-insensitively
+    search: z.string().trim().min(1).max(100).optional(),
+    sort: z.enum(['scheduled_start_time', 'created_at', 'title']).default('created_at'),
+    order: z.enum(['asc', 'desc']).default('desc'),
+    // active hides archived and deleted interviews, archived and deleted list only those
+    view: z.enum(['active', 'archived', 'deleted']).default('active'),
+  })
+    .refine((query) => !query.from || !query.to || query.from <= query.to, {
+      message: 'from must not be after to',
+    }),
+});
+
+export type IListInterviewsQuery = z.infer<typeof listInterviewsSchema>['query'];
+
+export const getInterviewSchema = z.object({
+  params: z.object({
+    InterviewId: z.string().min(1, 'Interview ID is required'),
+  }),
+  query: z.object({
+    // Only the candidates with one of these recommendations. Candidates without a recommendation yet are left out.
+    recommendation: z
+      .string()
+      .transform((v) => v.split(',').map((recommendation) => recommendation.trim()))
+      .pipe(z.array(z.nativeEnum(hiringRecommendation)))
+      .optional(),
+  }),
+});
+
+export type IGetInterviewQuery = z.infer<typeof getInterviewSchema>['query'];
+
+// The access link tokens are only returned here, when they are issued.
+// With send_invitations the links are mailed instead, and access_links is empty.
+export interface ICreateInterviewResult{
+  interview: Interview,
+  access_links: IAccessLink[]
+}
+
+export interface IInterviewListItem{
+  _id: string,
+  title: string,
+  domain: string,
+  status: interviewStatus,
+  scheduled_start_time: Date,
+  buffer_time_minutes: number,
+  num_questions: number,
+  minutes_per_question: number,
+  created_at: Date,
+  archived_at: Date | null,
+  deleted_at: Date | null,
+  candidates_total: number,
+  candidates_completed: number
+}
+
+export interface IListInterviews{
+  interviews: IInterviewListItem[],
+  page: number,
+  limit: number,
+  total: number,
+  total_pages: number
+}
+
+export interface IDeleteInterviewResult{
+  interview: Interview,
+  purge_at: Date   // When the interview and its data are deleted for good, unless it is restored before
+}
+
 export interface IGetInterview{
   interview: Interview,
-  candidates: Candidate[]
+  candidates: Candidate[],
+  notifications: Record<string, INotificationSummary[]>   // Delivery status keyed by candidate id
 }
 
 export interface IGetCandidateTranscript{
@@ -0,0 +1,147 @@
+import { z } from 'zod';
+import { Candidate } from '../Models/Candidate.model.js';
+import { IAccessLink } from './accessLink.schema.js';
+
+/**
+ * @file interviewCandidate.schema.ts
+ * @description
+ * Defines the Zod schemas and TypeScript types used by the interviewer to manage the candidates of an existing interview.
+ * Emails are compared case-insensitively, the same way they are stored on the candidate.
+ *
+ * @example
+ * Valid Add Candidates Request Body:
+ * {
+ *   "candidates": [
+ *     { "email": "late.candidate@example.com", "full_name": "Jane Doe" },
+ *     { "email": "another@example.com", "slot_start_time": "2025-10-21T02:00:00Z", "slot_window_minutes": 30 }
+ *   ],
+ *   "send_invitations": true
+ * }
+ *
+ * Valid Update Candidate Request Body (a null slot_start_time moves the candidate back to the interview's start window):
+ * {
+ *   "slot_start_time": "2025-10-21T14:00:00Z",
+ *   "slot_window_minutes": 45
+ * }
+ *
+ * @exports addCandidatesSchema
+ * @exports IAddCandidates
+ * @exports updateCandidateSchema
+ * @exports IUpdateCandidate
+ * @exports removeCandidateSchema
+ * @exports importCandidatesSchema
+ * @exports candidateRowSchema
+ *
+ * Bulk import takes the raw .xlsx or .csv file as the request body, with a matching Content-Type:
+ * POST /api/interviews/:InterviewId/candidates/import?dry_run=true
+ */
+
+const candidateDetails = {
+  full_name: z.string().trim().min(1, 'Full name cannot be empty').max(100).optional(),
+  phone_number: z.string().trim().min(1, 'Phone number cannot be empty').max(20).optional(),
+};
+
+// The candidate's own time slot, instead of the interview's start window. Without slot_window_minutes the slot is open
+// for the interview's buffer time. The slot can't start before the interview's scheduled start time, see interviewCandidateService.
+const candidateSlot = {
+  slot_start_time: z
+    .string()
+    .refine((v) => !isNaN(Date.parse(v)), {
+      message: 'Invalid date format for slot start time',
+    })
+    .transform((v) => new Date(v)),
+  slot_window_minutes: z.number().int().positive('Slot window must be a positive number'),
+};
+
+// A single candidate to add, either from the JSON body or from a row of an imported sheet
+export const candidateRowSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  ...candidateDetails,
+  slot_start_time: candidateSlot.slot_start_time.optional(),
+  slot_window_minutes: candidateSlot.slot_window_minutes.optional(),
+})
+  .refine((row) => !row.slot_window_minutes || row.slot_start_time, {
+    message: 'slot_window_minutes needs a slot_start_time',
+  });
+
+export type ICandidateRow = z.infer<typeof candidateRowSchema>;
+
+export const addCandidatesSchema = z.object({
+  params: z.object({
+    InterviewId: z.string().min(1, 'Interview ID is required'),
+  }),
+  body: z.object({
+    candidates: z
+      .array(candidateRowSchema)
+      .nonempty('At least one candidate is required'),
+
+    // Email each new candidate an invitation with their access link
+    send_invitations: z.boolean().optional(),
+  }),
+});
+
+export type IAddCandidates = z.infer<typeof addCandidatesSchema>['body'];
+
+// The access link tokens are only returned here, when they are issued.
+// With send_invitations the links are mailed instead, and access_links is empty.
+export interface IAddCandidatesResult {
+  candidates: Candidate[];
+  access_links: IAccessLink[];
+}
+
+export const updateCandidateSchema = z.object({
+  params: z.object({
+    InterviewId: z.string().min(1, 'Interview ID is required'),
+    CandidateId: z.string().min(1, 'Candidate ID is required'),
+  }),
+  body: z.object({
+    ...candidateDetails,
+    slot_start_time: candidateSlot.slot_start_time.nullable().optional(),
+    slot_window_minutes: candidateSlot.slot_window_minutes.nullable().optional(),
+  })
+    .strict()
+    .refine((body) => Object.keys(body).length > 0, {
+      message: 'At least one field is required',
+    }),
+});
+
+export type IUpdateCandidate = z.infer<typeof updateCandidateSchema>['body'];
+
+export const removeCandidateSchema = z.object({
+  params: z.object({
+    InterviewId: z.string().min(1, 'Interview ID is required'),
+    CandidateId: z.string().min(1, 'Candidate ID is required'),
+  }),
+});
+
+export const importCandidatesSchema = z.object({
+  params: z.object({
+    InterviewId: z.string().min(1, 'Interview ID is required'),
+  }),
+  query: z.object({
+    dry_run: z.enum(['true', 'false']).optional(),
+  }),
+});
+
+export type ImportRowStatus = 'valid' | 'invalid' | 'duplicate' | 'created';
+
+// Outcome of one data row of an imported sheet. In a dry run valid rows stay 'valid', otherwise they become 'created'.
+export interface IImportRowReport {
+  row: number;
+  email: string;
+  full_name: string;
+  phone_number: string;
+  status: ImportRowStatus;
+  errors: string[];
+}
+
+export interface IImportCandidatesResult {
+  dry_run: boolean;
+  total_rows: number;
+  valid_rows: number;
+  invalid_rows: number;
+  duplicate_rows: number;
+  created: number;
+  rows: IImportRowReport[];
+  access_links: IAccessLink[];
+}
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import { ClientSession } from 'mongoose';
+import { Job } from '../Models/Job.model.js';
+import { jobStatus } from '../Utils/types.js';
+
+/**
+ * @file job.schema.ts
+ * @description
+ * Defines the Zod schemas for the scoring job endpoints and the types shared by the background job queue and its handlers.
+ *
+ * @example
+ * GET /api/interviews/:InterviewId/scoring-jobs?status=Dead
+ *
+ * @exports listScoringJobsSchema
+ * @exports retryScoringJobSchema
+ */
+
+export const listScoringJobsSchema = z.object({
+  params: z.object({
+    InterviewId: z.string().min(1, 'Interview ID is required'),
+  }),
+  query: z.object({
+    status: z.nativeEnum(jobStatus).optional(),
+  }),
+});
+
+export const retryScoringJobSchema = z.object({
+  params: z.object({
+    InterviewId: z.string().min(1, 'Interview ID is required'),
+    JobId: z.string().min(1, 'Job ID is required'),
+  }),
+});
+
+
+// A handler processes a single leased job. Throwing from a handler marks the attempt as failed.
+export type JobHandler = (job: Job) => Promise<void>;
+
+export interface IEnqueueOptions {
+  unique_key: string;
+  interview_id?: unknown;
+  max_attempts?: number;
+  run_at?: Date;
+  session?: ClientSession;
+}
+
+// Payload of a score_transcript job
+export interface IScoreTranscriptPayload {
+  transcript_id: string;
+}
+
+// Payload of a finalize_candidate job
+export interface IFinalizeCandidatePayload {
+  candidate_id: string;
+}
+
+// Payload of a send_notification job
+export interface ISendNotificationPayload {
+  notification_id: string;
+}
@@ -0,0 +1,64 @@
+import { z } from 'zod';
+import { notificationStatus, notificationType } from '../Utils/types.js';
+
+/**
+ * @file notification.schema.ts
+ * @description
+ * Defines the Zod schemas for the notification endpoints and the types shared by the mail transports and templates.
+ *
+ * @example
+ * POST /api/interviews/:InterviewId/invitations
+ * POST /api/interviews/:InterviewId/candidates/:CandidateId/invitation
+ *
+ * @exports sendInvitationsSchema
+ * @exports sendCandidateInvitationSchema
+ */
+
+export const sendInvitationsSchema = z.object({
+  params: z.object({
+    InterviewId: z.string().min(1, 'Interview ID is required'),
+  }),
+});
+
+export const sendCandidateInvitationSchema = z.object({
+  params: z.object({
+    InterviewId: z.string().min(1, 'Interview ID is required'),
+    CandidateId: z.string().min(1, 'Candidate ID is required'),
+  }),
+});
+
+
+export interface IMailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// A way of delivering mail. Selected with the MAIL_TRANSPORT environment variable, see Notifications/mailer.ts.
+export interface IMailTransport {
+  readonly name: string;
+  send(message: IMailMessage): Promise<{ message_id: string }>;
+}
+
+// Everything a template can use. access_link is only set for invitations, as tokens can't be read back once issued.
+export interface INotificationTemplateData {
+  candidate_name: string;
+  interview_title: string;
+  interview_domain: string;
+  scheduled_start_time: Date;
+  buffer_time_minutes: number;
+  num_questions: number;
+  minutes_per_question: number;
+  access_link?: string;
+}
+
+// Delivery status of one notification, as shown on the interview detail endpoint
+export interface INotificationSummary {
+  type: notificationType;
+  status: notificationStatus;
+  attempts: number;
+  last_error: string;
+  sent_at: Date | null;
+  created_at: Date;
+}
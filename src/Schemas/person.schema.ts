@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import { Person } from '../Models/Person.model.js';
+import { Candidate } from '../Models/Candidate.model.js';
+import { Interview } from '../Models/Interview.model.js';
+
+/**
+ * @file person.schema.ts
+ * @description
+ * Defines the Zod schemas and TypeScript types for the person endpoints. A person groups the candidate records
+ * of one email across the interviews of an interviewer.
+ *
+ * @example
+ * GET /api/persons?email=jane
+ * GET /api/persons/:PersonId
+ *
+ * @exports listPersonsSchema
+ * @exports getPersonSchema
+ */
+
+export const listPersonsSchema = z.object({
+  query: z.object({
+    email: z.string().trim().min(1).max(100).optional(),
+  }),
+});
+
+export const getPersonSchema = z.object({
+  params: z.object({
+    PersonId: z.string().min(1, 'Person ID is required'),
+  }),
+});
+
+// Contact details of a candidate, used to find or create their person
+export interface ICandidateContact {
+  email: string;
+  full_name?: string;
+  phone_number?: string;
+}
+
+export interface IPersonSummary {
+  _id: string;
+  email: string;
+  full_name: string;
+  phone_number: string;
+  created_at: Date;
+  interview_count: number;
+}
+
+export interface IPersonDetails {
+  person: Person;
+  interviews: {
+    interview: Pick<Interview, 'title' | 'domain' | 'status' | 'scheduled_start_time'>;
+    candidate: Candidate;
+  }[];
+}
@@ -0,0 +1,99 @@
+import { z } from 'zod';
+import { BankQuestion } from '../Models/BankQuestion.model.js';
+import { questionDifficulty } from '../Utils/types.js';
+import { rubricSchema } from './template.schema.js';
+
+/**
+ * @file questionBank.schema.ts
+ * @description
+ * Defines the Zod schemas and TypeScript types for the question bank of an interviewer.
+ *
+ * @example
+ * Valid Create Question Request Body:
+ * {
+ *   "question_text": "How does the Node.js event loop work?",
+ *   "domain": "Backend Node.js",
+ *   "tags": ["async", "runtime"],
+ *   "difficulty": "Medium",
+ *   "model_answer": "It runs callbacks from the task queues in phases..."
+ * }
+ *
+ * Valid List Query (every parameter is optional):
+ * GET /api/question-bank?search=event loop&domain=Backend Node.js&tag=async&difficulty=Hard&page=1&limit=20
+ *
+ * @exports createBankQuestionSchema
+ * @exports ICreateBankQuestion
+ * @exports updateBankQuestionSchema
+ * @exports IUpdateBankQuestion
+ * @exports bankQuestionIdSchema
+ * @exports listBankQuestionsSchema
+ * @exports IListBankQuestionsQuery
+ */
+
+const bankQuestionFields = {
+  question_text: z.string().trim().min(1, 'Question text is required').max(1000),
+  domain: z.string().trim().min(1, 'Domain is required').max(100),
+  tags: z.array(z.string().trim().min(1).max(50)).max(20),
+  difficulty: z.nativeEnum(questionDifficulty),
+  model_answer: z.string().max(5000),
+  rubric: rubricSchema.nullable(),
+};
+
+export const createBankQuestionSchema = z.object({
+  body: z.object({
+    ...bankQuestionFields,
+    tags: bankQuestionFields.tags.optional(),
+    model_answer: bankQuestionFields.model_answer.optional(),
+    rubric: bankQuestionFields.rubric.optional(),
+  }),
+});
+
+export type ICreateBankQuestion = z.infer<typeof createBankQuestionSchema>['body'];
+
+export const updateBankQuestionSchema = z.object({
+  params: z.object({
+    QuestionId: z.string().min(1, 'Question ID is required'),
+  }),
+  body: z.object({
+    question_text: bankQuestionFields.question_text.optional(),
+    domain: bankQuestionFields.domain.optional(),
+    tags: bankQuestionFields.tags.optional(),
+    difficulty: bankQuestionFields.difficulty.optional(),
+    model_answer: bankQuestionFields.model_answer.optional(),
+    rubric: bankQuestionFields.rubric.optional(),
+  })
+    .strict()
+    .refine((body) => Object.keys(body).length > 0, {
+      message: 'At least one field is required',
+    }),
+});
+
+export type IUpdateBankQuestion = z.infer<typeof updateBankQuestionSchema>['body'];
+
+export const bankQuestionIdSchema = z.object({
+  params: z.object({
+    QuestionId: z.string().min(1, 'Question ID is required'),
+  }),
+});
+
+export const listBankQuestionsSchema = z.object({
+  query: z.object({
+    // Matches part of the question text, case-insensitively
+    search: z.string().trim().min(1).max(100).optional(),
+    domain: z.string().trim().min(1).max(100).optional(),
+    tag: z.string().trim().min(1).max(50).optional(),
+    difficulty: z.nativeEnum(questionDifficulty).optional(),
+    page: z.coerce.number().int().positive('Page must be a positive number').default(1),
+    limit: z.coerce.number().int().positive('Limit must be a positive number').max(100, 'Limit cannot be more than 100').default(20),
+  }),
+});
+
+export type IListBankQuestionsQuery = z.infer<typeof listBankQuestionsSchema>['query'];
+
+export interface IListBankQuestions {
+  questions: BankQuestion[];
+  page: number;
+  limit: number;
+  total: number;
+  total_pages: number;
+}
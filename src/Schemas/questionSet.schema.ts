@@ -0,0 +1,67 @@
+import { z } from 'zod';
+import { IInterviewQuestion } from '../Models/Interview.model.js';
+import { questionSetStatus } from '../Utils/types.js';
+import { interviewQuestionSchema } from './template.schema.js';
+
+/**
+ * @file questionSet.schema.ts
+ * @description
+ * Defines the Zod schemas and TypeScript types for reviewing the shared question set of an interview.
+ * The set is generated when an interview is created with shared_question_set, and can be changed until the interview starts.
+ *
+ * @example
+ * GET  /api/interviews/:InterviewId/questions
+ * PUT  /api/interviews/:InterviewId/questions                            (edit or reorder, the body is the whole new set)
+ * POST /api/interviews/:InterviewId/questions/:QuestionOrder/regenerate  (new AI question with the same difficulty)
+ * POST /api/interviews/:InterviewId/questions/approve
+ *
+ * Valid Update Request Body:
+ * {
+ *   "questions": [
+ *     { "question_text": "How does the Node.js event loop work?", "difficulty": "Medium" },
+ *     { "question_text": "How would you find a memory leak in a Node.js service?", "difficulty": "Hard", "model_answer": "Take heap snapshots..." }
+ *   ]
+ * }
+ *
+ * @exports questionSetSchema
+ * @exports updateQuestionSetSchema
+ * @exports IUpdateQuestionSet
+ * @exports regenerateQuestionSchema
+ */
+
+export const questionSetSchema = z.object({
+  params: z.object({
+    InterviewId: z.string().min(1, 'Interview ID is required'),
+  }),
+});
+
+export const updateQuestionSetSchema = z.object({
+  params: z.object({
+    InterviewId: z.string().min(1, 'Interview ID is required'),
+  }),
+  body: z.object({
+    questions: z
+      .array(interviewQuestionSchema)
+      .nonempty('At least one question is required')
+      .max(50),
+  }).strict(),
+});
+
+export type IUpdateQuestionSet = z.infer<typeof updateQuestionSetSchema>['body'];
+
+export const regenerateQuestionSchema = z.object({
+  params: z.object({
+    InterviewId: z.string().min(1, 'Interview ID is required'),
+    QuestionOrder: z.coerce.number().int().positive('Question order must be a positive number'),
+  }),
+});
+
+export interface IQuestionSet {
+  interview_id: string;
+  status: questionSetStatus | null;
+  approved_at: Date | null;
+  // False once the interview has started, after which the set can't be changed
+  editable: boolean;
+  randomize_question_order: boolean;
+  questions: IInterviewQuestion[];
+}
@@ -13,4 +13,25 @@ export interface ExtWebSocket extends WebSocket {
     interviewerId?: string;
     interviewId?: string;
     isAlive: boolean; 
-}
\ No newline at end of file
+}
+
+// --- Candidate WebSocket channel ---
+// Candidates connect with ?access_link_token=... instead of an interviewer JWT.
+// The server owns the question timer: it pushes the current question with its deadline, ticks the countdown,
+// warns before time runs out, and auto-submits the question when it expires.
+export type WSCandidateServerEvent =
+    | 'candidate:session'           // Session state, sent on connect before the interview is started
+    | 'question:current'            // The question to answer now, with its deadline and saved draft
+    | 'question:tick'               // Countdown for the current question
+    | 'question:time_warning'       // Sent once per threshold in CANDIDATE_TIME_WARNING_SECONDS
+    | 'question:timeout'            // Time for the question ran out and the answer was auto-submitted
+    | 'answer:accepted'             // Acknowledges an 'answer:submit' message
+    | 'draft:saved'                 // Acknowledges an 'answer:draft' message
+    | 'interview:completed'         // Candidate has no questions left. The server closes the connection after this.
+    | 'interview:cancelled'         // The interviewer cancelled the interview. The server closes the connection after this.
+    | 'error'
+    | 'pong';
+export interface IWSCandidateServerMessage { event: WSCandidateServerEvent; data?: unknown; message?: string; }
+
+// Events a candidate sends, as { event, payload }. The payload is validated by the handler of each event.
+export type WSCandidateClientEvent = 'interview:start' | 'answer:submit' | 'answer:draft' | 'ping';
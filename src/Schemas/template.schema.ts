@@ -0,0 +1,163 @@
+import { z } from 'zod';
+import { questionDifficulty } from '../Utils/types.js';
+
+/**
+ * @file template.schema.ts
+ * @description
+ * Defines the Zod schemas and TypeScript types for interview templates, and for creating an interview from one.
+ * A template stores the interview settings and, optionally, fixed questions. AI generates the rest up to num_questions for each candidate.
+ *
+ * @example
+ * Valid Create Template Request Body:
+ * {
+ *   "name": "Weekly Backend",
+ *   "title": "Backend Node.js Interview",
+ *   "domain": "Backend Node.js",
+ *   "buffer_time_minutes": 15,
+ *   "num_questions": 2,
+ *   "minutes_per_question": 5,
+ *   "questions": [
+ *     { "question_text": "How does the Node.js event loop work?", "difficulty": "Medium" },
+ *     {
+ *       "question_text": "How would you find a memory leak in a Node.js service?",
+ *       "difficulty": "Hard",
+ *       "rubric": {
+ *         "key_points": ["Heap snapshots", "Growing memory under steady load", "Common causes such as global caches and listeners"],
+ *         "criteria": [
+ *           { "name": "Approach", "description": "A systematic way to find the leak", "weight": 2, "max_score": 5 },
+ *           { "name": "Tooling", "weight": 1, "max_score": 5 }
+ *         ]
+ *       }
+ *     }
+ *   ]
+ * }
+ *
+ * Valid Create Interview From Template Request Body:
+ * POST /api/interviews/from-template/:TemplateId
+ * {
+ *   "scheduled_start_time": "2025-10-20T10:30:00Z",
+ *   "candidate_emails": ["candidate@example.com"]
+ * }
+ *
+ * @exports rubricSchema
+ * @exports interviewQuestionSchema
+ * @exports createTemplateSchema
+ * @exports ICreateTemplate
+ * @exports updateTemplateSchema
+ * @exports IUpdateTemplate
+ * @exports templateIdSchema
+ * @exports createFromTemplateSchema
+ * @exports ICreateFromTemplate
+ */
+
+const rubricCriterionSchema = z.object({
+  name: z.string().trim().min(1, 'Criterion name is required').max(100),
+  description: z.string().trim().max(500).default(''),
+  weight: z.number().positive('Weight must be a positive number').default(1),
+  max_score: z.number().int().positive('Max score must be a positive number').max(100).default(10),
+});
+
+// How answers to the question are evaluated. Without a rubric, answers are scored on the default rubric.
+export const rubricSchema = z.object({
+  key_points: z.array(z.string().trim().min(1).max(300)).max(20).default([]),
+  criteria: z
+    .array(rubricCriterionSchema)
+    .min(1, 'A rubric needs at least one criterion')
+    .max(10)
+    .refine((criteria) => new Set(criteria.map((criterion) => criterion.name.toLowerCase())).size === criteria.length, {
+      message: 'Criterion names must be unique',
+    }),
+});
+
+export const interviewQuestionSchema = z.object({
+  question_text: z.string().trim().min(1, 'Question text is required').max(1000),
+  difficulty: z.nativeEnum(questionDifficulty).default(questionDifficulty.MEDIUM),
+  model_answer: z.string().max(5000).optional(),
+  rubric: rubricSchema.nullable().optional(),
+});
+
+const templateFields = {
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  title: z.string().min(1, 'Title is required').max(100),
+  domain: z.string().min(1, 'Domain is required').max(100),
+  buffer_time_minutes: z
+    .number()
+    .int()
+    .positive('Buffer time must be a positive number'),
+
+  num_questions: z
+    .number()
+    .int()
+    .positive('Number of questions must be a positive number'),
+
+  minutes_per_question: z
+    .number()
+    .int()
+    .positive('Minutes per question must be a positive number'),
+
+  // Asked first to every candidate. Leave empty to have all the questions generated by AI.
+  questions: z.array(interviewQuestionSchema).max(50),
+};
+
+export const createTemplateSchema = z.object({
+  body: z.object({
+    ...templateFields,
+    questions: templateFields.questions.optional(),
+  })
+    .refine((body) => !body.questions || body.questions.length <= body.num_questions, {
+      message: 'There can be at most num_questions fixed questions',
+    }),
+});
+
+export type ICreateTemplate = z.infer<typeof createTemplateSchema>['body'];
+
+// Whether num_questions still fits the fixed questions is checked against the stored template, see interviewTemplateService.updateTemplate
+export const updateTemplateSchema = z.object({
+  params: z.object({
+    TemplateId: z.string().min(1, 'Template ID is required'),
+  }),
+  body: z.object({
+    name: templateFields.name.optional(),
+    title: templateFields.title.optional(),
+    domain: templateFields.domain.optional(),
+    buffer_time_minutes: templateFields.buffer_time_minutes.optional(),
+    num_questions: templateFields.num_questions.optional(),
+    minutes_per_question: templateFields.minutes_per_question.optional(),
+    questions: templateFields.questions.optional(),
+  })
+    .strict()
+    .refine((body) => Object.keys(body).length > 0, {
+      message: 'At least one field is required',
+    }),
+});
+
+export type IUpdateTemplate = z.infer<typeof updateTemplateSchema>['body'];
+
+export const templateIdSchema = z.object({
+  params: z.object({
+    TemplateId: z.string().min(1, 'Template ID is required'),
+  }),
+});
+
+export const createFromTemplateSchema = z.object({
+  params: z.object({
+    TemplateId: z.string().min(1, 'Template ID is required'),
+  }),
+  body: z.object({
+    scheduled_start_time: z
+      .string()
+      .refine((v) => !isNaN(Date.parse(v)), {
+        message: 'Invalid date format for scheduled start time',
+      })
+      .transform((v) => new Date(v)),
+
+    candidate_emails: z
+      .array(z.string().email('Invalid email address'))
+      .nonempty('At least one candidate email is required'),
+
+    // Email each candidate an invitation with their access link
+    send_invitations: z.boolean().optional(),
+  }),
+});
+
+export type ICreateFromTemplate = z.infer<typeof createFromTemplateSchema>['body'];
@@ -40,12 +40,45 @@ export class ForbiddenError extends AppError {
     }
 }
 
+export class ConflictError extends AppError {
+    constructor(message: string = 'Conflict') {
+        super(message, 409);
+    }
+}
+
+export class GoneError extends AppError {
+    constructor(message: string = 'Gone') {
+        super(message, 410);
+    }
+}
+
 export class InternalServerError extends AppError {
     constructor(message: string = 'Internal Server Error') {
         super(message, 500);
     }
 }
 
+export class ServiceUnavailableError extends AppError {
+    constructor(message: string = 'Service Unavailable') {
+        super(message, 503);
+    }
+}
+
+// An AI output that still failed its schema (see ai.schema.ts) after every attempt. field is the path of the invalid field,
+// e.g. "score" or "[2].difficulty", or "response" when the output was not JSON at all.
+export class AIOutputError extends AppError {
+    public readonly task: string;
+    public readonly field: string;
+    public readonly attempts: number;
+
+    constructor(task: string, field: string, issue: string, attempts: number) {
+        super(`AI returned an invalid ${task} after ${attempts} attempt(s): ${field} ${issue}`, 502);
+        this.task = task;
+        this.field = field;
+        this.attempts = attempts;
+    }
+}
+
 export class CORSError extends AppError {
     constructor(message: string = 'CORS Error') {
         super(message, 403);
@@ -0,0 +1,37 @@
+import crypto from 'crypto';
+import { Interview } from '../Models/Interview.model.js';
+import { getCandidateEndTime, ICandidateSlot } from './timeUtils.js';
+
+// The access link fields stored on a candidate. The plaintext token is never stored, only its hash.
+export interface IAccessLinkFields {
+    access_link_hash: string;
+    access_link_issued_at: Date;
+    access_link_expires_at: Date;
+    access_link_revoked_at: Date | null;
+}
+
+// Hashes an access link token the way it is stored on the candidate. The token has 256 bits of randomness,
+// so a plain SHA-256 is enough and lets us look the candidate up by hash.
+export const hashAccessLinkToken = (token: string): string => {
+    return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+// An access link is valid until the candidate can no longer be taking the interview, which depends on their slot
+export const getAccessLinkExpiry = (interview: Interview, slot?: ICandidateSlot | null): Date => {
+    return getCandidateEndTime(interview, slot);
+};
+
+// Creates a new access link token for a candidate of the interview. The token must be handed to the interviewer right away,
+// as only the returned fields are stored.
+export const generateAccessLink = (interview: Interview, slot?: ICandidateSlot | null): { token: string, fields: IAccessLinkFields } => {
+    const token: string = crypto.randomBytes(32).toString('hex');
+    return {
+        token,
+        fields: {
+            access_link_hash: hashAccessLinkToken(token),
+            access_link_issued_at: new Date(),
+            access_link_expires_at: getAccessLinkExpiry(interview, slot),
+            access_link_revoked_at: null,
+        }
+    };
+};
@@ -0,0 +1,55 @@
+import { IDifficultyMinimums, IInterviewQuestion } from '../Models/Interview.model.js';
+import { questionDifficulty } from './types.js';
+
+/*
+An interview asks its fixed questions first, and AI generates the rest up to num_questions for each candidate.
+The minimums per difficulty apply to the whole set, so whatever the fixed questions don't cover has to come from AI.
+*/
+
+// Counts the questions of each difficulty
+export const countByDifficulty = (questions: { difficulty: questionDifficulty }[]): IDifficultyMinimums => {
+    const counts = { Easy: 0, Medium: 0, Hard: 0 } as IDifficultyMinimums;
+    for (const question of questions) {
+        if (question.difficulty in counts) counts[question.difficulty] += 1;
+    }
+    return counts;
+};
+
+// How many questions of each difficulty the AI generated questions must still include
+export const getAIDifficultyMinimums = (fixed: IInterviewQuestion[], minimums: Partial<IDifficultyMinimums>): IDifficultyMinimums => {
+    const counts = countByDifficulty(fixed);
+    const missing = { Easy: 0, Medium: 0, Hard: 0 } as IDifficultyMinimums;
+    for (const difficulty of Object.values(questionDifficulty)) {
+        missing[difficulty] = Math.max(0, (minimums[difficulty] || 0) - counts[difficulty]);
+    }
+    return missing;
+};
+
+// Returns why the mix can't be asked, or null if it can
+export const getQuestionMixError = (num_questions: number, fixed: IInterviewQuestion[], minimums: Partial<IDifficultyMinimums>): string | null => {
+    if (fixed.length > num_questions) {
+        return `There are ${fixed.length} fixed questions, num_questions must be at least that`;
+    }
+    const missing = getAIDifficultyMinimums(fixed, minimums);
+    const required = Object.values(missing).reduce((sum, count) => sum + count, 0);
+    if (required > num_questions - fixed.length) {
+        return `The difficulty minimums need ${required} AI generated questions, but only ${num_questions - fixed.length} are left after the fixed questions`;
+    }
+    return null;
+};
+
+// Whether a full set of questions meets the minimums
+export const meetsDifficultyMinimums = (questions: { difficulty: questionDifficulty }[], minimums: Partial<IDifficultyMinimums>): boolean => {
+    const counts = countByDifficulty(questions);
+    return Object.values(questionDifficulty).every((difficulty) => counts[difficulty] >= (minimums[difficulty] || 0));
+};
+
+// Returns a copy of the questions in random order (Fisher-Yates)
+export const shuffleQuestions = <T>(questions: T[]): T[] => {
+    const shuffled = [...questions];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+};
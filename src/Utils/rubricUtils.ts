@@ -0,0 +1,41 @@
+import { IRubric } from '../Models/Interview.model.js';
+import { ICriterionScore } from '../Models/Transcripts.model.js';
+
+/*
+Answers are evaluated on the rubric of their question: the key points a complete answer covers, and weighted criteria
+that are each scored on their own scale (0 to max_score). Questions without a rubric use defaultRubric.
+*/
+
+// The rubric of a question that has none. It scores the qualities the single 1-10 score used to stand for.
+export const defaultRubric: IRubric = {
+    key_points: [],
+    criteria: [
+        { name: 'Correctness', description: 'The answer is technically correct.', weight: 2, max_score: 10 },
+        { name: 'Depth', description: 'The answer goes beyond the basics, with reasoning, trade-offs or examples.', weight: 1, max_score: 10 },
+        { name: 'Clarity', description: 'The answer is clear and well structured.', weight: 1, max_score: 10 },
+    ],
+};
+
+// Returns the rubric to evaluate a question on
+export const getRubric = (rubric: IRubric | null | undefined): IRubric => {
+    return rubric && rubric.criteria.length > 0 ? rubric : defaultRubric;
+};
+
+// The overall score of an answer out of 10, with one decimal: the weighted average of its criteria, each as a fraction of its scale
+export const getRubricScore = (criteriaScores: ICriterionScore[]): number => {
+    const totalWeight: number = criteriaScores.reduce((sum, criterion) => sum + criterion.weight, 0);
+    if (totalWeight <= 0) return 0;
+    const weighted: number = criteriaScores.reduce((sum, criterion) => sum + criterion.weight * (criterion.score / criterion.max_score), 0);
+    return Math.round((weighted / totalWeight) * 100) / 10;
+};
+
+// Describes the rubric for the evaluation prompt
+export const formatRubric = (rubric: IRubric): string => {
+    const keyPoints: string = rubric.key_points.length > 0
+        ? rubric.key_points.map((point) => `- ${point}`).join('\n')
+        : '- (none given, judge the answer on the criteria only)';
+    const criteria: string = rubric.criteria
+        .map((criterion) => `- ${criterion.name} (weight ${criterion.weight}, score 0 to ${criterion.max_score})${criterion.description ? `: ${criterion.description}` : ''}`)
+        .join('\n');
+    return `Key points a complete answer covers:\n${keyPoints}\n\nCriteria:\n${criteria}`;
+};
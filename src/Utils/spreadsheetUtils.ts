@@ -0,0 +1,85 @@
+import { Readable } from 'stream';
+import ExcelJS from 'exceljs';
+import { BadRequestError } from './ErrorClass.js';
+
+export type SpreadsheetFormat = 'xlsx' | 'csv';
+
+// A data row of an uploaded candidate sheet. row is the 1-based row number in the file, so it can be shown back to the recruiter.
+export interface ISheetCandidateRow {
+    row: number;
+    email: string;
+    full_name: string;
+    phone_number: string;
+}
+
+const contentTypeFormats: Record<string, SpreadsheetFormat> = {
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+    'text/csv': 'csv',
+    'application/csv': 'csv',
+};
+
+export const spreadsheetContentTypes: string[] = Object.keys(contentTypeFormats);
+
+// Header names we accept for each column, compared after lowercasing and removing everything but letters
+const headerAliases: Record<keyof Omit<ISheetCandidateRow, 'row'>, string[]> = {
+    email: ['email', 'emailaddress', 'candidateemail', 'mail'],
+    full_name: ['fullname', 'name', 'candidatename'],
+    phone_number: ['phone', 'phonenumber', 'mobile', 'mobilenumber', 'contactnumber'],
+};
+
+// Returns the spreadsheet format for the Content-Type of an upload, or null if it is not supported
+export const getSpreadsheetFormat = (contentType: string | undefined): SpreadsheetFormat | null => {
+    const mimeType = (contentType || '').split(';')[0].trim().toLowerCase();
+    return contentTypeFormats[mimeType] || null;
+};
+
+/*
+@method parseCandidateSheet
+@description: Reads the first worksheet of an uploaded .xlsx or .csv file into candidate rows. The first row must be a header row
+with at least an email column, the name and phone columns are optional. Columns are matched by name (see headerAliases), so their order doesn't matter.
+CSV values are kept as text, so phone numbers keep their leading zeros. Empty rows are skipped.
+
+@params: buffer: Buffer - The raw file, format: SpreadsheetFormat
+@returns: Promise<ISheetCandidateRow[]>
+*/
+export const parseCandidateSheet = async (buffer: Buffer, format: SpreadsheetFormat): Promise<ISheetCandidateRow[]> => {
+    const workbook = new ExcelJS.Workbook();
+    let worksheet: ExcelJS.Worksheet | undefined;
+    try {
+        if (format === 'xlsx') {
+            // exceljs declares its own Buffer type, which the Node Buffer type no longer matches
+            await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+            worksheet = workbook.worksheets[0];
+        } else {
+            worksheet = await workbook.csv.read(Readable.from(buffer), { map: (value: unknown) => value });
+        }
+    } catch (error: unknown) {
+        throw new BadRequestError(`Could not read the ${format} file: ${(error as Error).message}`);
+    }
+    if (!worksheet || worksheet.rowCount === 0) throw new BadRequestError("The uploaded file has no rows");
+
+    // Map each known column to its index from the header row
+    const columns: Partial<Record<keyof typeof headerAliases, number>> = {};
+    worksheet.getRow(1).eachCell((cell, colNumber) => {
+        const header = cell.text.toLowerCase().replace(/[^a-z]/g, '');
+        (Object.keys(headerAliases) as (keyof typeof headerAliases)[]).forEach((key) => {
+            if (columns[key] === undefined && headerAliases[key].includes(header)) columns[key] = colNumber;
+        });
+    });
+    if (columns.email === undefined) throw new BadRequestError("The uploaded file must have an email column in its first row");
+
+    const rows: ISheetCandidateRow[] = [];
+    worksheet.eachRow((row, rowNumber) => {
+        if (rowNumber === 1) return;
+        const read = (column: number | undefined): string => column === undefined ? '' : row.getCell(column).text.trim();
+
+        const candidateRow: ISheetCandidateRow = {
+            row: rowNumber,
+            email: read(columns.email),
+            full_name: read(columns.full_name),
+            phone_number: read(columns.phone_number),
+        };
+        if (candidateRow.email || candidateRow.full_name || candidateRow.phone_number) rows.push(candidateRow);
+    });
+    return rows;
+};
@@ -0,0 +1,61 @@
+import { Interview } from "../Models/Interview.model.js";
+
+// Helper function to calculate remaining time in milliseconds
+// First calculates total allowed time based on number of questions and time per question
+// Then subtracts elapsed time since interview started to get remaining time
+export const calculateTimeRemainingMs = (startTime: Date, numQuestions: number, timePerQuestionMinutes: number): number => {
+    const totalAllowedTimeMs = numQuestions * timePerQuestionMinutes * 60 * 1000;
+    const elapsedMs = Date.now() - startTime.getTime();
+    return totalAllowedTimeMs - elapsedMs;
+};
+
+// Same as calculateTimeRemainingMs, but returns remaining time in whole minutes
+export const calculateTimeRemaining = (startTime: Date, numQuestions: number, timePerQuestionMinutes: number): number => {
+    const remainingMs = calculateTimeRemainingMs(startTime, numQuestions, timePerQuestionMinutes);
+    return Math.floor(remainingMs / (60 * 1000));
+};
+
+// The schedule fields of an interview the windows below are computed from
+export type IInterviewSchedule = Pick<Interview, 'scheduled_start_time' | 'buffer_time_minutes' | 'num_questions' | 'minutes_per_question'>;
+
+// A candidate's own time slot. Without slot_start_time the candidate uses the interview's start window,
+// and without slot_window_minutes the slot stays open for the interview's buffer time.
+export interface ICandidateSlot {
+    slot_start_time: Date | null;
+    slot_window_minutes: number | null;
+}
+
+// Returns the window in which a candidate is allowed to start the interview.
+// The window opens at the candidate's slot start time, or else at the scheduled start time, and closes after the window length.
+// Without a candidate it is the interview-level window.
+export const getStartWindow = (interview: IInterviewSchedule, slot?: ICandidateSlot | null): { opens_at: Date, closes_at: Date } => {
+    const opens_at: Date = new Date((slot?.slot_start_time || interview.scheduled_start_time).getTime());
+    const windowMinutes: number = (slot?.slot_start_time && slot.slot_window_minutes) || interview.buffer_time_minutes;
+    const closes_at: Date = new Date(opens_at.getTime() + windowMinutes * 60000);
+    return { opens_at, closes_at };
+};
+
+// The start window of a candidate, as shown on the dashboard
+export interface ICandidateStartWindow {
+    start_window_opens_at: Date;
+    start_window_closes_at: Date;
+    has_own_slot: boolean;
+}
+
+export const getCandidateStartWindow = (interview: IInterviewSchedule, slot: ICandidateSlot): ICandidateStartWindow => {
+    const { opens_at, closes_at } = getStartWindow(interview, slot);
+    return { start_window_opens_at: opens_at, start_window_closes_at: closes_at, has_own_slot: !!slot.slot_start_time };
+};
+
+// Returns the time after which the candidate can no longer be taking the interview.
+// The candidate may start when their start window closes and then has num_questions * minutes_per_question to finish.
+export const getCandidateEndTime = (interview: IInterviewSchedule, slot?: ICandidateSlot | null): Date => {
+    const { closes_at } = getStartWindow(interview, slot);
+    return new Date(closes_at.getTime() + interview.num_questions * interview.minutes_per_question * 60000);
+};
+
+// Returns the time after which no candidate without their own slot can still be taking the interview.
+// Candidates with a slot are covered by getCandidateEndTime.
+export const getInterviewEndTime = (interview: IInterviewSchedule): Date => {
+    return getCandidateEndTime(interview);
+};
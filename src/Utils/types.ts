@@ -18,4 +18,61 @@ export interface CandidateAuthRequest extends Request {
     access_link_token: string;
     candidate: Candidate;
     interview: Interview;
-}
\ No newline at end of file
+}
+
+// Status of a background job in the jobs collection.
+// DEAD is the dead-letter state: the job ran out of attempts and needs a manual retry.
+export enum jobStatus {
+    PENDING= 'Pending',
+    PROCESSING= 'Processing',
+    COMPLETED= 'Completed',
+    DEAD= 'Dead'
+}
+
+export enum jobType {
+    SCORE_TRANSCRIPT= 'score_transcript',
+    FINALIZE_CANDIDATE= 'finalize_candidate',
+    SEND_NOTIFICATION= 'send_notification'
+}
+
+export enum hiringRecommendation {
+    STRONG_HIRE= 'Strong Hire',
+    HIRE= 'Hire',
+    REVIEW= 'Review',
+    NO_HIRE= 'No Hire'
+}
+
+export enum questionDifficulty {
+    EASY= 'Easy',
+    MEDIUM= 'Medium',
+    HARD= 'Hard'
+}
+
+// What the next question of an adaptive interview does with the previous answer
+export enum nextQuestionAction {
+    FOLLOW_UP= 'Follow-up',     // Digs deeper into the previous answer
+    NEW_TOPIC= 'New Topic',     // Moves to an area not covered yet, at a difficulty that fits the answers so far
+    PLANNED= 'Planned'          // Asks the planned question as it is
+}
+
+export enum notificationType {
+    INVITATION= 'invitation',
+    REMINDER_24H= 'reminder_24h',
+    REMINDER_1H= 'reminder_1h',
+    CANCELLATION= 'cancellation',
+    COMPLETION= 'completion'
+}
+
+export enum notificationStatus {
+    PENDING= 'Pending',
+    SENT= 'Sent',
+    FAILED= 'Failed',
+    SKIPPED= 'Skipped'
+}
+
+// Review state of a question set generated when the interview is created.
+// Candidates can only start once it is APPROVED, and any edit moves it back to DRAFT.
+export enum questionSetStatus {
+    DRAFT= 'Draft',
+    APPROVED= 'Approved'
+}
@@ -13,6 +13,22 @@ import { errorHandler } from './Middlewares/errorHandler.js';
 import { authenticate } from './Middlewares/auth.middleware.js';
 import authRouter from "./Api/Routes/auth.routes.js";
 import interviewRouter from "./Api/Routes/interview.routes.js";
+import candidateRouter from "./Api/Routes/candidate.routes.js";
+import personRouter from "./Api/Routes/person.routes.js";
+import templateRouter from "./Api/Routes/template.routes.js";
+import questionBankRouter from "./Api/Routes/questionBank.routes.js";
+
+import jobQueue from './Jobs/jobQueue.js';
+import scheduler from './Jobs/scheduler.js';
+import { scoreTranscriptJob } from './Jobs/scoring.job.js';
+import { finalizeCandidateJob, sweepUnfinishedCandidates } from './Jobs/finalization.job.js';
+import { advanceInterviewLifecycles } from './Jobs/lifecycle.job.js';
+import { sendNotificationJob, queueInterviewReminders } from './Jobs/notification.job.js';
+import { purgeDeletedInterviews } from './Jobs/purge.job.js';
+import notificationService from './Api/Services/notification.service.js';
+import { jobType } from './Utils/types.js';
+import { migrateAccessLinkHashes } from './Migrations/accessLinkHash.migration.js';
+import { migrateCandidateIdentity } from './Migrations/candidateIdentity.migration.js';
 
 import  WebSocketService  from './websockets/socket.service.js';
 import webSocketService from './websockets/socket.service.js';
@@ -27,6 +43,23 @@ const initializeApp = async () => {
         //Connect to Database
         await dbConnection.connect();
 
+        //Bring existing data up to date before serving requests
+        await migrateAccessLinkHashes();
+        await migrateCandidateIdentity();
+
+        //Register background job handlers and periodic tasks, and start them
+        jobQueue.registerHandler(jobType.SCORE_TRANSCRIPT, scoreTranscriptJob);
+        jobQueue.registerHandler(jobType.FINALIZE_CANDIDATE, finalizeCandidateJob);
+        jobQueue.registerHandler(jobType.SEND_NOTIFICATION, sendNotificationJob);
+        jobQueue.start();
+        notificationService.initialize();
+
+        scheduler.register('finalization-sweeper', parseInt(process.env.FINALIZATION_SWEEP_INTERVAL_MS || '60000'), sweepUnfinishedCandidates);
+        scheduler.register('interview-lifecycle', parseInt(process.env.LIFECYCLE_INTERVAL_MS || '30000'), advanceInterviewLifecycles);
+        scheduler.register('notification-reminders', parseInt(process.env.REMINDER_INTERVAL_MS || '60000'), queueInterviewReminders);
+        scheduler.register('interview-purge', parseInt(process.env.PURGE_INTERVAL_MS || '3600000'), purgeDeletedInterviews);
+        scheduler.start();
+
         //Initialize express Middlewares
         app.use(express.urlencoded({ extended: true }));
         app.use(express.json());
@@ -46,8 +79,12 @@ const initializeApp = async () => {
 
         // Custom route handlers
         app.use("/api/auth", authRouter);
+        app.use("/api/candidate", candidateRouter);     //Candidate routes are authenticated by access link token, not JWT
         app.use(authenticate);              //Custom middleware to authenticate all routes below this line
         app.use("/api/interviews", interviewRouter);
+        app.use("/api/persons", personRouter);
+        app.use("/api/templates", templateRouter);
+        app.use("/api/question-bank", questionBankRouter);
         
 
 
@@ -74,11 +111,14 @@ const initializeApp = async () => {
         const gracefulShutdown = async (signal: string) => {
             logger.info(`Received ${signal}. Shutting down gracefully...`);
             WebSocketService.shutdown();
+            notificationService.shutdown();
             server.close(async () => {
                 logger.warn('HTTP server closed.');
 
                 try {
-                    //TODO: Close database connections and any other here
+                    //Let running background jobs finish before closing the database connection
+                    await scheduler.stop();
+                    await jobQueue.stop();
                     await dbConnection.disconnect();
 
                     process.exit(0);
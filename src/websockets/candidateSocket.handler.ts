@@ -0,0 +1,305 @@
+import { WebSocket } from 'ws';
+import logger from '../Config/logger.config.js';
+import { verifyCandidateAccess } from '../Middlewares/candidate.middleware.js';
+import candidateService from '../Api/Services/candidate.service.js';
+import eventBus from '../Events/eventBus.js';
+import { AppError, ForbiddenError, GoneError } from '../Utils/ErrorClass.js';
+import { interviewStatus } from '../Utils/types.js';
+import { saveDraftSchema, submitAnswerSchema, ICandidateQuestion, IReconnectMeta } from '../Schemas/candidate.schema.js';
+import { IWSCandidateServerMessage } from '../Schemas/socket.schema.js';
+import type { ExtWebSocket } from './socket.service.js';
+
+/*
+@class CandidateSocketHandler
+Description: Handles the WebSocket connections of candidates, authenticated by their access link token. It pushes the current question to the
+candidate and runs a countdown for it that is driven entirely by the server clock:
+    - The deadline of a question comes from candidateService.getQuestionDeadline (minutes_per_question from when it was presented).
+    - The server sends 'question:tick' with the remaining time and 'question:time_warning' at the configured thresholds.
+    - When the deadline passes, the server auto-submits the question and pushes the next one, whatever the client's clock says.
+Every action re-runs verifyCandidateAccess, so the same status and timing rules as the REST API apply.
+Connecting to a session that is already started counts as a reconnect, and the pushed question carries the autosaved draft,
+so the candidate continues exactly where they left off. Drafts can be autosaved over the socket with 'answer:draft'.
+
+The handler also subscribes to 'answer:submitted', so when a question is answered or auto-submitted through REST or another tab,
+every open connection of that candidate moves to the next question. When the candidate's access link is revoked or replaced
+('candidate:access_revoked'), or the interview is cancelled ('interview:cancelled'), their open connections are closed.
+
+Dependencies:
+    - verifyCandidateAccess: Authenticates the access link token.
+    - candidateService: Starts the interview, serves questions, accepts and expires answers.
+    - eventBus: To follow answers submitted outside of this connection and revoked access links.
+
+Methods:
+    - initialize(): void
+    - shutdown(): void
+    - handleConnection(ws: ExtWebSocket, accessLinkToken: string, meta: IReconnectMeta): Promise<void>
+*/
+class CandidateSocketHandler {
+    private readonly tickIntervalMs: number = parseInt(process.env.CANDIDATE_TICK_INTERVAL_MS || '1000');
+    private readonly warningSeconds: number[] = (process.env.CANDIDATE_TIME_WARNING_SECONDS || '60,10')
+        .split(',')
+        .map((value) => parseInt(value))
+        .filter((value) => value > 0);
+
+    // Open connections per candidateId. A candidate may have more than one tab open.
+    private candidateSockets = new Map<string, Set<ExtWebSocket>>();
+    private subscriptions: (() => void)[] = [];
+
+    public initialize(): void {
+        this.subscriptions = [
+            eventBus.subscribe('answer:submitted', async (event) => {
+                const sockets = this.candidateSockets.get(event.candidateId);
+                if (!sockets) return;
+                await Promise.all([...sockets].map((ws) => this.pushCurrentQuestion(ws)));
+            }),
+            eventBus.subscribe('candidate:access_revoked', (event) => {
+                this.candidateSockets.get(event.candidateId)?.forEach((ws) => {
+                    this.clearTimers(ws);
+                    ws.close(1008, 'Access link revoked');
+                });
+            }),
+            eventBus.subscribe('interview:cancelled', (event) => {
+                event.candidateIds.forEach((candidateId) => {
+                    this.candidateSockets.get(candidateId)?.forEach((ws) => {
+                        this.clearTimers(ws);
+                        this.send(ws, { event: 'interview:cancelled', message: 'This interview has been cancelled' });
+                        ws.close(1000, 'Interview cancelled');
+                    });
+                });
+            }),
+        ];
+    }
+
+    public shutdown(): void {
+        this.candidateSockets.forEach((sockets) => sockets.forEach((ws) => this.clearTimers(ws)));
+        this.candidateSockets.clear();
+        this.subscriptions.forEach((unsubscribe) => unsubscribe());
+        this.subscriptions = [];
+    }
+
+    /*
+    @method handleConnection
+    @description: Authenticates a candidate connection and sends the initial state: the session state if the interview
+    is not started yet, otherwise records the reconnect and sends the current question with its timer. If the token is rejected, the connection is closed with the reason.
+
+    @params: ws: ExtWebSocket, accessLinkToken: string, meta: IReconnectMeta - Client details stored with the reconnect
+    @returns: Promise<void>
+    */
+    public async handleConnection(ws: ExtWebSocket, accessLinkToken: string, meta: IReconnectMeta = {}): Promise<void> {
+        let candidateId: string;
+        try {
+            const { candidate } = await verifyCandidateAccess(accessLinkToken);
+            candidateId = candidate._id!.toString();
+        } catch (error: unknown) {
+            logger.warn(`Candidate WS connection rejected: ${(error as Error).message}`);
+            ws.close(1008, error instanceof AppError ? error.message : 'Authentication failed');
+            return;
+        }
+
+        ws.candidateId = candidateId;
+        ws.accessLinkToken = accessLinkToken;
+        if (!this.candidateSockets.has(candidateId)) {
+            this.candidateSockets.set(candidateId, new Set());
+        }
+        this.candidateSockets.get(candidateId)!.add(ws);
+        this.setupSignalHandlers(ws);
+
+        logger.info(`WS connected: Candidate ${candidateId}`);
+        await this.sendInitialState(ws, meta);
+    }
+
+    private setupSignalHandlers(ws: ExtWebSocket): void {
+        ws.on('close', (code) => {
+            this.clearTimers(ws);
+            const sockets = this.candidateSockets.get(ws.candidateId!);
+            if (sockets) {
+                sockets.delete(ws);
+                if (sockets.size === 0) this.candidateSockets.delete(ws.candidateId!);
+            }
+            logger.info(`WS disconnected: Candidate ${ws.candidateId}. Code: ${code}`);
+        });
+
+        ws.on('error', (err) => {
+            logger.error(`WS error for candidate ${ws.candidateId}:`, err);
+        });
+
+        ws.on('pong', () => {
+            ws.isAlive = true;
+        });
+
+        ws.on('message', async (data: string) => {
+            try {
+                const message = JSON.parse(data.toString());
+
+                switch (message.event) {
+                    case 'interview:start':
+                        await this.handleStart(ws);
+                        break;
+                    case 'answer:submit':
+                        await this.handleSubmit(ws, message.payload);
+                        break;
+                    case 'answer:draft':
+                        await this.handleDraft(ws, message.payload);
+                        break;
+                    case 'ping':
+                        this.send(ws, { event: 'pong' });
+                        break;
+                    default:
+                        logger.warn(`Unknown WS event from candidate ${ws.candidateId}: ${message.event}`);
+                }
+            } catch (error) {
+                logger.error('Failed to handle candidate WS message:', error);
+                this.send(ws, { event: 'error', message: 'Invalid message format' });
+            }
+        });
+    }
+
+    private async sendInitialState(ws: ExtWebSocket, meta: IReconnectMeta): Promise<void> {
+        try {
+            const { candidate, interview } = await verifyCandidateAccess(ws.accessLinkToken!);
+            if (candidate.status === interviewStatus.SCHEDULED) {
+                const session = await candidateService.getSessionState(candidate, interview);
+                this.send(ws, { event: 'candidate:session', data: session });
+                return;
+            }
+            await candidateService.recordReconnect(candidate, 'websocket', meta);
+        } catch (error: unknown) {
+            this.handleError(ws, error);
+            return;
+        }
+        await this.pushCurrentQuestion(ws);
+    }
+
+    private async handleStart(ws: ExtWebSocket): Promise<void> {
+        try {
+            const { candidate, interview } = await verifyCandidateAccess(ws.accessLinkToken!);
+            await candidateService.startInterview(candidate, interview);
+        } catch (error: unknown) {
+            this.handleError(ws, error);
+            return;
+        }
+        // Also covers other tabs of the same candidate
+        const sockets = this.candidateSockets.get(ws.candidateId!) || new Set([ws]);
+        await Promise.all([...sockets].map((socket) => this.pushCurrentQuestion(socket)));
+    }
+
+    // The next question is pushed through the 'answer:submitted' subscription
+    private async handleSubmit(ws: ExtWebSocket, payload: unknown): Promise<void> {
+        const parsed = submitAnswerSchema.shape.body.safeParse(payload);
+        if (!parsed.success) {
+            this.send(ws, { event: 'error', message: 'Invalid answer payload' });
+            return;
+        }
+
+        try {
+            const { candidate, interview } = await verifyCandidateAccess(ws.accessLinkToken!);
+            const result = await candidateService.submitAnswer(candidate, interview, parsed.data);
+            this.send(ws, { event: 'answer:accepted', data: { question_order: result.question_order, is_completed: result.is_completed } });
+        } catch (error: unknown) {
+            this.handleError(ws, error);
+        }
+    }
+
+    private async handleDraft(ws: ExtWebSocket, payload: unknown): Promise<void> {
+        const parsed = saveDraftSchema.shape.body.safeParse(payload);
+        if (!parsed.success) {
+            this.send(ws, { event: 'error', message: 'Invalid draft payload' });
+            return;
+        }
+
+        try {
+            const { candidate, interview } = await verifyCandidateAccess(ws.accessLinkToken!);
+            const result = await candidateService.saveDraft(candidate, interview, parsed.data);
+            this.send(ws, { event: 'draft:saved', data: result });
+        } catch (error: unknown) {
+            this.handleError(ws, error);
+        }
+    }
+
+    /*
+    @method pushCurrentQuestion
+    @description: Sends the current question (after expiring overdue ones) and restarts the countdown for it.
+    If the candidate has nothing left to answer, the session is completed and the connection closed.
+    */
+    private async pushCurrentQuestion(ws: ExtWebSocket): Promise<void> {
+        if (ws.readyState !== WebSocket.OPEN) return;
+        try {
+            const { candidate, interview } = await verifyCandidateAccess(ws.accessLinkToken!);
+            const question: ICandidateQuestion = await candidateService.getCurrentQuestion(candidate, interview);
+            this.send(ws, { event: 'question:current', data: { ...question, server_time: new Date() } });
+            this.startQuestionTimer(ws, question);
+        } catch (error: unknown) {
+            this.handleError(ws, error);
+        }
+    }
+
+    private startQuestionTimer(ws: ExtWebSocket, question: ICandidateQuestion): void {
+        this.clearTimers(ws);
+        ws.warningsSent = new Set();
+        const deadlineMs: number = new Date(question.deadline).getTime();
+
+        ws.tickTimer = setInterval(() => {
+            const remainingSeconds = Math.max(0, Math.ceil((deadlineMs - Date.now()) / 1000));
+            this.send(ws, { event: 'question:tick', data: { question_order: question.question_order, time_remaining_seconds: remainingSeconds } });
+
+            this.warningSeconds.forEach((threshold) => {
+                if (remainingSeconds <= threshold && !ws.warningsSent!.has(threshold)) {
+                    ws.warningsSent!.add(threshold);
+                    this.send(ws, { event: 'question:time_warning', data: { question_order: question.question_order, time_remaining_seconds: remainingSeconds } });
+                }
+            });
+        }, this.tickIntervalMs);
+
+        const delayMs = Math.max(0, deadlineMs - Date.now()) + candidateService.questionGraceMs + 100;
+        ws.questionTimer = setTimeout(() => this.handleTimeout(ws, question.question_order), delayMs);
+    }
+
+    // Auto-submits the expired question. The next question is pushed through the 'answer:submitted' subscription.
+    private async handleTimeout(ws: ExtWebSocket, question_order: number): Promise<void> {
+        this.clearTimers(ws);
+        this.send(ws, { event: 'question:timeout', data: { question_order } });
+
+        try {
+            const { candidate, interview } = await verifyCandidateAccess(ws.accessLinkToken!);
+            const expired = await candidateService.expireOverdueQuestions(candidate, interview);
+            if (expired === 0) await this.pushCurrentQuestion(ws);
+        } catch (error: unknown) {
+            this.handleError(ws, error);
+        }
+    }
+
+    // A GoneError means the candidate has nothing left to do, a ForbiddenError that the link was revoked.
+    // Anything else is reported to the client.
+    private handleError(ws: ExtWebSocket, error: unknown): void {
+        if (error instanceof GoneError) {
+            this.clearTimers(ws);
+            this.send(ws, { event: 'interview:completed', message: error.message });
+            ws.close(1000, 'Interview completed');
+            return;
+        }
+        if (error instanceof ForbiddenError) {
+            this.clearTimers(ws);
+            this.send(ws, { event: 'error', message: error.message });
+            ws.close(1008, 'Access link revoked');
+            return;
+        }
+        logger.error(`Candidate WS action failed for ${ws.candidateId}:`, (error as Error).message);
+        this.send(ws, { event: 'error', message: error instanceof AppError ? error.message : 'Something went wrong' });
+    }
+
+    private clearTimers(ws: ExtWebSocket): void {
+        if (ws.tickTimer) clearInterval(ws.tickTimer);
+        if (ws.questionTimer) clearTimeout(ws.questionTimer);
+        ws.tickTimer = undefined;
+        ws.questionTimer = undefined;
+    }
+
+    private send(ws: ExtWebSocket, message: IWSCandidateServerMessage): void {
+        if (ws.readyState === WebSocket.OPEN) {
+            ws.send(JSON.stringify(message));
+        }
+    }
+}
+
+const candidateSocketHandler = new CandidateSocketHandler();
+export default candidateSocketHandler;
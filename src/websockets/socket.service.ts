@@ -8,6 +8,10 @@ import { CandidateModel } from '../Models/Candidate.model.js';
 import { TranscriptModel } from '../Models/Transcripts.model.js';
 import  interviewService  from '../Api/Services/interview.service.js';
 import { tokenPayload } from '../Schemas/auth.schema.js';
+import { IWSServerMessage } from '../Schemas/ai.schema.js';
+import eventBus from '../Events/eventBus.js';
+import { getCandidateStartWindow } from '../Utils/timeUtils.js';
+import candidateSocketHandler from './candidateSocket.handler.js';
 
 /*
 @interface ExtWebSocket
@@ -15,10 +19,17 @@ import { tokenPayload } from '../Schemas/auth.schema.js';
 This allows us to attach custom state properties to each client's connection,
 such as their authenticated interviewerId, the interviewId they are
 subscribed to, and a flag for heartbeat checks (isAlive).
+Candidate connections instead carry their candidateId, access link token and
+the timers that drive the current question's countdown.
 */
 export interface ExtWebSocket extends WebSocket {
     interviewerId?: string;
     interviewId?: string;
+    candidateId?: string;
+    accessLinkToken?: string;
+    questionTimer?: NodeJS.Timeout;
+    tickTimer?: NodeJS.Timeout;
+    warningsSent?: Set<number>;
     isAlive: boolean; 
 }
 
@@ -38,14 +49,18 @@ Dependencies:
     - tokenUtils.js: For decoding and-validating authentication tokens.
     - DB models: InterviewModel, CandidateModel, TranscriptModel for fetching data.
     - interview.service.js: Used to fetch specific data, like candidate transcripts.
+    - eventBus: Domain events published by services and jobs, which are forwarded to the interview's room.
+    - candidateSocket.handler.js: Handles connections made by candidates with an access link token.
 
 Methods:
     - initialize(wssInstance: WebSocketServer): void
     - shutdown(): void
+    - subscribeToDomainEvents(): void
     - handleConnection(ws: ExtWebSocket, req: IncomingMessage): Promise<void>
     - sendInitialDashboardData(ws: ExtWebSocket, interviewId: string): Promise<void>
     - joinRoom(interviewId: string, ws: ExtWebSocket): void
     - leaveRoom(interviewId: string, ws: ExtWebSocket): void
+    - broadcastToRoom(interviewId: string, message: IWSServerMessage): void
     - setupSignalHandlers(ws: ExtWebSocket): void
     - handleCandidateDetailsRequest(ws: ExtWebSocket, payload: any): Promise<void>
 */
@@ -57,12 +72,16 @@ class WebSocketService {
     // of all connected ExtWebSocket clients (interviewers) subscribed to that interview.
     private interviewRooms = new Map<string, Set<ExtWebSocket>>();
 
+    // Unsubscribe functions for the domain events we forward to rooms.
+    private subscriptions: (() => void)[] = [];
+
     /*
     @method initialize
     @description: Initializes the WebSocket service by attaching it to an existing
     WebSocketServer instance (usually created in the main server file). It binds
     the 'connection' event listener, which delegates new connections to the
-    `handleConnection` method.
+    `handleConnection` method, and subscribes to the domain events that are
+    broadcast to dashboards.
 
     @params: wssInstance: WebSocketServer - The WebSocketServer instance to attach to.
     @returns: void
@@ -73,6 +92,8 @@ class WebSocketService {
         this.wss.on('connection', (ws: ExtWebSocket, req: IncomingMessage) => {
             this.handleConnection(ws, req);
         });
+        this.subscribeToDomainEvents();
+        candidateSocketHandler.initialize();
         logger.info('WebSocket Service initialized.');
     }
 
@@ -81,7 +102,9 @@ class WebSocketService {
     @description: This private method is the core handler for all new WebSocket
     connections. It performs authentication and authorization:
     1.  Sets the `isAlive` flag for heartbeat checks.
-    2.  Parses the connection URL to get the `token` and `interviewId`.
+    2.  Parses the connection URL. If it has an `access_link_token`, this is a
+        candidate connection and it is handed over to `candidateSocketHandler`.
+        Otherwise we read the interviewer's `token` and `interviewId`.
     3.  Closes the connection if parameters are missing.
     4.  Validates the `token` using `tokenUtils`.
     5.  Fetches the interview from the database.
@@ -102,6 +125,16 @@ class WebSocketService {
         try {
             
             const url = new URL(req.url || '', 'http://localhost');
+
+            const accessLinkToken = url.searchParams.get('access_link_token');
+            if (accessLinkToken) {
+                await candidateSocketHandler.handleConnection(ws, accessLinkToken, {
+                    ip: req.socket.remoteAddress,
+                    user_agent: req.headers['user-agent'],
+                });
+                return;
+            }
+
             const token = url.searchParams.get('token');
             const interviewId = url.searchParams.get('interviewId');
 
@@ -171,6 +204,77 @@ class WebSocketService {
             });
             this.interviewRooms.clear();
         }
+        this.subscriptions.forEach((unsubscribe) => unsubscribe());
+        this.subscriptions = [];
+        candidateSocketHandler.shutdown();
+    }
+
+    /*
+    @method subscribeToDomainEvents
+    @description: Subscribes to the domain events on the event bus and forwards
+    each one to the room of the interview it belongs to, so dashboards update
+    without reconnecting:
+    - 'answer:submitted'         -> 'candidate:progress_update'
+    - 'score:updated'            -> 'candidate:score_update'
+    - 'candidate:started'        -> 'candidate:status_update'
+    - 'candidate:completed'      -> 'candidate:status_update'
+    - 'interview:status_changed' -> 'interview:status_update'
+    - 'interview:updated'        -> 'interview:updated'
+    - 'candidates:added'         -> 'candidate:added' (one per candidate, in the same shape as the dashboard:init candidates)
+    - 'candidate:removed'        -> 'candidate:removed'
+    - 'interview:cancelled'      -> 'interview:cancelled' (with the ids of the candidates cancelled along with it)
+
+    @params: None
+    @returns: void
+    */
+    private subscribeToDomainEvents(): void {
+        this.subscriptions = [
+            eventBus.subscribe('answer:submitted', (event) => {
+                this.broadcastToRoom(event.interviewId, {
+                    event: 'candidate:progress_update',
+                    data: { ...event, progress: `${event.answered_count}/${event.total_questions}` }
+                });
+            }),
+            eventBus.subscribe('score:updated', (event) => {
+                this.broadcastToRoom(event.interviewId, { event: 'candidate:score_update', data: event });
+            }),
+            eventBus.subscribe('candidate:started', (event) => {
+                this.broadcastToRoom(event.interviewId, { event: 'candidate:status_update', data: event });
+            }),
+            eventBus.subscribe('candidate:completed', (event) => {
+                this.broadcastToRoom(event.interviewId, { event: 'candidate:status_update', data: event });
+            }),
+            eventBus.subscribe('interview:status_changed', (event) => {
+                this.broadcastToRoom(event.interviewId, { event: 'interview:status_update', data: event });
+            }),
+            eventBus.subscribe('interview:updated', (event) => {
+                this.broadcastToRoom(event.interviewId, { event: 'interview:updated', data: event });
+            }),
+            eventBus.subscribe('candidates:added', (event) => {
+                event.candidates.forEach((candidate) => {
+                    this.broadcastToRoom(event.interviewId, {
+                        event: 'candidate:added',
+                        data: {
+                            _id: candidate.candidateId,
+                            full_name: candidate.full_name,
+                            email: candidate.email,
+                            status: candidate.status,
+                            reconnect_count: 0,
+                            progress: `0/${event.total_questions}`,
+                            start_window_opens_at: candidate.start_window_opens_at,
+                            start_window_closes_at: candidate.start_window_closes_at,
+                            has_own_slot: candidate.has_own_slot
+                        }
+                    });
+                });
+            }),
+            eventBus.subscribe('candidate:removed', (event) => {
+                this.broadcastToRoom(event.interviewId, { event: 'candidate:removed', data: event });
+            }),
+            eventBus.subscribe('interview:cancelled', (event) => {
+                this.broadcastToRoom(event.interviewId, { event: 'interview:cancelled', data: event });
+            }),
+        ];
     }
 
     /*
@@ -208,7 +312,9 @@ class WebSocketService {
                 full_name: candidate.full_name,
                 email: candidate.email,
                 status: candidate.status,
-                progress: `${progressMap.get(candidate._id.toString()) || 0}/${interview.num_questions}`
+                reconnect_count: candidate.reconnect_count || 0,
+                progress: `${progressMap.get(candidate._id.toString()) || 0}/${interview.num_questions}`,
+                ...getCandidateStartWindow(interview, candidate)
             }));
 
             const message = {
@@ -218,6 +324,7 @@ class WebSocketService {
                         title: interview.title,
                         status: interview.status,
                         scheduled_start_time: interview.scheduled_start_time,
+                        buffer_time_minutes: interview.buffer_time_minutes,
                         num_questions: interview.num_questions,
                     },
                     candidates: candidatePayload
@@ -277,6 +384,28 @@ class WebSocketService {
     }
 
 
+    /*
+    @method broadcastToRoom
+    @description: Sends a message to every open client in an interview "room".
+    If nobody is watching the interview, the room doesn't exist and this is a no-op.
+
+    @params: interviewId: string - The ID of the room to broadcast to.
+    @params: message: IWSServerMessage - The event to send.
+    @returns: void
+    */
+    public broadcastToRoom(interviewId: string, message: IWSServerMessage): void {
+        const room = this.interviewRooms.get(interviewId);
+        if (!room) return;
+
+        const serialized = JSON.stringify(message);
+        room.forEach((client) => {
+            if (client.readyState === WebSocket.OPEN) {
+                client.send(serialized);
+            }
+        });
+    }
+
+
     /*
     @method setupSignalHandlers
     @description: Attaches all necessary event listeners to a WebSocket